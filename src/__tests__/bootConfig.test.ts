@@ -0,0 +1,113 @@
+// @vitest-environment node
+// jsdom 的 File 没有 arrayBuffer，使用 Node 自带的 File
+
+import { EMPTY_BOOT_CONFIG, detectBootConfig, parseCommand } from '@/utils/bootConfig';
+import { createDirectoryNode, createFileNode, createLazyFileNode } from '@/utils/vfs';
+
+const packageJson = (path: string, scripts: Record<string, string>) =>
+  createFileNode(path, JSON.stringify({ scripts }));
+
+describe('parseCommand', () => {
+  it('splits the command and its arguments', () => {
+    expect(parseCommand('pnpm run dev')).toEqual({ command: 'pnpm', args: ['run', 'dev'] });
+  });
+
+  it('keeps quoted arguments with spaces together', () => {
+    expect(parseCommand(`node "my script.js" --name 'a b'`)).toEqual({
+      command: 'node',
+      args: ['my script.js', '--name', 'a b'],
+    });
+  });
+
+  it('returns null for an empty command line', () => {
+    expect(parseCommand('')).toBeNull();
+    expect(parseCommand('   ')).toBeNull();
+  });
+});
+
+describe('detectBootConfig', () => {
+  it('returns the empty config without a package.json', async () => {
+    expect(await detectBootConfig('project', null)).toBe(EMPTY_BOOT_CONFIG);
+    expect(
+      await detectBootConfig('project', [
+        createDirectoryNode('/app', [createFileNode('/app/index.html')]),
+      ]),
+    ).toBe(EMPTY_BOOT_CONFIG);
+  });
+
+  it('picks the package manager from the lockfile next to package.json', async () => {
+    const config = await detectBootConfig('project', [
+      createDirectoryNode('/react', [
+        packageJson('/react/package.json', { dev: 'vite' }),
+        createFileNode('/react/yarn.lock'),
+      ]),
+    ]);
+
+    expect(config).toEqual({
+      cwd: '/react',
+      installCommand: 'yarn install',
+      startCommand: 'yarn run dev',
+    });
+  });
+
+  it('falls back to pnpm and picks the first available start script', async () => {
+    const config = await detectBootConfig('project', [
+      createDirectoryNode('/app', [
+        packageJson('/app/package.json', { preview: 'vite preview', start: 'x' }),
+      ]),
+    ]);
+
+    expect(config.installCommand).toBe('pnpm install');
+    expect(config.startCommand).toBe('pnpm run start');
+  });
+
+  it('uses the package.json closest to the root', async () => {
+    const config = await detectBootConfig('project', [
+      createDirectoryNode('/repo', [
+        createDirectoryNode('/repo/packages', [
+          createDirectoryNode('/repo/packages/web', [
+            packageJson('/repo/packages/web/package.json', { dev: 'vite' }),
+          ]),
+        ]),
+        packageJson('/repo/package.json', { serve: 'serve .' }),
+        createFileNode('/repo/package-lock.json'),
+      ]),
+    ]);
+
+    expect(config).toEqual({
+      cwd: '/repo',
+      installCommand: 'npm install',
+      startCommand: 'npm run serve',
+    });
+  });
+
+  it('leaves the start command empty when no start script exists', async () => {
+    const config = await detectBootConfig('project', [
+      createDirectoryNode('/lib', [packageJson('/lib/package.json', { build: 'tsc' })]),
+    ]);
+
+    expect(config.startCommand).toBe('');
+  });
+
+  it('reads a nested package.json whose content has not been loaded yet', async () => {
+    const content = JSON.stringify({ scripts: { dev: 'vite' } });
+    const handler = {
+      kind: 'file',
+      getFile: async () => new File([content], 'package.json'),
+    } as unknown as FileSystemFileHandle;
+    const config = await detectBootConfig('project', [
+      createDirectoryNode('/repo', [
+        createDirectoryNode('/repo/web', [
+          { ...createLazyFileNode('/repo/web/package.json', content.length), handler },
+          createFileNode('/repo/web/yarn.lock'),
+        ]),
+      ]),
+    ]);
+
+    expect(config).toEqual({
+      cwd: '/repo/web',
+      installCommand: 'yarn install',
+      startCommand: 'yarn run dev',
+    });
+  });
+});
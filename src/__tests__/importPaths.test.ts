@@ -0,0 +1,106 @@
+import { relativeSpecifier, resolveImport, updateImportPaths } from '@/utils/importPaths';
+import { createFileNode } from '@/utils/vfs';
+
+describe('relativeSpecifier', () => {
+  it('starts with ./ inside the same directory', () => {
+    expect(relativeSpecifier('/app/src', '/app/src/utils/a')).toBe('./utils/a');
+  });
+
+  it('walks up to the common parent', () => {
+    expect(relativeSpecifier('/app/src/pages', '/app/lib/a.ts')).toBe('../../lib/a.ts');
+  });
+});
+
+describe('resolveImport', () => {
+  const paths = new Set(['/app/a.ts', '/app/b.js', '/app/b.ts', '/app/c/index.tsx', '/app/d.css']);
+
+  it('matches a path written with its extension', () => {
+    expect(resolveImport('/app/d.css', paths)).toEqual({ path: '/app/d.css', omitted: '' });
+  });
+
+  it('tries the omitted extensions in resolution order', () => {
+    expect(resolveImport('/app/a', paths)).toEqual({ path: '/app/a.ts', omitted: 'extension' });
+    expect(resolveImport('/app/b', paths)).toEqual({ path: '/app/b.ts', omitted: 'extension' });
+  });
+
+  it('falls back to the index file of a directory', () => {
+    expect(resolveImport('/app/c', paths)).toEqual({ path: '/app/c/index.tsx', omitted: 'index' });
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(resolveImport('/app/missing', paths)).toBeNull();
+  });
+});
+
+describe('updateImportPaths', () => {
+  it('updates imports that point to a moved file and keeps how they were written', () => {
+    const files = [
+      createFileNode(
+        '/app/main.ts',
+        "import a from './a';\nimport b from './b.ts';\nconst c = require('./a');\n",
+      ),
+      createFileNode('/app/lib/a.ts'),
+      createFileNode('/app/lib/b.ts'),
+    ];
+    const edits = updateImportPaths(files, [
+      { from: '/app/a.ts', to: '/app/lib/a.ts' },
+      { from: '/app/b.ts', to: '/app/lib/b.ts' },
+    ]);
+
+    expect(edits).toEqual([
+      {
+        id: files[0].id,
+        path: '/app/main.ts',
+        value:
+          "import a from './lib/a';\nimport b from './lib/b.ts';\nconst c = require('./lib/a');\n",
+      },
+    ]);
+  });
+
+  it('updates the imports of the moved file itself', () => {
+    const files = [
+      createFileNode('/app/a.ts'),
+      createFileNode('/app/nested/main.ts', "export * from './a';\n"),
+    ];
+    const [edit] = updateImportPaths(files, [{ from: '/app/main.ts', to: '/app/nested/main.ts' }]);
+
+    expect(edit.value).toBe("export * from '../a';\n");
+  });
+
+  it('keeps directory imports pointing at the moved index file', () => {
+    const files = [
+      createFileNode('/app/main.ts', "import { x } from './components';\n"),
+      createFileNode('/app/ui/index.ts'),
+    ];
+    const [edit] = updateImportPaths(files, [{ from: '/app/components', to: '/app/ui' }]);
+
+    expect(edit.value).toBe("import { x } from './ui';\n");
+  });
+
+  it('keeps query strings and ignores package imports and unresolved paths', () => {
+    const files = [
+      createFileNode(
+        '/app/main.ts',
+        "import 'react';\nimport './missing';\nimport url from './logo.svg?url';\n",
+      ),
+      createFileNode('/app/assets/logo.svg'),
+    ];
+    const [edit] = updateImportPaths(files, [
+      { from: '/app/logo.svg', to: '/app/assets/logo.svg' },
+    ]);
+
+    expect(edit.value).toBe(
+      "import 'react';\nimport './missing';\nimport url from './assets/logo.svg?url';\n",
+    );
+  });
+
+  it('returns no edits when no import changes', () => {
+    const files = [
+      createFileNode('/app/main.ts', "import a from './a';\n"),
+      createFileNode('/app/a.ts'),
+      createFileNode('/b.md'),
+    ];
+
+    expect(updateImportPaths(files, [{ from: '/a.md', to: '/b.md' }])).toEqual([]);
+  });
+});
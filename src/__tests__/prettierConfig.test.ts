@@ -0,0 +1,150 @@
+import { basePrettierConfig, resolvePrettierConfig } from '@/utils/prettierConfig';
+import { createDirectoryNode, createFileNode } from '@/utils/vfs';
+import { DirectoryInterface } from '@/types';
+
+// 文件内容都已读取，不会访问 IndexedDB
+const resolve = (nodes: DirectoryInterface[], path: string) =>
+  resolvePrettierConfig('project', nodes, path);
+
+describe('resolvePrettierConfig', () => {
+  it('uses the base config when the project has no config file', async () => {
+    const nodes = [createDirectoryNode('/app', [createFileNode('/app/index.ts')])];
+
+    expect(await resolve(nodes, '/app/index.ts')).toEqual({
+      config: basePrettierConfig,
+      ignored: false,
+      errors: [],
+    });
+  });
+
+  it('applies matching overrides relative to the config file', async () => {
+    const prettierrc = JSON.stringify({
+      semi: false,
+      overrides: [
+        { files: '*.ts', excludeFiles: 'legacy/**', options: { singleQuote: true } },
+        { files: 'src/*.md', options: { printWidth: 60 } },
+      ],
+    });
+    const nodes = [
+      createDirectoryNode('/app', [
+        createFileNode('/app/.prettierrc.json', prettierrc),
+        createDirectoryNode('/app/src', [
+          createFileNode('/app/src/a.ts'),
+          createFileNode('/app/src/b.md'),
+        ]),
+        createDirectoryNode('/app/legacy', [createFileNode('/app/legacy/c.ts')]),
+      ]),
+    ];
+
+    expect((await resolve(nodes, '/app/src/a.ts')).config).toEqual({
+      semi: false,
+      singleQuote: true,
+    });
+    expect((await resolve(nodes, '/app/src/b.md')).config).toEqual({
+      semi: false,
+      printWidth: 60,
+    });
+    expect((await resolve(nodes, '/app/legacy/c.ts')).config).toEqual({ semi: false });
+  });
+
+  it('merges .editorconfig files and stops at root = true', async () => {
+    const nodes = [
+      createDirectoryNode('/app', [
+        createFileNode('/app/.editorconfig', '[*]\nindent_style = tab\nmax_line_length = 120\n'),
+        createDirectoryNode('/app/src', [
+          createFileNode('/app/src/.editorconfig', '[*.ts]\nindent_size = 2\n'),
+          createFileNode('/app/src/a.ts'),
+        ]),
+        createDirectoryNode('/app/lib', [
+          createFileNode('/app/lib/.editorconfig', 'root = true\n\n[*]\nindent_style = space\n'),
+          createFileNode('/app/lib/b.ts'),
+        ]),
+      ]),
+    ];
+
+    expect((await resolve(nodes, '/app/src/a.ts')).config).toMatchObject({
+      useTabs: true,
+      tabWidth: 2,
+      printWidth: 120,
+    });
+    expect((await resolve(nodes, '/app/lib/b.ts')).config).toMatchObject({
+      useTabs: false,
+      printWidth: basePrettierConfig.printWidth,
+    });
+  });
+
+  it('lets the Prettier config override .editorconfig', async () => {
+    const nodes = [
+      createDirectoryNode('/app', [
+        createFileNode('/app/.editorconfig', '[*]\nindent_size = 8\nend_of_line = crlf\n'),
+        createFileNode('/app/.prettierrc', 'tabWidth: 2\n'),
+        createFileNode('/app/a.ts'),
+      ]),
+    ];
+
+    expect((await resolve(nodes, '/app/a.ts')).config).toEqual({
+      tabWidth: 2,
+      endOfLine: 'crlf',
+    });
+  });
+
+  it('reads the prettier field of package.json and skips package.json without it', async () => {
+    const nodes = [
+      createDirectoryNode('/app', [
+        createFileNode('/app/package.json', JSON.stringify({ prettier: { singleQuote: true } })),
+        createDirectoryNode('/app/web', [
+          createFileNode('/app/web/package.json', JSON.stringify({ name: 'web' })),
+          createFileNode('/app/web/a.ts'),
+        ]),
+      ]),
+    ];
+
+    expect((await resolve(nodes, '/app/web/a.ts')).config).toEqual({ singleQuote: true });
+  });
+
+  it('reports shared configs and invalid config files and falls back to the base config', async () => {
+    const shared = [
+      createDirectoryNode('/app', [
+        createFileNode(
+          '/app/package.json',
+          JSON.stringify({ prettier: '@company/prettier-config' }),
+        ),
+        createFileNode('/app/a.ts'),
+      ]),
+    ];
+    const invalid = [
+      createDirectoryNode('/app', [
+        createFileNode('/app/.prettierrc.json', '{ semi: '),
+        createFileNode('/app/a.ts'),
+      ]),
+    ];
+
+    expect(await resolve(shared, '/app/a.ts')).toEqual({
+      config: basePrettierConfig,
+      ignored: false,
+      errors: [
+        { path: '/app/package.json', message: '不支持引用共享配置 @company/prettier-config' },
+      ],
+    });
+    expect((await resolve(invalid, '/app/a.ts')).errors).toEqual([
+      { path: '/app/.prettierrc.json', message: expect.any(String) },
+    ]);
+  });
+
+  it('ignores files matched by .prettierignore in the project root', async () => {
+    const nodes = [
+      createDirectoryNode('/app', [
+        createFileNode('/app/.prettierignore', 'dist\n*.min.js\n'),
+        createDirectoryNode('/app/dist', [createFileNode('/app/dist/index.js')]),
+        createDirectoryNode('/app/src', [
+          createFileNode('/app/src/vendor.min.js'),
+          createFileNode('/app/src/main.js'),
+        ]),
+      ]),
+    ];
+
+    expect((await resolve(nodes, '/app/dist/index.js')).ignored).toBe(true);
+    expect((await resolve(nodes, '/app/src/vendor.min.js')).ignored).toBe(true);
+    expect((await resolve(nodes, '/app/src/main.js')).ignored).toBe(false);
+  });
+});
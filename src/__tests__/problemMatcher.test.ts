@@ -0,0 +1,185 @@
+import {
+  ProblemMatch,
+  ProblemSource,
+  createOutputMatcher,
+  resolveProblemPath,
+  stripAnsi,
+} from '@/utils/problemMatcher';
+
+// 记录每种来源最近一次通知的问题列表
+function createRecorder() {
+  const latest: Partial<Record<ProblemSource, ProblemMatch[]>> = {};
+  const matcher = createOutputMatcher((source, problems) => {
+    latest[source] = problems;
+  });
+
+  return { latest, matcher };
+}
+
+describe('createOutputMatcher', () => {
+  it('parses tsc output in both plain and pretty formats', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write(
+      "src/App.tsx(10,5): error TS2322: Type 'string' is not assignable to type 'number'.\n" +
+        "src/main.ts:3:1 - warning TS6133: 'x' is declared but its value is never read.\n",
+    );
+
+    expect(latest.tsc).toEqual([
+      {
+        source: 'tsc',
+        severity: 'error',
+        file: 'src/App.tsx',
+        line: 10,
+        column: 5,
+        message: "Type 'string' is not assignable to type 'number'.",
+        code: 'TS2322',
+      },
+      {
+        source: 'tsc',
+        severity: 'warning',
+        file: 'src/main.ts',
+        line: 3,
+        column: 1,
+        message: "'x' is declared but its value is never read.",
+        code: 'TS6133',
+      },
+    ]);
+  });
+
+  it('clears tsc problems when a new watch compilation starts', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write('src/App.tsx(1,1): error TS1005: ";" expected.\n');
+    matcher.write('File change detected. Starting incremental compilation...\n');
+
+    expect(latest.tsc).toEqual([]);
+  });
+
+  it('parses inline vite plugin errors', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write(
+      '[plugin:vite:react-babel] /home/project/react/src/App.tsx: Unexpected token (10:5)\n',
+    );
+
+    expect(latest.vite).toEqual([
+      {
+        source: 'vite',
+        severity: 'error',
+        file: '/home/project/react/src/App.tsx',
+        line: 10,
+        column: 5,
+        message: 'Unexpected token',
+        code: 'vite:react-babel',
+      },
+    ]);
+  });
+
+  it('joins esbuild errors with the location on a following line', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write('✘ [ERROR] Expected ";" but found "x"\n\n    src/App.tsx:10:4:\n');
+
+    expect(latest.vite).toEqual([
+      {
+        source: 'vite',
+        severity: 'error',
+        file: 'src/App.tsx',
+        line: 10,
+        column: 5,
+        message: 'Expected ";" but found "x"',
+        code: undefined,
+      },
+    ]);
+  });
+
+  it('parses eslint stylish output grouped by file', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write(
+      '/home/project/react/src/App.tsx\n' +
+        "  4:7  error    'a' is assigned a value but never used  no-unused-vars\n" +
+        '  9:1  warning  Unexpected console statement            no-console\n' +
+        '\n' +
+        '✖ 2 problems (1 error, 1 warning)\n',
+    );
+
+    expect(latest.eslint).toEqual([
+      {
+        source: 'eslint',
+        severity: 'error',
+        file: '/home/project/react/src/App.tsx',
+        line: 4,
+        column: 7,
+        message: "'a' is assigned a value but never used",
+        code: 'no-unused-vars',
+      },
+      {
+        source: 'eslint',
+        severity: 'warning',
+        file: '/home/project/react/src/App.tsx',
+        line: 9,
+        column: 1,
+        message: 'Unexpected console statement',
+        code: 'no-console',
+      },
+    ]);
+  });
+
+  it('parses eslint compact output', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write('/react/src/App.tsx: line 2, col 3, Warning - Missing semicolon. (semi)\n');
+
+    expect(latest.eslint).toEqual([
+      {
+        source: 'eslint',
+        severity: 'warning',
+        file: '/react/src/App.tsx',
+        line: 2,
+        column: 3,
+        message: 'Missing semicolon.',
+        code: 'semi',
+      },
+    ]);
+  });
+
+  it('joins lines split across chunks and strips ANSI colors', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write('\x1b[96msrc/App.tsx\x1b[0m(1,');
+    expect(latest.tsc).toBeUndefined();
+
+    matcher.write('2): \x1b[91merror\x1b[0m TS1005: expected.\r\n');
+    expect(latest.tsc).toHaveLength(1);
+    expect(latest.tsc?.[0]).toMatchObject({ file: 'src/App.tsx', line: 1, column: 2 });
+  });
+
+  it('clears all sources on reset', () => {
+    const { latest, matcher } = createRecorder();
+
+    matcher.write('src/App.tsx(1,1): error TS1005: expected.\n');
+    matcher.reset();
+
+    expect(latest.tsc).toEqual([]);
+  });
+});
+
+describe('stripAnsi', () => {
+  it('removes color codes and hyperlinks', () => {
+    expect(stripAnsi('\x1b[1;31merror\x1b[0m \x1b]8;;file:///a\x07link')).toBe('error link');
+  });
+});
+
+describe('resolveProblemPath', () => {
+  it('resolves relative paths against the working directory', () => {
+    expect(resolveProblemPath('src/App.tsx', '/react')).toBe('/react/src/App.tsx');
+  });
+
+  it('removes the WebContainer workdir prefix and file:// scheme', () => {
+    expect(
+      resolveProblemPath('file:///home/project/react/src/App.tsx', '/react', '/home/project'),
+    ).toBe('/react/src/App.tsx');
+  });
+});
@@ -0,0 +1,200 @@
+// @vitest-environment node
+// jsdom 的 File 没有 arrayBuffer，使用 Node 自带的 File
+
+import jszip from 'jszip';
+
+import {
+  addToZip,
+  createDirectoryNode,
+  createFileNode,
+  createLazyFileNode,
+  fromFileList,
+  fromFileSystemTree,
+  fromZip,
+  removeOversizedFiles,
+  toFileSystemTree,
+  toProjectFileData,
+  wrapInDirectory,
+} from '@/utils/vfs';
+import { MAX_IMPORT_FILE_SIZE } from '@/utils/constants';
+import { DirectoryInterface } from '@/types';
+
+// 只比较结构，忽略每次生成的 id
+function shape(nodes: DirectoryInterface[]): unknown[] {
+  return nodes.map(({ filename, path, kind, value, encoding, size, children }) => ({
+    filename,
+    path,
+    kind,
+    ...(value !== undefined && { value }),
+    ...(encoding && { encoding }),
+    ...(size !== undefined && { size }),
+    ...(children && { children: shape(children) }),
+  }));
+}
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 1, 2]);
+
+function createProject(): DirectoryInterface[] {
+  return [
+    createDirectoryNode('/app', [
+      createFileNode('/app/index.ts', 'export {};\n'),
+      createFileNode('/app/logo.png', 'iVBORw0KGgoAAQI=', 'base64'),
+      createDirectoryNode('/app/empty'),
+    ]),
+  ];
+}
+
+describe('toProjectFileData', () => {
+  it('drops contents, handles and status but keeps the file size', () => {
+    const [root] = createProject();
+    const nodes = [{ ...root, status: 'pending', handler: {} as FileSystemDirectoryHandle }];
+
+    expect(shape(toProjectFileData(nodes))).toEqual([
+      {
+        filename: 'app',
+        path: '/app',
+        kind: 'directory',
+        children: [
+          { filename: 'index.ts', path: '/app/index.ts', kind: 'file', size: 11 },
+          {
+            filename: 'logo.png',
+            path: '/app/logo.png',
+            kind: 'file',
+            encoding: 'base64',
+            size: 12,
+          },
+          { filename: 'empty', path: '/app/empty', kind: 'directory', children: [] },
+        ],
+      },
+    ]);
+    expect(toProjectFileData(nodes)[0]).not.toHaveProperty('handler');
+    expect(toProjectFileData(nodes)[0]).not.toHaveProperty('status');
+  });
+});
+
+describe('FileSystemTree conversion', () => {
+  it('writes text as strings and binary files as bytes', () => {
+    const tree = toFileSystemTree(createProject());
+    const app = tree.app as { directory: Record<string, any> };
+
+    expect(app.directory['index.ts']).toEqual({ file: { contents: 'export {};\n' } });
+    expect(app.directory['logo.png'].file.contents).toBeInstanceOf(Uint8Array);
+    expect(app.directory.empty).toEqual({ directory: {} });
+  });
+
+  it('round-trips through toFileSystemTree and fromFileSystemTree', () => {
+    const project = createProject();
+
+    expect(shape(fromFileSystemTree(toFileSystemTree(project)))).toEqual(shape(project));
+  });
+
+  it('decodes binary contents read from the container as base64', () => {
+    const [logo] = fromFileSystemTree({ 'logo.png': { file: { contents: PNG_BYTES } } }, '/app');
+
+    expect(logo).toMatchObject({ path: '/app/logo.png', encoding: 'base64' });
+  });
+});
+
+describe('zip conversion', () => {
+  it('round-trips a project through addToZip and fromZip', async () => {
+    const project = createProject();
+    const data = await addToZip(new jszip(), project).generateAsync({ type: 'uint8array' });
+
+    expect(shape(await fromZip(data))).toEqual(shape(project));
+  });
+
+  it('creates missing parent directories and skips ignored directories', async () => {
+    const zip = new jszip();
+    zip.file('src/lib/a.ts', 'a');
+    zip.file('node_modules/pkg/index.js', 'x');
+
+    expect(shape(await fromZip(await zip.generateAsync({ type: 'uint8array' })))).toEqual([
+      {
+        filename: 'src',
+        path: '/src',
+        kind: 'directory',
+        children: [
+          {
+            filename: 'lib',
+            path: '/src/lib',
+            kind: 'directory',
+            children: [{ filename: 'a.ts', path: '/src/lib/a.ts', kind: 'file', value: 'a' }],
+          },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('fromFileList', () => {
+  it('builds the tree from webkitRelativePath', async () => {
+    const file = new File(['hello'], 'a.txt');
+    Object.defineProperty(file, 'webkitRelativePath', { value: 'project/docs/a.txt' });
+
+    const [project] = await fromFileList([file]);
+
+    expect(project.path).toBe('/project');
+    expect(shape(project.children ?? [])).toEqual([
+      {
+        filename: 'docs',
+        path: '/project/docs',
+        kind: 'directory',
+        children: [
+          { filename: 'a.txt', path: '/project/docs/a.txt', kind: 'file', value: 'hello' },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('removeOversizedFiles', () => {
+  it('removes files over the import limit and reports their paths', () => {
+    const nodes = [
+      createDirectoryNode('/app', [
+        createFileNode('/app/small.ts', 'x'),
+        createLazyFileNode('/app/huge.bin', MAX_IMPORT_FILE_SIZE + 1),
+      ]),
+    ];
+    const { nodes: kept, skipped } = removeOversizedFiles(nodes);
+
+    expect(skipped).toEqual(['/app/huge.bin']);
+    expect(kept[0].children?.map((item) => item.filename)).toEqual(['small.ts']);
+  });
+});
+
+describe('wrapInDirectory', () => {
+  it('keeps a single top-level directory as is', () => {
+    const project = createProject();
+
+    expect(wrapInDirectory(project, 'other')).toBe(project);
+  });
+
+  it('moves loose files into a directory with the given name', () => {
+    const nodes = [
+      createFileNode('/index.html', '<html></html>'),
+      createDirectoryNode('/src', [createFileNode('/src/main.ts')]),
+    ];
+
+    expect(shape(wrapInDirectory(nodes, 'site'))).toEqual([
+      {
+        filename: 'site',
+        path: '/site',
+        kind: 'directory',
+        children: [
+          {
+            filename: 'index.html',
+            path: '/site/index.html',
+            kind: 'file',
+            value: '<html></html>',
+          },
+          {
+            filename: 'src',
+            path: '/site/src',
+            kind: 'directory',
+            children: [{ filename: 'main.ts', path: '/site/src/main.ts', kind: 'file', value: '' }],
+          },
+        ],
+      },
+    ]);
+  });
+});
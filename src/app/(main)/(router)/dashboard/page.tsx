@@ -10,10 +10,12 @@ import {
   LinkCardData,
   UPLOAD_FILE_DATA,
   isoDateStringFormat,
-  DirectoryInterface,
+  saveFileContents,
+  toProjectFileData,
 } from '@/utils';
 import { useModal } from '@/hooks/useModal';
 import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { DirectoryInterface } from '@/types';
 
 export default function DashboardPage() {
   const { onOpen } = useModal();
@@ -113,7 +115,7 @@ export default function DashboardPage() {
   );
 }
 
-const TemplateCard: React.FC<{ title: string; fileData: string; icon: string }> = ({
+const TemplateCard: React.FC<{ title: string; fileData: DirectoryInterface[]; icon: string }> = ({
   title,
   icon,
   fileData,
@@ -138,17 +140,19 @@ const TemplateCard: React.FC<{ title: string; fileData: string; icon: string }>
       localStorage.setItem(UPLOAD_FILE_DATA, JSON.stringify(preUploadFileData));
 
       const projectInfo = {
-        projectFileData: fileData,
+        projectFileData: toProjectFileData(fileData),
         name: `${title}-${projectId}`,
         desc: `一个快速开始的${title}项目`,
         id: projectId,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
-      localforage.setItem(projectId, JSON.stringify(projectInfo)).then(() => {
-        setFileData(fileData as unknown as DirectoryInterface[]);
-        router.push(`edit/${projectId}/file`);
-      });
+      saveFileContents(projectId, fileData)
+        .then(() => localforage.setItem(projectId, JSON.stringify(projectInfo)))
+        .then(() => {
+          setFileData(fileData);
+          router.push(`edit/${projectId}/file`);
+        });
     } catch (error) {
       console.error('Failed to create project:', error);
     }
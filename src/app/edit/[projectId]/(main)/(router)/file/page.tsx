@@ -1,28 +1,49 @@
 'use client';
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
-import { VscNewFile } from 'react-icons/vsc';
+import { VscCollapseAll, VscNewFile, VscTarget, VscTrash } from 'react-icons/vsc';
 import { VscNewFolder } from 'react-icons/vsc';
 import { FaCloudDownloadAlt } from 'react-icons/fa';
 
 import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { useActiveEditorStore, useActiveModelStore } from '@/store/editorStore';
+import { useTrashStore } from '@/store/trashStore';
 import { TreeViewElement } from '@/components/extension/tree-view-api';
+import { LocalFolderBanner, LocalFolderButton } from '@/components/file/localFolder';
+import { UndoDeleteToast } from '@/components/file/undoDeleteToast';
+import { TrashModal } from '@/components/modals/trash-modal';
 import Zip from '@/utils/zip';
+import { withFileContents } from '@/utils/fileContents';
 
 const FileTree = dynamic(() => import('@/components/file/fileTree'), { ssr: false });
 
 const PortsPage: React.FC = () => {
-  const { fileData, selected, addFileOrFolder } = useUploadFileDataStore();
-  let data: TreeViewElement[] = fileData as unknown as TreeViewElement[];
-
-  if (!Array.isArray(fileData)) data = fileData === null ? [] : [fileData];
+  const { projectId, fileData, selected, addFileOrFolder } = useUploadFileDataStore();
+  const { collapseAll, revealPath } = useExplorerStore();
+  const { activeEditorId } = useActiveEditorStore();
+  const { activeMap } = useActiveModelStore();
+  const { loadTrash } = useTrashStore();
+  const [trashOpen, setTrashOpen] = useState(false);
+  const data: TreeViewElement[] = fileData ?? [];
   useEffect(() => {}, [fileData]);
 
+  useEffect(() => {
+    projectId && loadTrash(projectId);
+  }, [projectId]);
+
+  // 在文件树中定位当前活动编辑器打开的文件
+  const handleRevealActiveFile = () => {
+    const activePath = activeMap[Math.max(activeEditorId, 0)]?.model?.path;
+
+    activePath && revealPath(activePath);
+  };
+
   const handleDownload = async () => {
-    const file: any = fileData;
     const zip = new Zip();
-    zip.addDirectory(file[0]);
+    const [root] = await withFileContents(projectId, fileData ?? []);
+    zip.addDirectory(root ?? null);
 
     const url = await zip.downloadZip();
 
@@ -35,10 +56,26 @@ const PortsPage: React.FC = () => {
   };
 
   return (
-    <div className="w-full h-full flex flex-col bg-[#202327]">
+    <div className="relative w-full h-full flex flex-col bg-[#202327]">
       <div className=" relative w-full flex items-center">
         <span className=" text-[11px] px-4 pt-2">资源管理器</span>
         <div className=" absolute right-[15px] pt-2 flex justify-evenly items-center gap-x-3">
+          <LocalFolderButton />
+          <VscTarget
+            title="在资源管理器中定位当前文件"
+            onClick={handleRevealActiveFile}
+            className=" cursor-pointer z-[50] text-[14px] hover:text-[white]"
+          />
+          <VscTrash
+            title="回收站"
+            onClick={() => setTrashOpen(true)}
+            className=" cursor-pointer z-[50] text-[14px] hover:text-[white]"
+          />
+          <VscCollapseAll
+            title="折叠所有文件夹"
+            onClick={() => collapseAll()}
+            className=" cursor-pointer z-[50] text-[14px] hover:text-[white]"
+          />
           <FaCloudDownloadAlt
             onClick={() => handleDownload()}
             className=" cursor-pointer z-[50] text-[14px] hover:text-[white]"
@@ -57,9 +94,12 @@ const PortsPage: React.FC = () => {
           />
         </div>
       </div>
-      <div className=" px-0 flex flex-col w-full justify-start">
-        <FileTree data={data as unknown as TreeViewElement[]} />
+      <LocalFolderBanner />
+      <div className=" px-0 flex flex-col flex-1 min-h-0 w-full justify-start">
+        <FileTree data={data} />
       </div>
+      <UndoDeleteToast />
+      <TrashModal open={trashOpen} onOpenChange={setTrashOpen} />
     </div>
   );
 };
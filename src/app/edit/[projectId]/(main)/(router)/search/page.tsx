@@ -86,13 +86,18 @@ const SearchPage: FC = () => {
     }
   }
 
-  const { fileData } = useUploadFileDataStore();
-  let data: TreeViewElement[] = fileData as unknown as TreeViewElement[];
+  const { fileData, loadAllFileContents } = useUploadFileDataStore();
+  const data: TreeViewElement[] = fileData ?? [];
 
   useEffect(() => {
     refreshResult();
   }, [fileData]);
 
+  // 文件内容按需读取，搜索前先读取全部文本文件，读取完成后 fileData 变化会重新搜索
+  useEffect(() => {
+    searchInpVal && loadAllFileContents();
+  }, [searchInpVal]);
+
   const resultCount = useMemo(() => {
     let fileCount = 0;
     let matchCount = 0;
@@ -1,11 +1,18 @@
 'use client';
 
-import { FC } from 'react';
+import { FC, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
 import { PiWarningCircleBold } from 'react-icons/pi';
 import { VscPreview } from 'react-icons/vsc';
 import { editor } from 'monaco-editor';
 
 import { useEditorStore } from '@/store/editorStore';
+import { CompileTrigger, TERMINAL_SCROLLBACK_RANGE, useSettingsStore } from '@/store/settingsStore';
+import { useContainerSyncStore } from '@/store/containerSyncStore';
+import { useBootStore } from '@/store/bootStore';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
 import {
   SelectRoot,
   SelectTrigger,
@@ -14,12 +21,12 @@ import {
   SelectItem,
 } from '@/components/ui/select';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/components/ui/tooltip';
-import { MONACO_THEME_MAP } from '@/utils/';
+import { BootConfig, detectBootConfig, EMPTY_BOOT_CONFIG, MONACO_THEME_MAP } from '@/utils/';
 
-const selectOptions = [
-  { text: 'Edit(auto)', id: 0 },
-  { text: 'Save', id: 1 },
-  { text: 'KeyStroke', id: 2 },
+const selectOptions: { text: string; id: number; value: CompileTrigger }[] = [
+  { text: 'Edit(auto)', id: 0, value: 'auto' },
+  { text: 'Save', id: 1, value: 'save' },
+  { text: 'KeyStroke', id: 2, value: 'keystroke' },
 ];
 
 // interface SettingOption {
@@ -56,6 +63,14 @@ const Settings: FC = () => {
         </div>
         <CompileSelector />
       </div>
+      <div>
+        <div className="my-2 font-bold">BOOT</div>
+        <BootConfigEditor />
+      </div>
+      <div>
+        <div className="my-2 font-bold">TERMINAL</div>
+        <TerminalSettings />
+      </div>
       <div>
         <div className="my-2 font-bold">EDITOR SETTINGS</div>
         <EditorSettings />
@@ -64,20 +79,111 @@ const Settings: FC = () => {
   );
 };
 
-const CompileSelector: FC = () => (
-  <SelectRoot defaultValue="Edit(auto)">
-    <SelectTrigger className="w-[180px]">
-      <SelectValue placeholder="Theme" />
-    </SelectTrigger>
-    <SelectContent>
-      {selectOptions.map((option) => (
-        <SelectItem value={option.text} key={option.id}>
-          {option.text}
-        </SelectItem>
+const CompileSelector: FC = () => {
+  const { compileTrigger, setCompileTrigger } = useSettingsStore();
+  const { syncAll } = useContainerSyncStore();
+
+  return (
+    <SelectRoot
+      value={compileTrigger}
+      onValueChange={(value) => {
+        setCompileTrigger(value as CompileTrigger);
+
+        // 切换到自动模式时把积压的修改立即写入
+        if (value === 'auto') syncAll();
+      }}
+    >
+      <SelectTrigger className="w-[180px]">
+        <SelectValue placeholder="Compile trigger" />
+      </SelectTrigger>
+      <SelectContent>
+        {selectOptions.map((option) => (
+          <SelectItem value={option.value} key={option.id}>
+            {option.text}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </SelectRoot>
+  );
+};
+const bootConfigFields: { key: keyof BootConfig; label: string; placeholder: string }[] = [
+  { key: 'cwd', label: 'Working directory', placeholder: '/react' },
+  { key: 'installCommand', label: 'Install command', placeholder: 'pnpm install' },
+  { key: 'startCommand', label: 'Start command', placeholder: 'pnpm run dev' },
+];
+
+const BootConfigEditor: FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { bootConfig, saveBootConfig } = useBootStore();
+  const { fileData } = useUploadFileDataStore();
+  const [draft, setDraft] = useState<BootConfig>(bootConfig ?? EMPTY_BOOT_CONFIG);
+
+  const detect = () => detectBootConfig(projectId, fileData).then(setDraft);
+
+  useEffect(() => {
+    bootConfig ? setDraft(bootConfig) : detect();
+  }, [bootConfig]);
+
+  return (
+    <div className="flex flex-col gap-y-2 text-sm">
+      {bootConfigFields.map(({ key, label, placeholder }) => (
+        <label key={key} className="flex flex-col gap-y-1 text-gray-400">
+          <span>{label}</span>
+          <Input
+            value={draft[key]}
+            placeholder={placeholder}
+            onChange={(e) => setDraft((pre) => ({ ...pre, [key]: e.target.value }))}
+            className="h-8 w-[180px] bg-[#343740] text-white border border-white/20 px-2"
+          />
+        </label>
       ))}
-    </SelectContent>
-  </SelectRoot>
-);
+      <div className="flex gap-x-2 mt-1">
+        <Button
+          className="h-7 px-3 bg-transparent border border-white/20 text-white hover:bg-gray-600/30"
+          onClick={detect}
+        >
+          Detect
+        </Button>
+        <Button
+          className="h-7 px-3 bg-[#387BFF] text-white hover:bg-blue-700"
+          onClick={() => saveBootConfig(projectId, draft)}
+        >
+          Save
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">Takes effect the next time the project boots.</p>
+    </div>
+  );
+};
+
+const TerminalSettings: FC = () => {
+  const { terminalScrollback, setTerminalScrollback } = useSettingsStore();
+  const [draft, setDraft] = useState(String(terminalScrollback));
+
+  useEffect(() => {
+    setDraft(String(terminalScrollback));
+  }, [terminalScrollback]);
+
+  return (
+    <label className="flex flex-col gap-y-1 text-sm text-gray-400">
+      <span>Scrollback lines</span>
+      <Input
+        type="number"
+        value={draft}
+        min={TERMINAL_SCROLLBACK_RANGE.min}
+        max={TERMINAL_SCROLLBACK_RANGE.max}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          // 非法输入时恢复为当前值
+          setTerminalScrollback(Number(draft));
+          setDraft(String(useSettingsStore.getState().terminalScrollback));
+        }}
+        className="h-8 w-[180px] bg-[#343740] text-white border border-white/20 px-2"
+      />
+    </label>
+  );
+};
+
 const ThemeSelector: FC = () => {
   const { getEditor } = useEditorStore();
   const editor = getEditor(0);
@@ -103,6 +209,21 @@ const ThemeSelector: FC = () => {
     </SelectRoot>
   );
 };
+const FormatOnSaveToggle: FC = () => {
+  const { formatOnSave, setFormatOnSave } = useSettingsStore();
+
+  return (
+    <label className="flex items-center gap-x-2 mt-3 text-sm text-gray-400 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={formatOnSave}
+        onChange={(e) => setFormatOnSave(e.target.checked)}
+        className="accent-[#387BFF]"
+      />
+      <span>Format on save</span>
+    </label>
+  );
+};
 const EditorSettings: FC = () => (
   <div>
     <div>
@@ -114,6 +235,7 @@ const EditorSettings: FC = () => (
       </div>
     </div>
     <ThemeSelector />
+    <FormatOnSaveToggle />
   </div>
 );
 
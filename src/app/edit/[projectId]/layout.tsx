@@ -3,7 +3,7 @@
 import React, { useRef, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { PanelGroup, Panel } from 'react-resizable-panels';
+import { PanelGroup, Panel, ImperativePanelHandle } from 'react-resizable-panels';
 import { DndContext } from '@dnd-kit/core';
 import { FaFileAlt, FaSearch, FaPlug, FaCog, FaQuestionCircle } from 'react-icons/fa';
 import { PiOpenAiLogo } from 'react-icons/pi';
@@ -16,6 +16,7 @@ import { Header } from '@/components/edit/header';
 import CodeEditor from '@/components/editor';
 import { DragIcon } from '@/components/file/dragIcon';
 import { TerminalPanel } from '@/components/terminal';
+import { FileConflictModal } from '@/components/modals/file-conflict-modal';
 import {
   useActiveModelStore,
   useModelsStore,
@@ -23,8 +24,17 @@ import {
   useEditorStore,
 } from '@/store/editorStore';
 import { useDragIconStore } from '@/store/dragIconStore';
-import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
-import { addNewModel } from '@/utils';
+import { findItemById, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { useAutosaveStore } from '@/store/autosaveStore';
+import { usePreviewStore } from '@/store/previewStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import useProblemMarkers from '@/hooks/useProblemMarkers';
+import useTypeScriptProject from '@/hooks/useTypeScriptProject';
+import useEslintDiagnostics from '@/hooks/useEslintDiagnostics';
+import usePreviewWindow from '@/hooks/usePreviewWindow';
+import useLocalFolderSync from '@/hooks/useLocalFolderSync';
+import { addNewModel, isBinaryFile, isLargeFile } from '@/utils';
 
 const MockUserInfo = {
   name: 'xiaoming',
@@ -51,6 +61,7 @@ const renderSplitCodeEditor = (splitState: boolean[]): JSX.Element[] => {
 
 const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children, params }) => {
   const terminalRef = useRef<any>(null);
+  const previewPanelRef = useRef<ImperativePanelHandle>(null);
   const pathname = usePathname();
   const { splitState, removeSplit, addSplit } = useSplitStore();
 
@@ -65,6 +76,31 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
 
   const { initFileData, clearFileData } = useUploadFileDataStore();
 
+  const { initAutosave, flush } = useAutosaveStore();
+
+  const { collapsed, detached, setCollapsed } = usePreviewStore();
+
+  const { previewPlacement, hydrateSettings } = useSettingsStore();
+
+  useProblemMarkers();
+  useTypeScriptProject();
+  useEslintDiagnostics();
+  usePreviewWindow();
+  useLocalFolderSync(params.projectId);
+
+  useEffect(() => {
+    hydrateSettings();
+  }, [hydrateSettings]);
+
+  // 预览面板内的折叠/展开按钮通过 store 控制面板尺寸
+  useEffect(() => {
+    const panel = previewPanelRef.current;
+
+    if (!panel || panel.isCollapsed() === collapsed) return;
+
+    collapsed ? panel.collapse() : panel.expand();
+  }, [collapsed, previewPlacement, detached]);
+
   useEffect(() => {
     const handleClearFileData = (event: BeforeUnloadEvent) => {
       event?.preventDefault();
@@ -72,6 +108,7 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
     };
 
     addSplit();
+    initAutosave(params.projectId);
     initFileData(params.projectId);
     window.addEventListener('beforeunload', handleClearFileData);
 
@@ -85,7 +122,7 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
       removeSplit(0);
       removeSplit(1);
       removeSplit(2);
-      clearFileData(true, params.projectId);
+      flush();
 
       const editorArr = getEditor(null);
 
@@ -111,7 +148,44 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
     terminalRef.current?.terminalResize();
   };
 
-  function handleFileDrop({ active, over }: any) {
+  // 预览面板可固定在编辑区域左侧或右侧，分离到独立窗口后不再渲染
+  const renderPreviewPanel = (placement: 'left' | 'right') => {
+    if (detached || previewPlacement !== placement) return null;
+
+    const previewPanel = (
+      <Panel
+        id="preview"
+        order={placement === 'left' ? 2 : 4}
+        ref={previewPanelRef}
+        className="bg-[#202327]"
+        minSize={10}
+        defaultSize={35}
+        collapsible={true}
+        collapsedSize={2}
+        onCollapse={() => setCollapsed(true)}
+        onExpand={() => setCollapsed(false)}
+      >
+        <div className=" h-full z-[999]">
+          <Preview />
+        </div>
+      </Panel>
+    );
+    const resizeHandle = <ResizeHandle className=" w-[3px] bg-transparent" />;
+
+    return placement === 'left' ? (
+      <>
+        {previewPanel}
+        {resizeHandle}
+      </>
+    ) : (
+      <>
+        {resizeHandle}
+        {previewPanel}
+      </>
+    );
+  };
+
+  async function handleFileDrop({ active, over }: any) {
     dragIconRef.style.display = 'none';
     dragIconRef.style.left = '0px';
     dragIconRef.style.top = '0px';
@@ -119,6 +193,23 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
     if (!active || !over) return;
 
     const { file, monacos } = active.data.current;
+
+    // 拖到资源管理器的目录上时移动文件，拖拽的是选中的节点时一起移动所有选中的节点
+    if (over.data.current?.explorerPath) {
+      const { fileData } = useUploadFileDataStore.getState();
+      const { selectedIds, moveEntries } = useExplorerStore.getState();
+      const paths = selectedIds.includes(file.id)
+        ? selectedIds.map((id) => findItemById(fileData ?? [], id)?.path ?? '')
+        : [file.path];
+
+      moveEntries(paths.filter(Boolean), over.data.current.explorerPath);
+
+      return;
+    }
+
+    // 目录不能在编辑器中打开
+    if (file.kind !== 'file') return;
+
     const editor = over.data.current.editorInstance;
 
     const willChangeEditor = editor;
@@ -138,8 +229,14 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
       willChangeEditor?.setModel(mathModel[0].model);
     } else {
       const monaco = monacos[willChangeEditorId];
+      // 文件内容按需读取，二进制文件和大文件不把内容放进 model
+      const loaded =
+        file.value === undefined
+          ? (await useUploadFileDataStore.getState().loadFileContent(file.id)) ?? file
+          : file;
+
       addNewModel(
-        file,
+        { ...loaded, value: isBinaryFile(loaded) || isLargeFile(loaded) ? '' : loaded.value ?? '' },
         monaco as any,
         willChangeEditor as editor.IStandaloneCodeEditor,
         setModels,
@@ -197,7 +294,7 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
         {/* 可调整大小的面板 */}
         <DndContext onDragEnd={(e) => handleFileDrop(e)}>
           <PanelGroup direction="horizontal" className="flex-1">
-            <Panel minSize={1} defaultSize={15} className="bg-[#202327]">
+            <Panel id="sidebar" order={1} minSize={1} defaultSize={15} className="bg-[#202327]">
               <motion.div
                 key={pathname}
                 className=" overflow-y-scroll h-full hide-scrollbar"
@@ -209,7 +306,14 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
               </motion.div>
             </Panel>
             <ResizeHandle className=" w-[3px] bg-transparent" />
-            <Panel className="flex-1 bg-gray-700" minSize={1} defaultSize={50}>
+            {renderPreviewPanel('left')}
+            <Panel
+              id="editor"
+              order={3}
+              className="flex-1 bg-gray-700"
+              minSize={1}
+              defaultSize={detached ? 85 : 50}
+            >
               <PanelGroup direction="vertical" className="h-full" onLayout={editPanelGroupResize}>
                 <Panel defaultSize={70} className=" bg-[#15181e]" collapsible={true}>
                   <PanelGroup direction="horizontal" className=" flex relative h-full">
@@ -224,16 +328,12 @@ const Page: React.FC<{ children: React.ReactNode; params: any }> = ({ children,
                 </Panel>
               </PanelGroup>
             </Panel>
-            <ResizeHandle className=" w-[3px] bg-transparent" />
-            <Panel className="bg-[#202327]" minSize={1} defaultSize={35}>
-              <div className=" h-full z-[999]">
-                <Preview />
-              </div>
-            </Panel>
+            {renderPreviewPanel('right')}
           </PanelGroup>
         </DndContext>
       </div>
       <DragIcon />
+      <FileConflictModal />
     </div>
   );
 };
@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+
+import { DirectoryInterface } from '@/types';
+import { base64ToBytes, formatFileSize, getImageMimeType } from '@/utils';
+
+// 十六进制视图每行的字节数和最多显示的字节数
+const BYTES_PER_ROW = 16;
+const MAX_HEX_BYTES = 64 * 1024;
+
+function toHexRows(bytes: Uint8Array): { offset: string; hex: string; ascii: string }[] {
+  const rows = [];
+
+  for (let i = 0; i < Math.min(bytes.length, MAX_HEX_BYTES); i += BYTES_PER_ROW) {
+    const row = Array.from(bytes.subarray(i, i + BYTES_PER_ROW));
+
+    rows.push({
+      offset: i.toString(16).padStart(8, '0'),
+      hex: row.map((byte) => byte.toString(16).padStart(2, '0')).join(' '),
+      ascii: row
+        .map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'))
+        .join(''),
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * 二进制文件的只读预览，图片直接显示，其他文件显示十六进制内容
+ */
+export const BinaryViewer: React.FC<{ file: DirectoryInterface }> = ({ file }) => {
+  const mimeType = getImageMimeType(file.path);
+  const bytes = useMemo(() => base64ToBytes(file.value ?? ''), [file.value]);
+  const rows = useMemo(() => (mimeType ? [] : toHexRows(bytes)), [bytes, mimeType]);
+
+  return (
+    <div className="flex flex-col w-full h-full bg-[#1e1e1e] text-[#cacfd7]">
+      <div className="px-4 py-1 text-[12px] text-white/50 border-b border-white/10">
+        {file.filename} · {formatFileSize(bytes.length)} · 二进制文件，不能在编辑器中修改
+      </div>
+      {mimeType ? (
+        <div className="flex flex-1 items-center justify-center overflow-auto p-4 bg-[#252526]">
+          <img
+            className="max-w-full max-h-full"
+            src={`data:${mimeType};base64,${file.value ?? ''}`}
+            alt={file.filename}
+          />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-auto p-4 font-mono text-[12px] leading-[20px] whitespace-pre">
+          {rows.map((row) => (
+            <div key={row.offset}>
+              <span className="text-white/40">{row.offset}</span>
+              {'  '}
+              <span>{row.hex.padEnd(BYTES_PER_ROW * 3 - 1, ' ')}</span>
+              {'  '}
+              <span className="text-[#ce9178]">{row.ascii}</span>
+            </div>
+          ))}
+          {bytes.length > MAX_HEX_BYTES && (
+            <div className="mt-2 text-white/40">
+              仅显示前 {formatFileSize(MAX_HEX_BYTES)}，共 {formatFileSize(bytes.length)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
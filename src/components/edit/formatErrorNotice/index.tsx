@@ -0,0 +1,46 @@
+import React from 'react';
+
+import useOpenFile from '@/hooks/useOpenFile';
+import { useFormatStore } from '@/store/formatStore';
+import { findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+
+/**
+ * 格式化出错时显示在编辑器右上角的提示，配置文件有错误时可以直接打开该文件
+ */
+export const FormatErrorNotice: React.FC = () => {
+  const { error, dismissFormatError } = useFormatStore();
+  const openFile = useOpenFile();
+
+  if (!error) return null;
+
+  const configFile = error.path
+    ? findItemByPath(useUploadFileDataStore.getState().fileData ?? [], error.path)
+    : undefined;
+
+  return (
+    <div className="absolute top-[4vh] right-4 z-20 flex flex-col gap-y-1 max-w-[420px] px-3 py-2 rounded-md bg-[#343a46] text-[12px] text-[#cacfd7] shadow-lg">
+      <div className="text-[#f14c4c]">
+        {error.path ? `Prettier 配置错误：${error.path}` : '格式化失败'}
+      </div>
+      <div className="max-h-[120px] overflow-auto whitespace-pre-wrap break-all font-mono text-white/70">
+        {error.message}
+      </div>
+      <div className="flex justify-end gap-x-3">
+        {configFile && (
+          <button
+            className="text-[#3f86f5] hover:text-white"
+            onClick={() => {
+              openFile(configFile);
+              dismissFormatError();
+            }}
+          >
+            打开配置文件
+          </button>
+        )}
+        <button className="text-white/50 hover:text-white" onClick={dismissFormatError}>
+          关闭
+        </button>
+      </div>
+    </div>
+  );
+};
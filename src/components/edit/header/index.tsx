@@ -1,14 +1,24 @@
 import Link from 'next/link';
 import React, { useEffect, useState } from 'react';
-import { VscLiveShare } from 'react-icons/vsc';
+import { VscHistory, VscLiveShare } from 'react-icons/vsc';
 import { FaGithub, FaRegSave } from 'react-icons/fa';
 import { GoRepoForked } from 'react-icons/go';
+import { AiOutlineLoading3Quarters } from 'react-icons/ai';
 import localforage from 'localforage';
 
 import { Avatar } from '@/components/common/Avatar';
 import { Button } from '@/components/ui/button';
 import AvatarPopover from '@/components/avatarPopover';
 import WebContainerProvider from '@/components/webContainerProvider';
+import { SnapshotModal } from '@/components/modals/snapshot-modal';
+import { SaveStatus, useAutosaveStore } from '@/store/autosaveStore';
+import { cn } from '@/utils';
+
+const saveStatusText: Record<SaveStatus, string> = {
+  saved: 'Saved',
+  saving: 'Saving...',
+  unsaved: 'Save',
+};
 
 interface UserInfo {
   [key: string]: any;
@@ -20,6 +30,8 @@ interface HeaderProps {
 
 export const Header: React.FC<HeaderProps> = ({ projectId }) => {
   const [projectName, setProjectName] = useState('');
+  const { status, flush } = useAutosaveStore();
+  const [snapshotOpen, setSnapshotOpen] = useState(false);
   useEffect(() => {
     const fetchProjectData = async () => {
       const projectData = await localforage.getItem(projectId);
@@ -47,9 +59,22 @@ export const Header: React.FC<HeaderProps> = ({ projectId }) => {
         </svg>
       </Link>
       <div className=" flex items-center gap-x-2 mr-auto ml-2">
-        <Button className=" flex gap-x-2 font-[300] bg-transparent text-white" disabled>
-          <FaRegSave />
-          Save
+        <Button
+          className={cn(
+            ' flex gap-x-2 h-[4vh] font-[300] bg-transparent text-white',
+            status === 'unsaved' &&
+              'hover:bg-gray-600/30 hover:border-[white]/20 hover:border-[1px]',
+          )}
+          disabled={status !== 'unsaved'}
+          onClick={() => flush()}
+        >
+          {status === 'saving' ? (
+            <AiOutlineLoading3Quarters className="animate-spin" />
+          ) : (
+            <FaRegSave />
+          )}
+          {saveStatusText[status]}
+          {status === 'unsaved' && <span className="w-2 h-2 rounded-full bg-white/80" />}
         </Button>
         <Button className=" flex gap-2 w-24 h-[4vh] font-[300] bg-transparent text-white hover:bg-gray-600/30 hover:border-[white]/20 hover:border-[1px]">
           <VscLiveShare />
@@ -59,6 +84,13 @@ export const Header: React.FC<HeaderProps> = ({ projectId }) => {
           <GoRepoForked />
           fork
         </Button>
+        <Button
+          className=" flex gap-x-2 h-[4vh] font-[300] bg-transparent text-white hover:bg-gray-600/30 hover:border-[white]/20 hover:border-[1px]"
+          onClick={() => setSnapshotOpen(true)}
+        >
+          <VscHistory />
+          snapshots
+        </Button>
       </div>
       <div className=" flex items-center justify-center w-full absolute leading-[5vh] font-[500] text-[16px] pointer-events-none">
         {projectName}
@@ -74,6 +106,7 @@ export const Header: React.FC<HeaderProps> = ({ projectId }) => {
         </AvatarPopover>
       </div>
       <WebContainerProvider projectId={projectId}></WebContainerProvider>
+      <SnapshotModal projectId={projectId} open={snapshotOpen} onOpenChange={setSnapshotOpen} />
     </header>
   );
 };
@@ -0,0 +1,21 @@
+import React from 'react';
+
+import { DirectoryInterface } from '@/types';
+import { formatFileSize, getFileSize, MAX_EDITOR_FILE_SIZE } from '@/utils';
+
+/**
+ * 超过大小限制的文本文件不在编辑器中打开，避免整个编辑器卡顿
+ */
+export const LargeFileNotice: React.FC<{ file: DirectoryInterface }> = ({ file }) => {
+  return (
+    <div className="flex flex-col items-center justify-center gap-y-2 w-full h-full bg-[#1e1e1e] text-[13px] text-[#cacfd7]">
+      <div>
+        {file.filename} · {formatFileSize(getFileSize(file))}
+      </div>
+      <div className="text-white/50">
+        文件超过 {formatFileSize(MAX_EDITOR_FILE_SIZE)}
+        ，为保证编辑器响应不在编辑器中打开，也不参与搜索
+      </div>
+    </div>
+  );
+};
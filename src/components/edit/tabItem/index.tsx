@@ -8,6 +8,8 @@ interface TabProps {
   id: string;
   filename: string;
   active: boolean;
+  // 是否有尚未同步到 WebContainer 的修改
+  dirty?: boolean;
   editorId: number;
   setActiveModel: (id: string, model: any, editorId: number) => void;
   editor: any;
@@ -23,6 +25,7 @@ const Tab: React.FC<TabProps> = ({
   id,
   filename,
   active,
+  dirty = false,
   editorId,
   setActiveModel,
   editor,
@@ -100,6 +103,9 @@ const Tab: React.FC<TabProps> = ({
       />
       <div ref={tabRef} className=" absolute left-0 top-0 w-full h-0 pointer-events-none"></div>
       <p>{filename}</p>
+      {dirty && (
+        <span className="group-hover:hidden absolute right-3 w-2 h-2 rounded-full bg-white/70" />
+      )}
       <span onMouseUp={handleTabClose} className="hidden group-hover:block absolute right-3">
         x
       </span>
@@ -21,6 +21,7 @@ import {
   useSplitStore,
   useActiveEditorStore,
 } from '@/store/editorStore';
+import { useContainerSyncStore } from '@/store/containerSyncStore';
 
 interface TabBarProps {
   editorId: number;
@@ -34,6 +35,7 @@ export const TabBar: React.FC<TabBarProps> = ({ editorId }) => {
   const { getEditor, removeEditor } = useEditorStore();
   const { splitState, addSplit, removeSplit } = useSplitStore();
   const { activeEditorId, setActiveEditor } = useActiveEditorStore();
+  const { dirtyIds } = useContainerSyncStore();
 
   const editor = getEditor(editorId);
 
@@ -72,6 +74,7 @@ export const TabBar: React.FC<TabBarProps> = ({ editorId }) => {
             key={model.id}
             filename={model.filename}
             active={model.id === activeModelId}
+            dirty={dirtyIds.includes(model.id)}
             editorId={editorId}
             setActiveModel={setActiveModel}
             editor={editor}
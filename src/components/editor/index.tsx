@@ -5,11 +5,6 @@ import Editor, { Monaco, loader } from '@monaco-editor/react';
 import * as monaco from 'monaco-editor';
 import { editor } from 'monaco-editor';
 import { useDroppable } from '@dnd-kit/core';
-import { createHighlighter } from 'shiki';
-import { shikiToMonaco } from '@shikijs/monaco';
-import parserBabel from 'prettier/plugins/babel';
-import parserEstree from 'prettier/plugins/estree';
-// import parserTypescript from 'prettier/plugins/typescript';
 
 import {
   useEditorStore,
@@ -20,19 +15,53 @@ import {
 } from '@/store/editorStore';
 import { TabBar } from '@/components/edit/tabbar';
 import LoadingComponent from '@/components/edit/edit-loading';
-import { useWebContainerStore } from '@/store/webContainerStore';
-import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
-import { cn, writeFile, MONACO_THEME_ARRAY } from '@/utils';
-import { getPrettierConfig } from '@/utils/file';
+import { BinaryViewer } from '@/components/edit/binaryViewer';
+import { LargeFileNotice } from '@/components/edit/largeFileNotice';
+import { FormatErrorNotice } from '@/components/edit/formatErrorNotice';
+import { findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useAutosaveStore } from '@/store/autosaveStore';
+import { useContainerSyncStore } from '@/store/containerSyncStore';
+import { cn, isBinaryFile, isLargeFile, MONACO_THEME_ARRAY, setupHighlighter } from '@/utils';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useFormatStore } from '@/store/formatStore';
+import { formatEditor } from '@/utils/prettier';
+import { resolvePrettierConfig } from '@/utils/prettierConfig';
 
 interface CodeEditorProps {
   editorId: number;
 }
 export type EditorWithThemeService = monaco.editor.IStandaloneCodeEditor & { _themeService: any };
 
+// 按编辑器中当前文件的类型和所在目录的配置格式化，注册到编辑器的命令在执行时才读取当前文件
+async function formatDocument(item: editor.IStandaloneCodeEditor, selectionOnly: boolean = false) {
+  const { activeMap } = useActiveModelStore.getState();
+  const { projectId, fileData } = useUploadFileDataStore.getState();
+  const { showFormatError, dismissFormatError } = useFormatStore.getState();
+  const active = activeMap.find((entry) => entry?.model?.model === item.getModel());
+  const path = active?.model?.path;
+
+  if (!path) return;
+
+  try {
+    const { config, ignored, errors } = await resolvePrettierConfig(
+      projectId,
+      fileData ?? [],
+      path,
+    );
+
+    if (ignored) return;
+
+    await formatEditor(item, path, config, selectionOnly);
+    errors.length > 0 ? showFormatError(errors[0]) : dismissFormatError();
+  } catch (error) {
+    showFormatError({ message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
 export default function CodeEditor({ editorId }: CodeEditorProps) {
-  const { webContainerInstance } = useWebContainerStore();
   const { updateItem, fileData } = useUploadFileDataStore();
+  const { recordChange, flush } = useAutosaveStore();
+  const { queueWrite, syncFile } = useContainerSyncStore();
   const { getEditor, setEditor } = useEditorStore();
   const { setMonaco } = useMonacoStore();
   const { setModels, models } = useModelsStore();
@@ -49,6 +78,8 @@ export default function CodeEditor({ editorId }: CodeEditorProps) {
 
   const currentPath = (activeMap[editorId]?.model as any)?.path;
   const currentId = activeMap[editorId]?.model?.id;
+  // 二进制文件不使用 Monaco 编辑，显示只读预览
+  const currentFile = currentPath ? findItemByPath(fileData ?? [], currentPath) : undefined;
 
   const { isOver, setNodeRef } = useDroppable({
     id: editorId,
@@ -62,90 +93,23 @@ export default function CodeEditor({ editorId }: CodeEditorProps) {
   };
 
   _editor &&
-    _editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
-      const prettierValue = getPrettierConfig(fileData);
-      formatWithPrettier(_editor, prettierValue);
+    _editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, async () => {
+      try {
+        useSettingsStore.getState().formatOnSave && (await formatDocument(_editor));
+      } finally {
+        // 格式化失败也要保存，Save 模式下只有在这里才会把修改写入 WebContainer
+        currentId && syncFile(currentId);
+        flush();
+      }
     });
 
-  // 格式化代码
-  const formatWithPrettier = async (
-    item: editor.IStandaloneCodeEditor,
-    prettierConfig: Record<string, any>,
-  ) => {
-    if (!item) return;
-
-    try {
-      const model = item.getModel();
-      if (!model) return;
-
-      const unformattedCode = model.getValue();
-      const prettier = await import('prettier/standalone');
-
-      // 使用找到的 Prettier 配置
-      const formattedCode = await prettier.format(unformattedCode, {
-        parser: 'babel',
-        plugins: [parserBabel, parserEstree],
-        ...prettierConfig,
-      });
-
-      // 应用格式化后的代码
-      model.pushEditOperations(
-        [],
-        [
-          {
-            range: model.getFullModelRange(),
-            text: formattedCode,
-          },
-        ],
-        () => null,
-      );
-    } catch (error) {
-      console.error('格式化代码时出错:', error);
-    }
-  };
-
   const handleEditorDidMount = useCallback(
     async (editor: monaco.editor.IStandaloneCodeEditor, monaco: Monaco) => {
-      monaco.languages.typescript.typescriptDefaults.setCompilerOptions({
-        module: monaco.languages.typescript.ModuleKind.ESNext,
-        moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
-        isolatedModules: true,
-        allowJs: true,
-        strict: true,
-        skipLibCheck: true,
-        jsx: monaco.languages.typescript.JsxEmit.Preserve,
-        target: monaco.languages.typescript.ScriptTarget.ES2020,
-        esModuleInterop: true,
-      });
-
+      // 编译选项由 useTypeScriptProject 按项目的 tsconfig.json 设置
       setEditor(editorId, editor);
       setMonaco(editorId, monaco);
 
-      const highlighter = await createHighlighter({
-        themes: MONACO_THEME_ARRAY,
-        langs: ['javascript', 'typescript', 'vue', 'jsx'],
-      });
-
-      // Register the languageIds first. Only registered languages will be highlighted.
-      monaco.languages.register({ id: 'vue' });
-      monaco.languages.register({ id: 'typescript' });
-      monaco.languages.register({ id: 'javascript' });
-      monaco.languages.register({ id: 'jsx' });
-
-      // Register the themes from Shiki, and provide syntax highlighting for Monaco.
-      shikiToMonaco(highlighter, monaco);
-
-      const localTheme = localStorage.getItem('localTheme');
-
-      if (localTheme && MONACO_THEME_ARRAY.includes(localTheme)) {
-        editor?.updateOptions({ theme: localTheme });
-      }
-
-      localStorage.setItem(
-        'localTheme',
-        (editor as EditorWithThemeService)._themeService._theme.themeName,
-      );
-
+      // 设置初始 model 要在加载高亮之前同步完成，避免覆盖挂载后在该编辑器中打开的文件
       if (editorId !== 0) {
         const newModel = activeEditorId < 1 ? activeMap[0] : activeMap[1];
         newModel.model && setActiveModel(newModel.modelId, newModel.model, editorId);
@@ -164,10 +128,44 @@ export default function CodeEditor({ editorId }: CodeEditorProps) {
         editor.setModel(defaultModel);
       }
 
+      // 注册各文件类型的语言并加载已打开文件的语法高亮
+      await setupHighlighter(monaco);
+
+      const localTheme = localStorage.getItem('localTheme');
+
+      if (localTheme && MONACO_THEME_ARRAY.includes(localTheme)) {
+        editor?.updateOptions({ theme: localTheme });
+      }
+
+      localStorage.setItem(
+        'localTheme',
+        (editor as EditorWithThemeService)._themeService._theme.themeName,
+      );
+
       monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({
         noSemanticValidation: false,
         noSyntaxValidation: false,
       });
+      editor.addAction({
+        id: 'prettier.formatDocument',
+        label: 'Format Document',
+        keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.KeyF],
+        contextMenuGroupId: '1_modification',
+        run: (item) => formatDocument(item as editor.IStandaloneCodeEditor),
+      });
+      editor.addAction({
+        id: 'prettier.formatSelection',
+        label: 'Format Selection',
+        keybindings: [
+          monaco.KeyMod.chord(
+            monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyK,
+            monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyF,
+          ),
+        ],
+        precondition: 'editorHasSelection',
+        contextMenuGroupId: '1_modification',
+        run: (item) => formatDocument(item as editor.IStandaloneCodeEditor, true),
+      });
       editor.onDidFocusEditorText(() => {
         setActiveEditor(editor, editorId);
       });
@@ -182,16 +180,18 @@ export default function CodeEditor({ editorId }: CodeEditorProps) {
   const handleEditorChange = (value: string = ''): void => {
     // 1. 更新本地状态（用于 Monaco Editor 显示）
     currentId && updateItem(currentId, { value });
-    // 2. 写入 WebContainer 虚拟文件系统
-    // ⭐ 关键：这一步触发了 HMR 机制
-    webContainerInstance && writeFile(currentPath, value, webContainerInstance);
+    // 记录到自动保存日志，防止页面崩溃丢失修改
+    currentId && recordChange(currentId, currentPath, value);
+    // 2. 按 Compile trigger 设置写入 WebContainer 虚拟文件系统
+    // ⭐ 关键：写入这一步触发了 HMR 机制
+    currentId && queueWrite(currentId, currentPath, value);
   };
 
   return (
     <div
       ref={setNodeRef}
       className={cn(
-        ' w-full h-full flex-col border-[1px] hidden',
+        ' relative w-full h-full flex-col border-[1px] hidden',
         (thisEditor === null || currentModel?.model) && ' flex',
       )}
       style={style}
@@ -213,6 +213,17 @@ export default function CodeEditor({ editorId }: CodeEditorProps) {
         onChange={handleEditorChange}
         onMount={handleEditorDidMount}
       />
+      {currentFile && isBinaryFile(currentFile) && (
+        <div className="absolute inset-x-0 bottom-0 top-[3.5vh] z-10">
+          <BinaryViewer file={currentFile} />
+        </div>
+      )}
+      {currentFile && isLargeFile(currentFile) && (
+        <div className="absolute inset-x-0 bottom-0 top-[3.5vh] z-10">
+          <LargeFileNotice file={currentFile} />
+        </div>
+      )}
+      {activeEditorId === editorId && <FormatErrorNotice />}
     </div>
   );
 }
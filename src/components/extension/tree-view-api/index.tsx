@@ -16,19 +16,15 @@ import { CiEdit } from 'react-icons/ci';
 
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { cn, rm } from '@/utils';
+import { cn } from '@/utils';
 import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
-import { useWebContainerStore } from '@/store/webContainerStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { DirectoryInterface } from '@/types';
 
-type TreeViewElement = {
-  id: string;
-  filename: string;
+type TreeViewElement = DirectoryInterface & {
   isSelectable?: boolean;
   language?: string;
-  value?: string;
   children?: TreeViewElement[];
-  kind: string;
-  status: string;
 };
 
 type TreeContextProps = {
@@ -231,8 +227,8 @@ const Folder = forwardRef<HTMLDivElement, FolderProps & React.HTMLAttributes<HTM
       openIcon,
       closeIcon,
     } = useTree();
-    const { webContainerInstance } = useWebContainerStore();
-    const { removeFileById, updateItem } = useUploadFileDataStore();
+    const { updateItem } = useUploadFileDataStore();
+    const { deleteEntries } = useExplorerStore();
     const Ele = empty ? 'div' : AccordionPrimitive.Item;
     const Trigger = empty ? 'div' : AccordionPrimitive.Trigger;
     const Content = empty ? 'div' : AccordionPrimitive.Content;
@@ -266,8 +262,7 @@ const Folder = forwardRef<HTMLDivElement, FolderProps & React.HTMLAttributes<HTM
             <RiDeleteBin6Line
               onMouseUp={(e) => {
                 e.stopPropagation();
-                removeFileById(value);
-                webContainerInstance && rm(path, webContainerInstance);
+                deleteEntries([path]);
               }}
               className=" w-[13px] h-[13px] text-white/70 hover:text-white hidden group-hover:block"
             />
@@ -0,0 +1,130 @@
+import React from 'react';
+import { useParams, useRouter } from 'next/navigation';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TreeViewElement } from '@/components/extension/tree-view-api';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { useFileFilter } from '@/store/fileSearchStore';
+import useOpenToSide from '@/hooks/useOpenToSide';
+import { relativePath } from '@/utils/path';
+
+export interface ExplorerContextMenuTarget {
+  x: number;
+  y: number;
+  // 在空白处右键时没有节点，操作作用于项目根目录
+  element?: TreeViewElement;
+}
+
+interface ExplorerContextMenuProps {
+  target: ExplorerContextMenuTarget | null;
+  onClose: () => void;
+}
+
+const itemClassName = 'text-[12px] py-1 focus:bg-[#3f86f5]/60 focus:text-white';
+
+/**
+ * 资源管理器节点的右键菜单，菜单定位在鼠标位置
+ */
+export const ExplorerContextMenu: React.FC<ExplorerContextMenuProps> = ({ target, onClose }) => {
+  const router = useRouter();
+  const { projectId } = useParams<{ projectId: string }>();
+  const { fileData, addFileOrFolder, updateItem } = useUploadFileDataStore();
+  const { deleteSelection, revealPath, downloadEntry } = useExplorerStore();
+  const { filterSearchOptions, setFilterSearchOptionItem, setIncludeFileInpVal } = useFileFilter();
+  const openToSide = useOpenToSide();
+
+  const root = fileData?.[0];
+  const element = target?.element ?? root;
+
+  if (!target || !element || !root) return null;
+
+  const isFile = element.kind === 'file';
+  const relative = relativePath(root.path, element.path);
+
+  const copyText = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (error) {
+      console.error('复制到剪贴板失败:', error);
+    }
+  };
+
+  // 把搜索范围限定在该目录中并切换到搜索面板
+  const findInFolder = () => {
+    setIncludeFileInpVal(relative ? `${relative}/**` : '');
+    !filterSearchOptions.isUsed && setFilterSearchOptionItem('isUsed');
+    router.push(`/edit/${projectId}/search`);
+  };
+
+  return (
+    <DropdownMenu open onOpenChange={(open) => !open && onClose()}>
+      <DropdownMenuTrigger asChild>
+        <span className="fixed w-0 h-0" style={{ left: target.x, top: target.y }} />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        sideOffset={0}
+        className="min-w-[200px] bg-[#343a46] border-white/10 text-[#cacfd7]"
+      >
+        <DropdownMenuItem
+          className={itemClassName}
+          onSelect={() => addFileOrFolder('file', 'PENDING_FILE', element.id, 'pending')}
+        >
+          新建文件
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          className={itemClassName}
+          onSelect={() => addFileOrFolder('directory', 'PENDING_DIRECTORY', element.id, 'pending')}
+        >
+          新建文件夹
+        </DropdownMenuItem>
+        <DropdownMenuSeparator className="bg-white/10" />
+        {isFile ? (
+          <DropdownMenuItem className={itemClassName} onSelect={() => openToSide(element)}>
+            在侧边打开
+          </DropdownMenuItem>
+        ) : (
+          <DropdownMenuItem className={itemClassName} onSelect={findInFolder}>
+            在文件夹中查找
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem className={itemClassName} onSelect={() => revealPath(element.path)}>
+          在资源管理器中显示
+        </DropdownMenuItem>
+        <DropdownMenuItem className={itemClassName} onSelect={() => downloadEntry(element.path)}>
+          下载为 zip
+        </DropdownMenuItem>
+        <DropdownMenuSeparator className="bg-white/10" />
+        <DropdownMenuItem className={itemClassName} onSelect={() => copyText(element.path)}>
+          复制路径
+        </DropdownMenuItem>
+        <DropdownMenuItem className={itemClassName} onSelect={() => copyText(relative)}>
+          复制相对路径
+        </DropdownMenuItem>
+        {target.element && (
+          <>
+            <DropdownMenuSeparator className="bg-white/10" />
+            <DropdownMenuItem
+              className={itemClassName}
+              onSelect={() => updateItem(element.id, { status: 'pending' })}
+            >
+              重命名
+            </DropdownMenuItem>
+            <DropdownMenuItem className={itemClassName} onSelect={() => deleteSelection()}>
+              删除
+              <DropdownMenuShortcut>Delete</DropdownMenuShortcut>
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -1,100 +1,285 @@
 'use client';
 
-import { useMemo } from 'react';
+import {
+  CSSProperties,
+  KeyboardEvent,
+  MouseEvent,
+  memo,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { FixedSizeList, ListChildComponentProps } from 'react-window';
+import AutoSizer from 'react-virtualized-auto-sizer';
 
-import { Tree, TreeViewElement, File, Folder } from '@/components/extension/tree-view-api';
+import { TreeViewElement } from '@/components/extension/tree-view-api';
 import { PendingFileItem } from '@/components/file/pendingFileItem';
 import { FileItem } from '@/components/file/fileItem';
+import { FolderItem } from '@/components/file/folderItem';
+import {
+  ExplorerContextMenu,
+  ExplorerContextMenuTarget,
+} from '@/components/file/explorerContextMenu';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { cn } from '@/utils';
 
-type TOCProps = {
-  toc: TreeViewElement[];
-};
+interface AutoSizerProps {
+  height: number;
+  width: number;
+}
 
-function sortToc(toc: TreeViewElement[]): TreeViewElement[] {
-  const tempToc = [...toc];
+// 文件树按可见行虚拟滚动，只渲染视口内的节点
+interface TreeRow {
+  element: TreeViewElement;
+  level: number;
+  expanded: boolean;
+}
 
-  tempToc
-    .filter((element) => element.kind === 'directory' && element.children?.length)
-    .forEach((element) => {
-      element.children = sortToc(element.children || []);
-    });
+interface TreeRowData {
+  rows: TreeRow[];
+  selectedIds: Set<string>;
+  onRowMouseUp: (e: MouseEvent, element: TreeViewElement) => void;
+  onRowContextMenu: (e: MouseEvent, element: TreeViewElement) => void;
+}
 
-  return tempToc.sort((a, b) => {
-    if (a.kind === 'directory' && b.kind === 'file') {
-      return -1;
-    }
+const ROW_HEIGHT = 22;
+const INDENT = 12;
 
-    if (a.kind === 'file' && b.kind === 'directory') {
-      return 1;
-    }
+function compareElements(a: TreeViewElement, b: TreeViewElement): number {
+  if (a.kind !== b.kind) return a.kind === 'directory' ? -1 : 1;
 
-    if (a.filename < b.filename) {
-      return -1;
-    }
+  if (a.filename < b.filename) return -1;
+  if (a.filename > b.filename) return 1;
+
+  return 0;
+}
 
-    return 0;
+// 展开的目录才会继续展开子节点，折叠目录下的节点不会参与排序和渲染
+function flattenTree(
+  elements: TreeViewElement[],
+  expandedIds: Set<string>,
+  level: number = 0,
+): TreeRow[] {
+  return [...elements].sort(compareElements).flatMap((element) => {
+    const expanded = element.kind === 'directory' && expandedIds.has(element.id);
+    const row: TreeRow = { element, level, expanded };
+
+    return expanded ? [row, ...flattenTree(element.children ?? [], expandedIds, level + 1)] : [row];
   });
 }
 
-const TOC = ({ toc }: TOCProps) => {
-  const sortedToc = useMemo(() => {
-    return sortToc(toc);
-  }, [toc]);
+// 新建或重命名中的节点所在的各级目录
+function findPendingAncestors(elements: TreeViewElement[], parents: string[] = []): string[] {
+  return elements.flatMap((element) => {
+    if (element.status === 'pending') return parents;
 
-  return (
-    <Tree className="w-full h-full bg-transparent p-2 rounded-md" indicator={true}>
-      {sortedToc.map((element) => (
-        <TreeItem key={element.id} elements={[element]} />
-      ))}
-    </Tree>
-  );
-};
+    return element.children ? findPendingAncestors(element.children, [...parents, element.id]) : [];
+  });
+}
 
-type TreeItemProps = {
-  elements: TreeViewElement[];
-};
+const TreeRowItem = memo(({ index, style, data }: ListChildComponentProps<TreeRowData>) => {
+  const { rows, selectedIds, onRowMouseUp, onRowContextMenu } = data;
+  const { element, level, expanded } = rows[index];
 
-export const TreeItem = ({ elements }: TreeItemProps) => {
   return (
-    <ul className="w-full space-y-1">
-      {elements.map((element) => (
-        <li key={`${element.id}+${element.filename}`} className="w-full space-y-2">
-          {element.status === 'pending' ? (
-            <PendingFileItem
-              filename={element.filename}
-              path={(element as any).path}
-              kind={(element as any).kind}
-              id={element.id}
-            />
-          ) : (element.children && element.children?.length > 0) || element.kind === 'directory' ? (
-            <Folder
-              element={element.filename}
-              path={(element as any).path}
-              value={element.id}
-              key={element.id}
-              isSelectable={element.isSelectable}
-              empty={element.children?.length === 0}
-              className="px-px pr-1 text-[12px] font-[300]"
-            >
-              <TreeItem
-                key={element.id}
-                aria-label={element.filename}
-                elements={element.children as TreeViewElement[]}
-              />
-            </Folder>
-          ) : (
-            <File key={element.id} value={element.id} isSelectable={element.isSelectable}>
-              <FileItem key={element.id} file={element}></FileItem>
-            </File>
-          )}
-        </li>
+    <div
+      className="relative"
+      style={style as CSSProperties}
+      onContextMenu={(e) => onRowContextMenu(e, element)}
+    >
+      {Array.from({ length: level }, (_, i) => (
+        <span
+          key={i}
+          aria-hidden="true"
+          className="absolute top-0 h-full w-[0.5px] bg-white/10"
+          style={{ left: i * INDENT + 6 }}
+        />
       ))}
-    </ul>
+      <div className="flex items-center h-full" style={{ paddingLeft: level * INDENT }}>
+        {element.status === 'pending' ? (
+          <PendingFileItem
+            filename={element.filename}
+            path={element.path}
+            kind={element.kind}
+            id={element.id}
+          />
+        ) : element.kind === 'directory' ? (
+          <div
+            className={cn(
+              'flex items-center w-full h-full cursor-pointer border-[1px] border-[#202327]',
+              selectedIds.has(element.id) && 'bg-[#3f86f5]/30 border-[#3f86f5]',
+            )}
+            onMouseUp={(e) => onRowMouseUp(e, element)}
+          >
+            <FolderItem folder={element} expanded={expanded} />
+          </div>
+        ) : (
+          <div
+            className={cn(
+              'flex items-center w-full h-full cursor-pointer hover:bg-[#3c4453]/60 duration-200 ease-in-out',
+              selectedIds.has(element.id) && 'bg-[#3c4453]',
+            )}
+          >
+            <FileItem file={element} onMouseupFn={(e) => onRowMouseUp(e, element)} />
+          </div>
+        )}
+      </div>
+    </div>
   );
-};
+});
+
+TreeRowItem.displayName = 'TreeRowItem';
 
 const FileTree = ({ data }: { data: TreeViewElement[] }) => {
-  return <TOC toc={data} />;
+  const { setSelected } = useUploadFileDataStore();
+  const {
+    selectedIds,
+    anchorId,
+    setSelection,
+    copySelection,
+    paste,
+    duplicateSelection,
+    deleteSelection,
+    expandedIds,
+    revealId,
+    toggleExpanded,
+    expand,
+    clearReveal,
+  } = useExplorerStore();
+  const listRef = useRef<FixedSizeList<TreeRowData>>(null);
+  const [contextMenu, setContextMenu] = useState<ExplorerContextMenuTarget | null>(null);
+
+  // 新建或重命名时自动展开所在目录，保证输入框可见
+  useEffect(() => {
+    const ancestors = findPendingAncestors(data);
+
+    ancestors.length > 0 && expand(ancestors);
+  }, [data]);
+
+  const rows = useMemo(() => flattenTree(data, new Set(expandedIds)), [data, expandedIds]);
+
+  // 定位到文件时滚动到对应的行
+  useEffect(() => {
+    if (!revealId) return;
+
+    const index = rows.findIndex((row) => row.element.id === revealId);
+
+    if (index !== -1) {
+      listRef.current?.scrollToItem(index, 'smart');
+      clearReveal();
+    }
+  }, [revealId, rows]);
+
+  /**
+   * 单击选中一项（目录同时展开/折叠），ctrl/cmd 单击切换选中，shift 单击选中从上次单击位置到当前位置的可见节点
+   */
+  const onRowMouseUp = useCallback(
+    (e: MouseEvent, element: TreeViewElement) => {
+      // 右键由 onRowContextMenu 处理
+      if (e.button !== 0) return;
+
+      setSelected(element.id);
+
+      if (e.shiftKey) {
+        const from = rows.findIndex((row) => row.element.id === anchorId);
+        const to = rows.findIndex((row) => row.element.id === element.id);
+        const [start, end] = from === -1 ? [to, to] : [Math.min(from, to), Math.max(from, to)];
+
+        setSelection(rows.slice(start, end + 1).map((row) => row.element.id));
+
+        return;
+      }
+
+      if (e.ctrlKey || e.metaKey) {
+        setSelection(
+          selectedIds.includes(element.id)
+            ? selectedIds.filter((id) => id !== element.id)
+            : [...selectedIds, element.id],
+          element.id,
+        );
+
+        return;
+      }
+
+      setSelection([element.id], element.id);
+      element.kind === 'directory' && toggleExpanded(element.id);
+    },
+    [rows, anchorId, selectedIds],
+  );
+
+  // 右键未选中的节点时只选中该节点，右键已选中的节点时保留多选，菜单中的删除作用于所有选中项
+  const onRowContextMenu = useCallback(
+    (e: MouseEvent, element: TreeViewElement) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setSelected(element.id);
+      !selectedIds.includes(element.id) && setSelection([element.id], element.id);
+      setContextMenu({ x: e.clientX, y: e.clientY, element });
+    },
+    [selectedIds],
+  );
+
+  // 输入框（新建/重命名）中的按键不作为资源管理器的快捷键
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if ((e.target as HTMLElement).tagName === 'INPUT') return;
+
+    const modifier = e.ctrlKey || e.metaKey;
+
+    if (modifier && e.key === 'c') {
+      copySelection('copy');
+    } else if (modifier && e.key === 'x') {
+      copySelection('cut');
+    } else if (modifier && e.key === 'v') {
+      paste();
+    } else if (modifier && e.key === 'd') {
+      duplicateSelection();
+    } else if (e.key === 'Delete' || (e.metaKey && e.key === 'Backspace')) {
+      deleteSelection();
+    } else if (modifier && e.key === 'a') {
+      setSelection(rows.map((row) => row.element.id));
+    } else {
+      return;
+    }
+
+    e.preventDefault();
+  };
+
+  const itemData = useMemo<TreeRowData>(
+    () => ({ rows, selectedIds: new Set(selectedIds), onRowMouseUp, onRowContextMenu }),
+    [rows, selectedIds, onRowMouseUp, onRowContextMenu],
+  );
+
+  return (
+    <div
+      className="w-full h-full p-2 outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        setContextMenu({ x: e.clientX, y: e.clientY });
+      }}
+    >
+      <AutoSizer>
+        {({ height, width }: AutoSizerProps) => (
+          <FixedSizeList
+            ref={listRef}
+            height={height}
+            width={width}
+            itemSize={ROW_HEIGHT}
+            itemCount={rows.length}
+            itemData={itemData}
+            itemKey={(index, { rows }) => rows[index].element.id}
+          >
+            {TreeRowItem}
+          </FixedSizeList>
+        )}
+      </AutoSizer>
+      <ExplorerContextMenu target={contextMenu} onClose={() => setContextMenu(null)} />
+    </div>
+  );
 };
 
 export default FileTree;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { useDroppable } from '@dnd-kit/core';
+import { FolderIcon, FolderOpenIcon } from 'lucide-react';
+import { RiDeleteBin6Line } from 'react-icons/ri';
+import { CiEdit } from 'react-icons/ci';
+
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import useExplorerDraggable from '@/hooks/useExplorerDraggable';
+import { DirectoryInterface } from '@/types';
+import { cn } from '@/utils';
+
+interface FolderItemProps {
+  folder: DirectoryInterface;
+  expanded: boolean;
+}
+
+export const FolderItem: React.FC<FolderItemProps> = ({ folder, expanded }) => {
+  const { updateItem } = useUploadFileDataStore();
+  const { deleteEntries } = useExplorerStore();
+  const { listeners, setNodeRef, onMouseDown, resetClickClient } = useExplorerDraggable(folder);
+  // 拖到目录上时移动到该目录中
+  const { isOver, setNodeRef: setDropRef } = useDroppable({
+    id: `explorer-${folder.id}`,
+    data: {
+      explorerPath: folder.path,
+    },
+  });
+
+  return (
+    <div
+      ref={setDropRef}
+      onMouseUp={resetClickClient}
+      className={cn(
+        'group flex justify-between items-center w-full h-full px-px pr-1 text-[12px] font-[300]',
+        isOver && 'bg-[#3f86f5]/20',
+      )}
+    >
+      <div className="flex items-center gap-x-1 overflow-hidden">
+        {expanded ? (
+          <FolderOpenIcon className="h-3 w-3 shrink-0" />
+        ) : (
+          <FolderIcon className="h-3 w-3 shrink-0" />
+        )}
+        <span
+          className="overflow-ellipsis whitespace-nowrap overflow-hidden"
+          ref={setNodeRef}
+          {...listeners}
+          onMouseDown={onMouseDown}
+        >
+          {folder.filename}
+        </span>
+      </div>
+      <div className="flex gap-x-1 items-center mr-1">
+        <RiDeleteBin6Line
+          onMouseUp={(e) => {
+            e.stopPropagation();
+            deleteEntries([folder.path]);
+          }}
+          className="w-[13px] h-[13px] text-white/70 hover:text-white hidden group-hover:block"
+        />
+        <CiEdit
+          onClick={(e) => {
+            e.stopPropagation();
+            updateItem(folder.id, {
+              status: 'pending',
+            });
+          }}
+          className="w-[15px] h-[15px] text-white/70 hover:text-white hidden group-hover:block"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { useParams } from 'next/navigation';
+import { VscDebugDisconnect, VscLink } from 'react-icons/vsc';
+
+import { useLocalFolderStore } from '@/store/localFolderStore';
+
+const iconClassName = ' cursor-pointer z-[50] text-[14px] hover:text-[white]';
+
+/**
+ * 资源管理器工具栏中关联 / 取消关联本地文件夹的按钮
+ */
+export const LocalFolderButton: React.FC = () => {
+  const { projectId } = useParams<{ projectId: string }>();
+  const { handle, linkFolder, unlinkFolder } = useLocalFolderStore();
+
+  const handleLink = async () => {
+    if (!('showDirectoryPicker' in window)) {
+      console.error('当前浏览器不支持关联本地文件夹');
+
+      return;
+    }
+
+    let directoryHandler: FileSystemDirectoryHandle;
+
+    try {
+      directoryHandler = await window.showDirectoryPicker({ mode: 'readwrite' });
+    } catch (error) {
+      // 用户取消选择
+      return;
+    }
+
+    if (!window.confirm(`项目文件将写入 ${directoryHandler.name}，同名文件会被覆盖，是否继续？`)) {
+      return;
+    }
+
+    linkFolder(projectId, directoryHandler);
+  };
+
+  if (handle) {
+    return (
+      <VscDebugDisconnect
+        title={`取消关联本地文件夹 ${handle.name}`}
+        className={iconClassName}
+        onClick={() => unlinkFolder()}
+      />
+    );
+  }
+
+  return <VscLink title="关联本地文件夹" className={iconClassName} onClick={handleLink} />;
+};
+
+/**
+ * 已关联本地文件夹但还没有写入权限时的提示，刷新页面后浏览器需要用户重新授权
+ */
+export const LocalFolderBanner: React.FC = () => {
+  const { handle, status, requestPermission } = useLocalFolderStore();
+
+  if (!handle || status === 'granted' || status === 'unlinked') return null;
+
+  return (
+    <div className="flex items-center gap-x-2 mx-2 mt-2 px-2 py-1 rounded-sm bg-white/5 text-[12px] text-[#cacfd7]">
+      <span className="flex-1 truncate">
+        {status === 'denied' ? '未获得' : '需要'} {handle.name} 的写入权限，修改暂未写回本地
+      </span>
+      <span
+        className="shrink-0 text-[#3f85f5] cursor-pointer hover:underline"
+        onClick={() => requestPermission()}
+      >
+        授权
+      </span>
+    </div>
+  );
+};
@@ -2,7 +2,10 @@ import React, { useState } from 'react';
 
 import { useWebContainerStore } from '@/store/webContainerStore';
 import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { useAutosaveStore } from '@/store/autosaveStore';
 import { writeFile, createDir } from '@/utils';
+import { dirname, joinPath } from '@/utils/path';
 
 interface PendingFileItemProps {
   filename: string;
@@ -14,6 +17,8 @@ interface PendingFileItemProps {
 export const PendingFileItem: React.FC<PendingFileItemProps> = ({ id, path, kind, filename }) => {
   const { removeFileById, updateItem } = useUploadFileDataStore();
   const { webContainerInstance } = useWebContainerStore();
+  const { renameEntry } = useExplorerStore();
+  const { recordStructureChange } = useAutosaveStore();
   const [fileName, setFileName] = useState(
     filename.replace(/PENDING_DIRECTORY/g, '').replace(/PENDING_FILE/g, ''),
   );
@@ -23,8 +28,7 @@ export const PendingFileItem: React.FC<PendingFileItemProps> = ({ id, path, kind
     } else {
       //新建
       if (filename.replace(/PENDING_DIRECTORY/g, '').replace(/PENDING_FILE/g, '') === '') {
-        const updatePath =
-          path.replace(/PENDING_DIRECTORY/g, '').replace(/PENDING_FILE/g, '') + fileName;
+        const updatePath = joinPath(dirname(path), fileName);
 
         if (kind === 'file' && webContainerInstance) {
           writeFile(updatePath, '', webContainerInstance);
@@ -37,21 +41,11 @@ export const PendingFileItem: React.FC<PendingFileItemProps> = ({ id, path, kind
           path: updatePath,
           status: 'success',
         });
+        await recordStructureChange();
       } else {
-        // rename
-        const updatePath = path.replace(new RegExp(filename, 'g'), '') + fileName;
-
-        if (kind === 'file' && webContainerInstance) {
-          await webContainerInstance.fs.rename(path, updatePath);
-        } else if (kind === 'directory' && webContainerInstance) {
-          await webContainerInstance.fs.rename(path, updatePath);
-        }
-
-        updateItem(id, {
-          filename: fileName,
-          path: updatePath,
-          status: 'success',
-        });
+        // 重命名时同步更新子节点路径和已打开的文件，取消或失败时保持原名
+        updateItem(id, { status: 'success' });
+        await renameEntry(path, fileName);
       }
     }
   };
@@ -0,0 +1,48 @@
+import React, { useEffect } from 'react';
+
+import { useTrashStore } from '@/store/trashStore';
+import { useExplorerStore } from '@/store/explorerStore';
+
+// 撤销提示显示的时长
+const UNDO_TIMEOUT = 6000;
+
+/**
+ * 删除文件后在资源管理器底部显示的撤销提示
+ */
+export const UndoDeleteToast: React.FC = () => {
+  const { lastDeleted, dismissUndo } = useTrashStore();
+  const { restoreEntries } = useExplorerStore();
+
+  useEffect(() => {
+    if (lastDeleted.length === 0) return;
+
+    const timer = setTimeout(dismissUndo, UNDO_TIMEOUT);
+
+    return () => clearTimeout(timer);
+  }, [lastDeleted]);
+
+  if (lastDeleted.length === 0) return null;
+
+  const message =
+    lastDeleted.length === 1
+      ? `已删除 ${lastDeleted[0].entry.filename}`
+      : `已删除 ${lastDeleted.length} 项`;
+
+  return (
+    <div className="absolute bottom-3 left-3 right-3 z-[60] flex items-center gap-x-3 px-3 py-2 rounded-md bg-[#343a46] text-[12px] text-[#cacfd7] shadow-lg">
+      <span className="flex-1 overflow-hidden overflow-ellipsis whitespace-nowrap">{message}</span>
+      <button
+        className="text-[#3f86f5] hover:text-white"
+        onClick={() => {
+          restoreEntries(lastDeleted.map((entry) => entry.id));
+          dismissUndo();
+        }}
+      >
+        撤销
+      </button>
+      <button className="text-white/50 hover:text-white" onClick={dismissUndo}>
+        关闭
+      </button>
+    </div>
+  );
+};
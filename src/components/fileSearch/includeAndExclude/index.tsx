@@ -23,6 +23,8 @@ const IncludeAndExclude: FC = () => {
 
   const {
     filterSearchOptions,
+    includeFileInpVal,
+    excludeFileInpVal,
     setFilterSearchOptionItem,
     setIncludeFileInpVal,
     setExcludeFileInpVal,
@@ -62,6 +64,7 @@ const IncludeAndExclude: FC = () => {
                 </ToolBtn>
               }
               placeholder="例如：*.ts,src/**/include"
+              value={includeFileInpVal}
               onchange={includeInpOnchange}
             ></InputComp>
           </div>
@@ -78,6 +81,7 @@ const IncludeAndExclude: FC = () => {
                 </ToolBtn>
               }
               placeholder="例如：*.ts,src/**/exclude"
+              value={excludeFileInpVal}
               onchange={excludeInpOnchange}
             ></InputComp>
           </div>
@@ -15,6 +15,7 @@ import {
   useSplitStore,
 } from '@/store/editorStore';
 import { useFileSearch } from '@/store/fileSearchStore';
+import { findItemById, useUploadFileDataStore } from '@/store/uploadFileDataStore';
 import { cn, getFileLanguage, getFileSpecificIcon, addNewModel, RenderedListItem } from '@/utils';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
@@ -67,7 +68,13 @@ const MatchResultItem: FC<{
     } else {
       const monaco = monacos[willChangeEditorId];
       addNewModel(
-        { id: fileId!, filename: filename!, value: rawValue!, language: getFileLanguage(filename) },
+        {
+          id: fileId!,
+          filename: filename!,
+          value: rawValue!,
+          language: getFileLanguage(filename),
+          path: findItemById(useUploadFileDataStore.getState().fileData ?? [], fileId!)?.path,
+        },
         monaco as any,
         willChangeEditor as editor.IStandaloneCodeEditor,
         setModels,
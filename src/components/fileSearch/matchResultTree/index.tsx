@@ -188,6 +188,7 @@ const TreeItem: FC<{
           filename: filename!,
           value: value || '',
           language: getFileLanguage(filename),
+          path,
         },
         monaco as any,
         willChangeEditor as editor.IStandaloneCodeEditor,
@@ -9,6 +9,7 @@ import ToolBtn from '@/components/fileSearch/ToolBtn';
 import { useFileSearch, useFileReplace } from '@/store/fileSearchStore';
 import { useModelsStore } from '@/store/editorStore';
 import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useSnapshotStore } from '@/store/snapshotStore';
 import { caseParse } from '@/utils';
 
 const ReplaceComp: FC = () => {
@@ -17,13 +18,23 @@ const ReplaceComp: FC = () => {
     useFileReplace();
   const { models } = useModelsStore();
   const { updateItem } = useUploadFileDataStore();
+  const { takeSnapshot } = useSnapshotStore();
 
   const replaceInpOnchange = (e: ChangeEvent<HTMLInputElement>) => {
     const key = e.target.value;
     setReplaceInpVal(key);
   };
 
-  function replaceAll() {
+  async function replaceAll() {
+    if (searchResult.length === 0) return;
+
+    // 全部替换前自动创建快照，替换错误时可以从快照恢复；快照创建失败时不替换
+    if (!(await takeSnapshot(`全部替换「${searchInpVal}」之前`, true))) {
+      window.alert('无法为当前内容创建快照，已取消全部替换');
+
+      return;
+    }
+
     //是否保留大小写部分
     const { preserveCase } = replaceOptions;
 
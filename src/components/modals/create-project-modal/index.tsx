@@ -20,7 +20,22 @@ import { Input } from '@/components/ui/input';
 import { getDirectory } from '@/utils/getLocalDirectory';
 import { useModal } from '@/hooks/useModal';
 import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
-import { cn, UPLOAD_FILE_DATA, templateList } from '@/utils';
+import {
+  cn,
+  UPLOAD_FILE_DATA,
+  templateList,
+  toProjectFileData,
+  saveFolderHandle,
+  wrapInDirectory,
+  fromZip,
+  fromFileList,
+  fromFileSystemEntry,
+  removeOversizedFiles,
+  saveFileContents,
+  MAX_IMPORT_FILE_SIZE,
+  formatFileSize,
+} from '@/utils';
+import { DirectoryInterface } from '@/types';
 
 export const CreateProjectModal = () => {
   const { setFileData } = useUploadFileDataStore();
@@ -28,37 +43,144 @@ export const CreateProjectModal = () => {
   const [loading, setLoading] = useState(false);
   const [fileNameState, setFileNameState] = useState<string>('');
   const [fileDescState, setFileDescState] = useState<string>('');
-  const [uploadFileState, setUploadFileState] = useState<any>([]);
+  const [uploadFileState, setUploadFileState] = useState<DirectoryInterface[]>([]);
+  // 导入本地文件夹时可选择关联该文件夹，编辑器中的修改会写回本地
+  const [linkLocalFolder, setLinkLocalFolder] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  // 超过导入大小限制被跳过的文件
+  const [skippedFiles, setSkippedFiles] = useState<string[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const router = useRouter();
   const disAllowCreate =
     loading || uploadFileState.length < 1 || fileDescState === '' || fileNameState === '';
   const isModalOpen = isOpen && type === 'createProject';
+  const localFolderHandle = uploadFileState[0]?.handler;
+
+  // 导入的内容统一放在一个顶层目录下，项目名称为空时使用该目录名
+  const applyImportedFiles = (nodes: DirectoryInterface[], name: string) => {
+    if (nodes.length === 0) return;
+
+    const { nodes: fileData, skipped } = removeOversizedFiles(wrapInDirectory(nodes, name));
+    setUploadFileState(fileData);
+    setSkippedFiles(skipped);
+
+    if (!fileNameState && inputRef.current) {
+      inputRef.current.value = fileData[0].filename;
+      setFileNameState(fileData[0].filename);
+    }
+  };
 
-  const handleUploadClick = async () => {
+  const runImport = async (task: () => Promise<void>) => {
     if (loading) return;
     setLoading(true);
 
     try {
+      await task();
+    } catch (error) {
+      console.error('导入项目失败:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // 不支持 showDirectoryPicker 的浏览器退回到 <input webkitdirectory>
+  const handleUploadClick = () => {
+    if (!('showDirectoryPicker' in window)) {
+      folderInputRef.current?.click();
+
+      return;
+    }
+
+    runImport(async () => {
       const res = await getDirectory();
 
       if (res) {
-        const directoryData = Array.isArray(res) ? res : [res];
-        setUploadFileState(directoryData);
+        const { nodes, skipped } = removeOversizedFiles([res]);
+        setUploadFileState(nodes);
+        setSkippedFiles(skipped);
       }
-    } catch (error) {
-      console.error('Failed to get directory:', error);
-    } finally {
-      setLoading(false);
+    });
+  };
+
+  const importZip = (file: File) =>
+    runImport(async () => {
+      applyImportedFiles(await fromZip(file), file.name.replace(/\.zip$/i, ''));
+    });
+
+  const handleFolderInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const { files } = event.target;
+
+    files?.length &&
+      runImport(async () => {
+        applyImportedFiles(await fromFileList(files), 'project');
+      });
+    event.target.value = '';
+  };
+
+  const handleZipInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+
+    file && importZip(file);
+    event.target.value = '';
+  };
+
+  // 拖入单个 zip 文件时按 zip 导入，否则按文件夹（或多个文件）导入
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+
+    const entries = Array.from(event.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => entry !== null);
+    const zipFile = event.dataTransfer.files[0];
+
+    if (entries.length === 1 && entries[0].isFile && /\.zip$/i.test(entries[0].name)) {
+      importZip(zipFile);
+
+      return;
     }
+
+    runImport(async () => {
+      const nodes: DirectoryInterface[] = [];
+
+      for (const entry of entries) {
+        const node = await fromFileSystemEntry(entry);
+        node && nodes.push(node);
+      }
+
+      applyImportedFiles(nodes, 'project');
+    });
   };
 
   const handleCreateProject = async () => {
     if (disAllowCreate) return;
 
+    setLoading(true);
+
     try {
       const projectId = uuidv4();
+
+      // 文件内容按文件单独保存，从本地文件夹导入的文件在这里逐个读取
+      await saveFileContents(projectId, uploadFileState);
+
+      const projectInfo = {
+        projectFileData: toProjectFileData(uploadFileState),
+        name: fileNameState,
+        desc: fileDescState,
+        id: projectId,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      await localforage.setItem(projectId, JSON.stringify(projectInfo));
+
+      if (linkLocalFolder && localFolderHandle?.kind === 'directory') {
+        await saveFolderHandle(projectId, localFolderHandle);
+      }
+
+      // 项目数据全部写入后再加入项目列表，中途失败时列表中不会出现无法打开的项目
       const preUploadFileData =
         localStorage.getItem(UPLOAD_FILE_DATA) !== null
           ? JSON.parse(localStorage.getItem(UPLOAD_FILE_DATA) as string)
@@ -67,25 +189,18 @@ export const CreateProjectModal = () => {
         name: fileNameState,
         desc: fileDescState,
         id: projectId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+        createdAt: projectInfo.createdAt,
+        updatedAt: projectInfo.updatedAt,
       });
       localStorage.setItem(UPLOAD_FILE_DATA, JSON.stringify(preUploadFileData));
 
-      const projectInfo = {
-        projectFileData: uploadFileState,
-        name: fileNameState,
-        desc: fileDescState,
-        id: projectId,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-      await localforage.setItem(projectId, JSON.stringify(projectInfo));
       setFileData(uploadFileState);
       onClose();
       router.push(`edit/${projectId}/file`);
     } catch (error) {
       console.error('Failed to create project:', error);
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -153,7 +268,16 @@ export const CreateProjectModal = () => {
                 </div>
                 <div
                   onClick={handleUploadClick}
-                  className="flex justify-center flex-col items-center mt-2 gap-x-2 py-6 border-white/20 border-[1px] rounded-sm cursor-pointer"
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragging(true);
+                  }}
+                  onDragLeave={() => setDragging(false)}
+                  onDrop={handleDrop}
+                  className={cn(
+                    'flex justify-center flex-col items-center mt-2 gap-x-2 py-6 border-white/20 border-[1px] rounded-sm cursor-pointer',
+                    dragging && 'border-[#387BFF] bg-[#387BFF]/10',
+                  )}
                 >
                   {loading ? (
                     <AiOutlineLoading3Quarters className="font-[600] animate-spin" />
@@ -175,12 +299,58 @@ export const CreateProjectModal = () => {
                         />
                       </svg>
                       <p className="mb-1 text-sm text-gray-500 dark:text-gray-400">
-                        <span className="font-semibold">Click to upload</span>
+                        <span className="font-semibold">Click to upload</span> or drag and drop
                       </p>
-                      <p className="text-xs text-gray-500 dark:text-gray-400"></p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">文件夹或 .zip 文件</p>
                     </>
                   )}
                 </div>
+                <div className="flex gap-x-3 text-[12px] text-[#676b74]">
+                  <span
+                    className="cursor-pointer hover:text-white"
+                    onClick={() => zipInputRef.current?.click()}
+                  >
+                    从 zip 导入
+                  </span>
+                  <span
+                    className="cursor-pointer hover:text-white"
+                    onClick={() => folderInputRef.current?.click()}
+                  >
+                    上传文件夹
+                  </span>
+                </div>
+                <input
+                  ref={zipInputRef}
+                  type="file"
+                  accept=".zip,application/zip"
+                  className="hidden"
+                  onChange={handleZipInputChange}
+                />
+                {/* webkitdirectory 不在 React 的属性类型中 */}
+                <input
+                  ref={folderInputRef}
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={handleFolderInputChange}
+                  {...{ webkitdirectory: '' }}
+                />
+                {skippedFiles.length > 0 && (
+                  <div className="text-[12px] text-yellow-500 break-all">
+                    以下文件超过 {formatFileSize(MAX_IMPORT_FILE_SIZE)}，没有导入：
+                    {skippedFiles.join('、')}
+                  </div>
+                )}
+                {localFolderHandle && (
+                  <label className="flex items-center gap-x-2 text-[13px] text-[#cacfd7] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={linkLocalFolder}
+                      onChange={(e) => setLinkLocalFolder(e.target.checked)}
+                    />
+                    关联 {localFolderHandle.name}，编辑器中的修改写回本地文件夹
+                  </label>
+                )}
               </TabsContent>
             </Tabs>
           </div>
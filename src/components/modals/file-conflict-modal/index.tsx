@@ -0,0 +1,91 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useFileConflictStore } from '@/store/fileConflictStore';
+import { useModelsStore } from '@/store/editorStore';
+import { findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { useContainerSyncStore } from '@/store/containerSyncStore';
+import { useLocalFolderStore } from '@/store/localFolderStore';
+import { replaceModelValue, writeFile } from '@/utils';
+
+export function FileConflictModal() {
+  const { conflicts, resolveConflict } = useFileConflictStore();
+  const { models } = useModelsStore();
+  const { updateItem, fileData } = useUploadFileDataStore();
+  const { webContainerInstance } = useWebContainerStore();
+  const { discardWrite } = useContainerSyncStore();
+  const { overwriteLocalFile } = useLocalFolderStore();
+  const conflict = conflicts[0];
+
+  if (!conflict) return null;
+
+  const model = models.find((item) => item.id === conflict.id)?.model;
+  const isLocalFolder = conflict.source === 'localFolder';
+
+  // 以编辑器内容覆盖磁盘
+  const handleKeepBuffer = () => {
+    if (isLocalFolder) {
+      const value = model ? model.getValue() : findItemByPath(fileData ?? [], conflict.path)?.value;
+
+      value !== undefined && overwriteLocalFile(conflict.path, value);
+    } else if (model && webContainerInstance) {
+      discardWrite(conflict.id);
+      writeFile(conflict.path, model.getValue(), webContainerInstance);
+    }
+
+    resolveConflict(conflict.id);
+  };
+
+  // 放弃编辑器中的修改，使用磁盘内容
+  const handleUseDisk = () => {
+    discardWrite(conflict.id);
+    updateItem(conflict.id, { value: conflict.diskValue });
+    model && replaceModelValue(model, conflict.diskValue);
+
+    // 本地文件夹中的内容同样需要写入 WebContainer
+    if (isLocalFolder && webContainerInstance) {
+      writeFile(conflict.path, conflict.diskValue, webContainerInstance);
+    }
+
+    resolveConflict(conflict.id);
+  };
+
+  return (
+    // 按 Esc、点击遮罩或关闭按钮视为保留编辑器中的修改，避免冲突被丢弃后编辑器与磁盘内容不一致
+    <Dialog open={true} onOpenChange={(open) => !open && handleKeepBuffer()}>
+      <DialogContent className="sm:max-w-[480px] bg-[#24262b]/90 text-white">
+        <DialogHeader>
+          <DialogTitle>
+            {isLocalFolder ? '本地文件夹中的文件已被修改' : '文件已在外部被修改'}
+          </DialogTitle>
+          <DialogDescription className="text-white/60 break-all">
+            {isLocalFolder
+              ? `${conflict.path} 在上次同步之后被其他程序修改过，写回本地文件夹会覆盖这些修改。`
+              : `${conflict.path} 在编辑器中有未同步的修改，同时磁盘上的内容也发生了变化。`}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button
+            className="h-[3.8vh] bg-transparent border border-white/20 text-white hover:bg-gray-600/30"
+            onClick={handleUseDisk}
+          >
+            使用磁盘内容
+          </Button>
+          <Button
+            className="h-[3.8vh] bg-[#387BFF] text-white hover:bg-blue-700 cursor-pointer font-[600]"
+            onClick={handleKeepBuffer}
+          >
+            保留我的修改
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useSnapshotStore } from '@/store/snapshotStore';
+import { SnapshotChange, SnapshotChangeStatus } from '@/utils/snapshots';
+import { cn } from '@/utils';
+
+interface SnapshotModalProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const changeLabel: Record<SnapshotChangeStatus, { text: string; className: string }> = {
+  added: { text: 'A', className: 'text-[#73c991]' },
+  removed: { text: 'D', className: 'text-[#f14c4c]' },
+  modified: { text: 'M', className: 'text-[#e2c08d]' },
+};
+
+function formatCreatedAt(createdAt: number) {
+  return new Date(createdAt).toLocaleString('zh-CN', { hour12: false });
+}
+
+/**
+ * 项目快照列表，可以创建快照、与当前内容对比以及恢复到快照
+ */
+export function SnapshotModal({ projectId, open, onOpenChange }: SnapshotModalProps) {
+  const {
+    snapshots,
+    loadSnapshots,
+    takeSnapshot,
+    deleteSnapshot,
+    compareSnapshot,
+    restoreSnapshot,
+  } = useSnapshotStore();
+  const [name, setName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [comparing, setComparing] = useState<{ id: string; changes: SnapshotChange[] } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    open && loadSnapshots(projectId);
+    !open && setComparing(null);
+  }, [open, projectId]);
+
+  const runTask = async (task: () => Promise<unknown>) => {
+    setLoading(true);
+
+    try {
+      await task();
+    } catch (error) {
+      console.error('快照操作失败:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = () =>
+    runTask(async () => {
+      await takeSnapshot(name.trim() || `快照 ${formatCreatedAt(Date.now())}`);
+      setName('');
+    });
+
+  const handleCompare = (id: string) =>
+    runTask(async () => {
+      if (comparing?.id === id) {
+        setComparing(null);
+
+        return;
+      }
+
+      const changes = await compareSnapshot(id);
+
+      changes ? setComparing({ id, changes }) : window.alert('读取快照失败，无法对比');
+    });
+
+  const handleRestore = (id: string, snapshotName: string) => {
+    if (!window.confirm(`确定恢复到快照「${snapshotName}」？当前内容会先自动保存为快照。`)) return;
+
+    runTask(async () => {
+      await restoreSnapshot(id);
+      setComparing(null);
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] bg-[#24262b]/90 text-white">
+        <DialogHeader>
+          <DialogTitle>项目快照</DialogTitle>
+          <DialogDescription className="text-white/60">
+            快照保存项目中所有文件的内容，全部替换和恢复快照之前会自动创建快照。
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex gap-x-2">
+          <Input
+            className="h-[3.8vh] bg-transparent border-white/20 text-white"
+            placeholder="快照名称"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !loading && handleCreate()}
+          />
+          <Button
+            className="h-[3.8vh] bg-[#387BFF] text-white hover:bg-blue-700 cursor-pointer font-[600]"
+            disabled={loading}
+            onClick={handleCreate}
+          >
+            创建快照
+          </Button>
+        </div>
+        {snapshots.length === 0 ? (
+          <div className="py-8 text-center text-[13px] text-white/40">还没有快照</div>
+        ) : (
+          <ScrollArea className="max-h-[50vh]">
+            <div className="flex flex-col">
+              {snapshots.map(({ id, name: snapshotName, createdAt, auto, fileCount }) => (
+                <div key={id} className="flex flex-col">
+                  <div className="flex items-center gap-x-2 px-2 py-1.5 rounded text-[13px] hover:bg-white/5">
+                    <div className="flex flex-col flex-1 overflow-hidden">
+                      <span className="overflow-hidden overflow-ellipsis whitespace-nowrap">
+                        {snapshotName}
+                        {auto && (
+                          <span className="ml-2 px-1 rounded bg-white/10 text-[10px] text-white/60">
+                            自动
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-[11px] text-white/40">
+                        {formatCreatedAt(createdAt)} · {fileCount} 个文件
+                      </span>
+                    </div>
+                    <button
+                      className="text-[12px] text-white/70 hover:text-white disabled:opacity-50"
+                      disabled={loading}
+                      onClick={() => handleCompare(id)}
+                    >
+                      {comparing?.id === id ? '收起' : '对比'}
+                    </button>
+                    <button
+                      className="text-[12px] text-[#3f86f5] hover:text-white disabled:opacity-50"
+                      disabled={loading}
+                      onClick={() => handleRestore(id, snapshotName)}
+                    >
+                      恢复
+                    </button>
+                    <button
+                      className="text-[12px] text-white/50 hover:text-white disabled:opacity-50"
+                      disabled={loading}
+                      onClick={() => deleteSnapshot(id)}
+                    >
+                      删除
+                    </button>
+                  </div>
+                  {comparing?.id === id && (
+                    <div className="mx-2 mb-2 px-3 py-2 rounded bg-black/20 text-[12px] font-mono">
+                      <div className="mb-1 font-sans text-white/40">
+                        当前内容相对快照：A 新增 · M 修改 · D 删除
+                      </div>
+                      {comparing.changes.length === 0 ? (
+                        <span className="text-white/40">与当前内容相同</span>
+                      ) : (
+                        comparing.changes.map(({ path, status }) => (
+                          <div key={path} className="flex gap-x-2">
+                            <span className={cn('w-3', changeLabel[status].className)}>
+                              {changeLabel[status].text}
+                            </span>
+                            <span className="overflow-hidden overflow-ellipsis whitespace-nowrap">
+                              {path}
+                            </span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect } from 'react';
+import { FolderIcon } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useTrashStore } from '@/store/trashStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { getFileSpecificIcon } from '@/utils';
+import { dirname } from '@/utils/path';
+
+interface TrashModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatDeletedAt(deletedAt: number) {
+  return new Date(deletedAt).toLocaleString('zh-CN', { hour12: false });
+}
+
+/**
+ * 项目回收站，可以恢复或彻底删除已删除的文件和目录
+ */
+export function TrashModal({ open, onOpenChange }: TrashModalProps) {
+  const { projectId } = useUploadFileDataStore();
+  const { entries, loadTrash, removeEntries } = useTrashStore();
+  const { restoreEntries } = useExplorerStore();
+
+  useEffect(() => {
+    open && loadTrash(projectId);
+  }, [open, projectId]);
+
+  const handleDelete = (ids: string[]) => {
+    const message =
+      ids.length === 1 ? '彻底删除后无法恢复，是否继续？' : `确定清空回收站中的 ${ids.length} 项？`;
+
+    window.confirm(message) && removeEntries(projectId, ids);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] bg-[#24262b]/90 text-white">
+        <DialogHeader>
+          <DialogTitle>回收站</DialogTitle>
+          <DialogDescription className="text-white/60">
+            删除的文件和文件夹会保存在这里，恢复后写回原来的位置。
+          </DialogDescription>
+        </DialogHeader>
+        {entries.length === 0 ? (
+          <div className="py-8 text-center text-[13px] text-white/40">回收站是空的</div>
+        ) : (
+          <ScrollArea className="max-h-[50vh]">
+            <div className="flex flex-col">
+              {entries.map(({ id, entry, deletedAt }) => (
+                <div
+                  key={id}
+                  className="group flex items-center gap-x-2 px-2 py-1.5 rounded text-[13px] hover:bg-white/5"
+                >
+                  {entry.kind === 'directory' ? (
+                    <FolderIcon className="w-[14px] h-[14px] shrink-0" />
+                  ) : (
+                    <img
+                      className="w-[14px] h-[14px] shrink-0"
+                      src={`/images/fileIcon/${getFileSpecificIcon(entry.filename)}.svg`}
+                      alt=""
+                    />
+                  )}
+                  <div className="flex flex-col flex-1 overflow-hidden">
+                    <span className="overflow-hidden overflow-ellipsis whitespace-nowrap">
+                      {entry.filename}
+                    </span>
+                    <span className="overflow-hidden overflow-ellipsis whitespace-nowrap text-[11px] text-white/40">
+                      {dirname(entry.path)} · {formatDeletedAt(deletedAt)}
+                    </span>
+                  </div>
+                  <button
+                    className="text-[12px] text-[#3f86f5] hover:text-white"
+                    onClick={() => restoreEntries([id])}
+                  >
+                    恢复
+                  </button>
+                  <button
+                    className="text-[12px] text-white/50 hover:text-white"
+                    onClick={() => handleDelete([id])}
+                  >
+                    彻底删除
+                  </button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        <DialogFooter className="gap-2">
+          <Button
+            className="h-[3.8vh] bg-transparent border border-white/20 text-white hover:bg-gray-600/30"
+            disabled={entries.length === 0}
+            onClick={() => handleDelete(entries.map((entry) => entry.id))}
+          >
+            清空回收站
+          </Button>
+          <Button
+            className="h-[3.8vh] bg-[#387BFF] text-white hover:bg-blue-700 cursor-pointer font-[600]"
+            disabled={entries.length === 0}
+            onClick={() => restoreEntries(entries.map((entry) => entry.id))}
+          >
+            全部恢复
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
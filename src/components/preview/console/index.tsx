@@ -0,0 +1,62 @@
+import { FC, useEffect, useRef } from 'react';
+import { VscClearAll, VscClose, VscError, VscInfo, VscWarning } from 'react-icons/vsc';
+
+import { PreviewConsoleEntry, usePreviewStore } from '@/store/previewStore';
+import { cn, PreviewConsoleLevel } from '@/utils';
+
+const levelStyle: Record<PreviewConsoleLevel, string> = {
+  log: 'text-slate-200',
+  info: 'text-slate-200',
+  debug: 'text-slate-400',
+  warn: 'text-[#cca700] bg-[#cca700]/10',
+  error: 'text-[#f14c4c] bg-[#f14c4c]/10',
+};
+
+const levelIcon: Partial<Record<PreviewConsoleLevel, JSX.Element>> = {
+  info: <VscInfo className="shrink-0 mt-[2px] text-[#3794ff]" />,
+  warn: <VscWarning className="shrink-0 mt-[2px]" />,
+  error: <VscError className="shrink-0 mt-[2px]" />,
+};
+
+const ConsoleEntry: FC<{ entry: PreviewConsoleEntry }> = ({ entry }) => (
+  <div
+    className={cn(
+      'flex gap-x-2 px-3 py-[2px] border-b border-white/5 font-mono whitespace-pre-wrap break-all',
+      levelStyle[entry.level],
+    )}
+  >
+    {levelIcon[entry.level] ?? <span className="w-[12px] shrink-0" />}
+    <span className="flex-1">{entry.args.join(' ')}</span>
+    <span className="shrink-0 text-white/30">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+  </div>
+);
+
+// 预览控制台：展示桥接脚本转发的 console 输出和未捕获的错误
+const PreviewConsole: FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { consoleEntries, clearConsole } = usePreviewStore();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 新输出到达时滚动到底部
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [consoleEntries]);
+
+  return (
+    <div className="flex flex-col h-full bg-[#1e1e1e] text-[12px]">
+      <div className="flex items-center justify-between px-3 h-[26px] shrink-0 border-b border-white/10 text-[#cacfd7]">
+        <span>Console</span>
+        <div className="flex items-center gap-x-3">
+          <VscClearAll className="cursor-pointer hover:text-white" onClick={clearConsole} />
+          <VscClose className="cursor-pointer hover:text-white" onClick={onClose} />
+        </div>
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto">
+        {consoleEntries.map((entry) => (
+          <ConsoleEntry key={entry.id} entry={entry} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PreviewConsole;
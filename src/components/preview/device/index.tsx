@@ -0,0 +1,59 @@
+import { FC } from 'react';
+import { MdDevices, MdScreenRotation } from 'react-icons/md';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { DEVICE_PRESETS, usePreviewStore } from '@/store/previewStore';
+import { cn } from '@/utils';
+
+// 设备尺寸预设和横竖屏切换
+const DeviceSelector: FC = () => {
+  const { device, rotated, setDevice, toggleRotated } = usePreviewStore();
+  const current = DEVICE_PRESETS.find((preset) => preset.id === device);
+
+  return (
+    <div className="flex items-center">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <div
+            title={current?.label}
+            className="text-slate-400 hover:text-white transition-all duration-300 ease-in-out cursor-pointer mx-2"
+          >
+            <MdDevices />
+          </div>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent className="min-w-[180px] bg-[#343a46] text-white">
+          {DEVICE_PRESETS.map(({ id, label, size }) => (
+            <DropdownMenuItem
+              key={id}
+              onSelect={() => setDevice(id)}
+              className={cn('flex justify-between text-[12px]', id === device && 'bg-white/10')}
+            >
+              <span>{label}</span>
+              {size && (
+                <span className="text-slate-400">
+                  {size.width} × {size.height}
+                </span>
+              )}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {current?.size && (
+        <MdScreenRotation
+          className={cn(
+            'text-slate-400 hover:text-white transition-all duration-300 ease-in-out cursor-pointer mx-2',
+            rotated && 'text-white',
+          )}
+          onClick={toggleRotated}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DeviceSelector;
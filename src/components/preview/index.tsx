@@ -1,19 +1,34 @@
-import React, { FC, memo, useState, ChangeEvent, useEffect } from 'react';
-import { FaUndoAlt, FaLock } from 'react-icons/fa';
-import { RxPinRight, RxPinLeft, RxOpenInNewWindow } from 'react-icons/rx';
+import React, { FC, memo, useState, ChangeEvent, KeyboardEvent, useEffect, useRef } from 'react';
+import { FaUndoAlt, FaLock, FaArrowLeft, FaArrowRight } from 'react-icons/fa';
+import {
+  RxPinRight,
+  RxPinLeft,
+  RxOpenInNewWindow,
+  RxDoubleArrowLeft,
+  RxDoubleArrowRight,
+} from 'react-icons/rx';
+import { VscDebugConsole, VscMultipleWindows } from 'react-icons/vsc';
 import { Slot } from '@radix-ui/react-slot';
-import { v4 as uuidv4 } from 'uuid';
+import { PanelGroup, Panel } from 'react-resizable-panels';
 
 import BootingWebContainer from './booting';
+import PortSelector, { openInNewWindow } from './ports';
+import DeviceSelector from './device';
+import PreviewConsole from './console';
 
+import ResizeHandle from '@/components/resize-handle';
 import { useWebContainerStore } from '@/store/webContainerStore';
+import { DEVICE_PRESETS, usePreviewStore } from '@/store/previewStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { cn, isPreviewBridgeMessage } from '@/utils';
 
 // 自定义输入框组件
 const CustomInput: FC<{
   value: string;
   onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onKeyDown?: (event: KeyboardEvent<HTMLInputElement>) => void;
   placeholder?: string;
-}> = ({ value, onChange, placeholder }) => {
+}> = ({ value, onChange, onKeyDown, placeholder }) => {
   return (
     <div
       className="flex items-center bg-[#202327] border-white/40 text-white  px-2 py-1 rounded flex-1 box-border border
@@ -27,61 +42,197 @@ const CustomInput: FC<{
         className="bg-transparent border-none flex-1 outline-none text-white text-[13px] "
         value={value}
         onChange={onChange}
+        onKeyDown={onKeyDown}
         placeholder={placeholder}
       />
     </div>
   );
 };
 
+// 拆分为服务地址（origin）和相对路径，地址栏只编辑相对路径
+function splitUrl(url: string) {
+  try {
+    const { origin, pathname, search, hash } = new URL(url);
+
+    return { origin, path: `${pathname}${search}${hash}` };
+  } catch {
+    return { origin: '', path: '' };
+  }
+}
+
+const iconClassName =
+  'text-slate-400 hover:text-white transition-all duration-300 ease-in-out cursor-pointer mx-2';
+
 export const Preview: FC = memo(function Preview() {
-  const uuid = uuidv4();
   const { url, isInitialized } = useWebContainerStore();
+  const {
+    history,
+    index,
+    frameUrl,
+    reloadKey,
+    device,
+    rotated,
+    consoleEntries,
+    navigate,
+    goBack,
+    goForward,
+    reload,
+    receiveBridgeMessage,
+    collapsed,
+    setCollapsed,
+    setDetached,
+  } = usePreviewStore();
+  const { previewPlacement, setPreviewPlacement } = useSettingsStore();
 
-  const [iframeUrl, setIframeUrl] = useState<string>('');
-  const [id, setId] = useState<string>(uuid);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [path, setPath] = useState<string>('');
+  const [consoleVisible, setConsoleVisible] = useState(false);
+
+  const currentUrl = history[index] ?? '';
+  const errorCount = consoleEntries.filter((entry) => entry.level === 'error').length;
+  const size = DEVICE_PRESETS.find((preset) => preset.id === device)?.size;
+  const frameSize = size && (rotated ? { width: size.height, height: size.width } : size);
+
+  useEffect(() => {
+    setPath(splitUrl(currentUrl).path);
+  }, [currentUrl]);
 
+  // 接收预览页面中桥接脚本发来的消息
   useEffect(() => {
-    setIframeUrl(url);
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (!isPreviewBridgeMessage(event.data)) return;
+
+      receiveBridgeMessage(event.data);
+    };
+
+    window.addEventListener('message', handleMessage);
 
     return () => {
-      setIframeUrl('');
+      window.removeEventListener('message', handleMessage);
     };
-  }, [url]);
+  }, []);
+
+  const handlePathKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') return;
+
+    const { origin } = splitUrl(currentUrl);
 
-  const handleInputChange = (event: ChangeEvent<HTMLInputElement>) => {
-    setIframeUrl(event.target.value);
+    if (!origin) return;
+
+    navigate(new URL(path || '/', origin).href);
   };
 
+  // 折叠后只显示一个窄条，点击展开
+  if (collapsed) {
+    const ExpandIcon = previewPlacement === 'right' ? RxDoubleArrowLeft : RxDoubleArrowRight;
+
+    return (
+      <div
+        title="Expand preview"
+        onClick={() => setCollapsed(false)}
+        className="flex flex-col items-center gap-y-3 h-full pt-3 text-slate-400 hover:text-white cursor-pointer"
+      >
+        <ExpandIcon />
+        <span className="text-[11px] [writing-mode:vertical-rl]">PREVIEW</span>
+      </div>
+    );
+  }
+
+  const CollapseIcon = previewPlacement === 'right' ? RxDoubleArrowRight : RxDoubleArrowLeft;
+
   return (
     <main className="flex flex-col h-full z-[999]">
       <header className="flex items-center p-2 bg-[#202327]/60 text-white z-50">
-        <FaUndoAlt
-          className="text-slate-400 hover:text-white transition-all duration-300 ease-in-out cursor-pointer mx-2"
-          onClick={() => setId(uuidv4())}
+        <FaArrowLeft
+          className={cn(iconClassName, index <= 0 && 'opacity-40 pointer-events-none')}
+          onClick={goBack}
+        />
+        <FaArrowRight
+          className={cn(
+            iconClassName,
+            index >= history.length - 1 && 'opacity-40 pointer-events-none',
+          )}
+          onClick={goForward}
         />
+        <FaUndoAlt className={iconClassName} onClick={reload} />
+        <PortSelector />
         <div className="flex-1 ml-2 ">
-          <CustomInput value={iframeUrl} onChange={handleInputChange} placeholder="Enter URL" />
+          <CustomInput
+            value={path}
+            onChange={(event) => setPath(event.target.value)}
+            onKeyDown={handlePathKeyDown}
+            placeholder="/"
+          />
         </div>
-        <RxOpenInNewWindow className="cursor-pointer mx-2 " />
-        {true ? (
-          <RxPinRight className="text-slate-400 hover:text-white transition-all duration-300 ease-in-out cursor-pointer mx-2" />
+        <DeviceSelector />
+        <div
+          className={cn('relative', iconClassName)}
+          onClick={() => setConsoleVisible((pre) => !pre)}
+        >
+          <VscDebugConsole className={cn(consoleVisible && 'text-white')} />
+          {errorCount > 0 && (
+            <span className="absolute -top-2 -right-2 px-1 rounded-full bg-[#f14c4c] text-[9px] leading-[14px]">
+              {errorCount}
+            </span>
+          )}
+        </div>
+        <RxOpenInNewWindow className={iconClassName} onClick={() => openInNewWindow(currentUrl)} />
+        <VscMultipleWindows
+          title="Open in separate window"
+          className={iconClassName}
+          onClick={() => setDetached(true)}
+        />
+        {previewPlacement === 'right' ? (
+          <RxPinLeft
+            title="Pin to left"
+            className={iconClassName}
+            onClick={() => setPreviewPlacement('left')}
+          />
         ) : (
-          <RxPinLeft className="text-slate-400 hover:text-white transition-all duration-300 ease-in-out cursor-pointer mx-2" />
+          <RxPinRight
+            title="Pin to right"
+            className={iconClassName}
+            onClick={() => setPreviewPlacement('right')}
+          />
         )}
+        <CollapseIcon
+          title="Collapse preview"
+          className={iconClassName}
+          onClick={() => setCollapsed(true)}
+        />
       </header>
-      <div className="bg-gray-800 flex-1 border-0">
-        {isInitialized ? (
-          <iframe
-            style={{ backgroundColor: '#202327' }}
-            width="100%"
-            height="100%"
-            src={iframeUrl}
-            key={id}
-          ></iframe>
-        ) : (
-          <BootingWebContainer />
+      <PanelGroup direction="vertical" className="flex-1">
+        <Panel id="preview-frame" order={1} minSize={20} className="bg-gray-800 border-0">
+          {isInitialized && url ? (
+            <div
+              className={cn(
+                'w-full h-full',
+                frameSize && 'flex items-center justify-center overflow-auto p-4',
+              )}
+            >
+              <iframe
+                ref={iframeRef}
+                style={{ backgroundColor: '#202327', flexShrink: 0 }}
+                width={frameSize ? frameSize.width : '100%'}
+                height={frameSize ? frameSize.height : '100%'}
+                src={frameUrl}
+                key={reloadKey}
+              ></iframe>
+            </div>
+          ) : (
+            <BootingWebContainer />
+          )}
+        </Panel>
+        {consoleVisible && (
+          <>
+            <ResizeHandle className="bg-transparent h-[3px]" direction="vertical" />
+            <Panel id="preview-console" order={2} defaultSize={30} minSize={10}>
+              <PreviewConsole onClose={() => setConsoleVisible(false)} />
+            </Panel>
+          </>
         )}
-      </div>
+      </PanelGroup>
     </main>
   );
 });
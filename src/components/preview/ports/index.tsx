@@ -0,0 +1,63 @@
+import { FC } from 'react';
+import { RxChevronDown, RxOpenInNewWindow } from 'react-icons/rx';
+
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { cn } from '@/utils';
+
+// 在新窗口中打开端口地址
+export function openInNewWindow(url: string) {
+  url && window.open(url, '_blank', 'noopener');
+}
+
+// 端口列表：切换预览的端口，或在新窗口中打开任意端口
+const PortSelector: FC = () => {
+  const { ports, activePort, setActivePort } = useWebContainerStore();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <div className="flex items-center gap-x-1 ml-2 px-2 py-1 rounded border border-white/40 text-[13px] text-slate-300 cursor-pointer hover:border-white hover:text-white duration-300">
+          <span>{activePort === null ? 'No ports' : `:${activePort}`}</span>
+          <RxChevronDown />
+        </div>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="min-w-[200px] bg-[#343a46] text-white">
+        {ports.length === 0 && (
+          <div className="px-2 py-1.5 text-[12px] text-slate-400">No open ports</div>
+        )}
+        {ports.map(({ port, url, ready }) => (
+          <DropdownMenuItem
+            key={port}
+            disabled={!ready}
+            onSelect={() => setActivePort(port)}
+            className={cn(
+              'flex items-center gap-x-2 text-[12px]',
+              port === activePort && 'bg-white/10',
+            )}
+          >
+            <span
+              className={cn('w-2 h-2 rounded-full', ready ? 'bg-green-500' : 'bg-gray-500')}
+              title={ready ? 'Ready' : 'Starting'}
+            />
+            <span className="flex-1">{port}</span>
+            <RxOpenInNewWindow
+              className="text-slate-400 hover:text-white"
+              onClick={(e) => {
+                e.stopPropagation();
+                openInNewWindow(url);
+              }}
+            />
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default PortSelector;
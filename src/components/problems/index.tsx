@@ -0,0 +1,91 @@
+import React from 'react';
+import { VscError, VscInfo, VscWarning } from 'react-icons/vsc';
+
+import useOpenFile from '@/hooks/useOpenFile';
+import { Problem, useProblemsStore } from '@/store/problemsStore';
+import { findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { basename, dirname, getFileSpecificIcon, ProblemSeverity } from '@/utils';
+
+const severityIcon: Record<ProblemSeverity, JSX.Element> = {
+  error: <VscError className="shrink-0 text-[#f14c4c]" />,
+  warning: <VscWarning className="shrink-0 text-[#cca700]" />,
+  info: <VscInfo className="shrink-0 text-[#3794ff]" />,
+};
+
+const severityOrder: Record<ProblemSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// 按文件分组，组内按严重程度和位置排序
+function groupByPath(problems: Problem[]) {
+  const groups = new Map<string, Problem[]>();
+
+  problems.forEach((problem) => {
+    groups.set(problem.path, [...(groups.get(problem.path) ?? []), problem]);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([path, items]) => ({
+      path,
+      items: items.sort(
+        (a, b) =>
+          severityOrder[a.severity] - severityOrder[b.severity] ||
+          a.line - b.line ||
+          a.column - b.column,
+      ),
+    }));
+}
+
+// 问题面板：列出终端输出中匹配到的问题，点击跳转到对应文件位置
+export const ProblemsPanel: React.FC = () => {
+  const { problems } = useProblemsStore();
+  const openFile = useOpenFile();
+
+  const handleClick = (problem: Problem) => {
+    const file = findItemByPath(useUploadFileDataStore.getState().fileData ?? [], problem.path);
+
+    if (!file || file.kind !== 'file') return;
+
+    openFile(file, { lineNumber: problem.line, column: problem.column });
+  };
+
+  if (problems.length === 0) {
+    return (
+      <div className="p-3 text-[12px] text-[#cacfd7] font-[300]">
+        No problems have been detected in the workspace.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto py-1 text-[12px] text-[#cacfd7] font-[300]">
+      {groupByPath(problems).map(({ path, items }) => (
+        <div key={path}>
+          <div className="flex items-center gap-x-1 px-3 h-[22px]">
+            <img
+              className="w-[14px] h-[14px]"
+              src={`/images/fileIcon/${getFileSpecificIcon(basename(path))}.svg`}
+              alt=""
+            />
+            <span className="text-white">{basename(path)}</span>
+            <span className="text-white/40 truncate">{dirname(path)}</span>
+            <span className="ml-1 px-[6px] rounded-full bg-white/10">{items.length}</span>
+          </div>
+          {items.map((problem) => (
+            <div
+              key={problem.id}
+              onClick={() => handleClick(problem)}
+              className="flex items-center gap-x-2 pl-8 pr-3 h-[22px] cursor-pointer hover:bg-white/10"
+            >
+              {severityIcon[problem.severity]}
+              <span className="truncate">{problem.message}</span>
+              <span className="shrink-0 text-white/40">
+                {problem.source}
+                {problem.code && `(${problem.code})`} [Ln {problem.line}, Col {problem.column}]
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
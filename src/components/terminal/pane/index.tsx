@@ -0,0 +1,688 @@
+'use client';
+
+import React, {
+  useRef,
+  useState,
+  useEffect,
+  useCallback,
+  useImperativeHandle,
+  forwardRef,
+} from 'react';
+import type { Terminal } from 'xterm';
+import type { FitAddon } from 'xterm-addon-fit';
+import type { SearchAddon } from 'xterm-addon-search';
+import type { WebContainer, WebContainerProcess } from '@webcontainer/api';
+import { VscClearAll, VscCopy, VscSave, VscSearch } from 'react-icons/vsc';
+
+import { SearchBar } from '@/components/terminal/searchBar';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { BootStepId, useBootStore } from '@/store/bootStore';
+import { TerminalSession } from '@/store/terminalStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useProblemsStore } from '@/store/problemsStore';
+import { BootConfig, createOutputMatcher, EMPTY_BOOT_CONFIG, parseCommand } from '@/utils';
+
+/**
+ * 终端窗格对外暴露的方法接口
+ * 通过 ref 向父组件提供可调用的方法
+ */
+export interface TerminalPaneRefInterface {
+  terminalResize: () => void; // 手动触发终端尺寸调整的方法
+}
+
+/**
+ * 自动执行启动命令函数
+ *
+ * 功能:按项目的启动配置(BootConfig)在 WebContainer 中安装依赖并启动项目
+ * 应用场景:终端初始化后自动执行,配置可在设置页修改
+ *
+ * @param webContainerInstance - WebContainer 实例
+ * @param terminal - xterm.js 终端实例
+ * @param bootConfig - 项目启动配置(工作目录、安装命令、启动命令)
+ * @param onOutput - 命令输出回调,用于问题匹配
+ * @param task - 窗格是否已清理,以及每个启动的进程,窗格清理时由调用方终止这些进程
+ *
+ * 执行流程:
+ * 1. 等待并检查工作目录是否存在
+ * 2. 执行安装命令(为空则跳过)
+ * 3. 执行启动命令(为空则跳过),作为后台进程运行
+ *
+ * 每一步的状态会同步到 bootStore,由 BootingWebContainer 展示
+ * 每次 await 之后检查窗格是否已清理,清理后不再写入已释放的终端,也不再启动后续命令
+ */
+async function executeAutoCommands(
+  webContainerInstance: WebContainer,
+  terminal: Terminal,
+  bootConfig: BootConfig,
+  onOutput: (data: string) => void,
+  task: { isDisposed: () => boolean; onSpawn: (process: WebContainerProcess) => void },
+): Promise<void> {
+  const { isDisposed, onSpawn } = task;
+  const { setStepStatus } = useBootStore.getState();
+  const { cwd, installCommand, startCommand } = bootConfig;
+
+  try {
+    /**
+     * 等待工作目录创建
+     *
+     * 问题背景:
+     * - WebContainer 初始化和文件写入是异步操作
+     * - 如果立即执行命令,工作目录可能还未创建完成
+     * - 导致 spawn 报错: ENOENT (no such file or directory)
+     *
+     * 解决方案:
+     * - 轮询检查目录是否存在
+     * - 最多等待 10 秒,每 200ms 检查一次
+     * - 超时则提示用户并中断执行
+     */
+    const maxRetries = 50; // 最多重试 50 次 (10秒)
+    const retryInterval = 200; // 每次间隔 200ms
+    let cwdExists = false;
+
+    terminal.writeln('\r\n\x1b[1;36m⏳ 等待项目目录初始化...\x1b[0m\r\n');
+
+    for (let i = 0; i < maxRetries; i++) {
+      try {
+        // 尝试读取工作目录,如果存在则不会抛出异常
+        await webContainerInstance.fs.readdir(cwd);
+
+        if (isDisposed()) return;
+
+        cwdExists = true;
+        terminal.writeln('\x1b[1;32m✅ 项目目录已就绪\x1b[0m\r\n');
+        break;
+      } catch (error) {
+        // 目录不存在,等待后重试
+        await new Promise((resolve) => setTimeout(resolve, retryInterval));
+
+        if (isDisposed()) return;
+      }
+    }
+
+    // 如果超时仍未找到目录,中断执行
+    if (!cwdExists) {
+      terminal.writeln(
+        `\r\n\x1b[1;31m❌ 错误: ${cwd} 目录未找到,请在设置中检查启动配置\x1b[0m\r\n`,
+      );
+      setStepStatus('install', 'error');
+      setStepStatus('start', 'skipped');
+
+      return;
+    }
+
+    /**
+     * 定义要执行的命令序列
+     * 每个命令包含:
+     * - step: 对应的启动步骤,用于更新进度
+     * - commandLine: 完整命令,为空表示跳过
+     * - waitForExit: 是否等待命令执行完成
+     *   true: 串行执行,等待当前命令完成后再执行下一个
+     *   false: 后台运行,立即执行下一个命令
+     */
+    const commands: {
+      step: BootStepId;
+      commandLine: string;
+      waitForExit: boolean;
+      description: string;
+    }[] = [
+      {
+        step: 'install',
+        commandLine: installCommand,
+        waitForExit: true, // 等待安装完成
+        description: '📦 正在安装依赖...',
+      },
+      {
+        step: 'start',
+        commandLine: startCommand,
+        waitForExit: false, // 开发服务器后台运行
+        description: '🚀 正在启动开发服务器...',
+      },
+    ];
+
+    /**
+     * 在终端显示启动提示
+     * \r\n: 回车换行符(终端换行必须使用 \r\n)
+     * \x1b[1;36m: ANSI 转义码,设置青色粗体
+     * \x1b[0m: 重置颜色
+     */
+    terminal.writeln('\r\n\x1b[1;36m🤖 自动启动流程开始\x1b[0m\r\n');
+
+    // 遍历执行所有命令
+    for (const { step, commandLine, waitForExit, description } of commands) {
+      const parsed = parseCommand(commandLine);
+
+      // 未配置的命令直接跳过
+      if (!parsed) {
+        setStepStatus(step, 'skipped');
+        continue;
+      }
+
+      const { command, args } = parsed;
+
+      // 显示当前命令描述
+      terminal.writeln(`\x1b[1;33m${description}\x1b[0m`);
+      // 显示实际执行的命令
+      terminal.writeln(`\x1b[90m$ ${commandLine}\x1b[0m\r\n`);
+      setStepStatus(step, 'running');
+
+      /**
+       * spawn() - 在 WebContainer 中执行命令
+       *
+       * 参数:
+       * - command: 命令名称 (如 'pnpm')
+       * - args: 参数数组 (如 ['install'])
+       * - cwd: 工作目录(来自启动配置)
+       *
+       * 返回: WebContainerProcess 实例
+       * - output: 命令输出流 (ReadableStream)
+       * - exit: Promise,命令退出时 resolve
+       */
+      const process = await webContainerInstance.spawn(command, args, { cwd });
+
+      // spawn 期间窗格已清理,直接结束刚创建的进程
+      if (isDisposed()) {
+        process.kill();
+
+        return;
+      }
+
+      onSpawn(process);
+
+      /**
+       * 将命令输出流连接到终端显示
+       * pipeTo() - 流式传输数据
+       * WritableStream.write() - 每当有新输出时调用
+       */
+      process.output.pipeTo(
+        new WritableStream({
+          write(data) {
+            if (isDisposed()) return;
+
+            terminal.write(data); // 实时显示命令输出
+            onOutput(data);
+          },
+        }),
+      );
+
+      /**
+       * 根据 waitForExit 决定是否等待命令完成
+       *
+       * waitForExit = true:
+       *   等待命令执行完成后再继续(如安装依赖)
+       *
+       * waitForExit = false:
+       *   不等待,让命令在后台运行(如开发服务器)
+       *   服务器就绪时由 server-ready 事件将步骤标记为成功,进程异常退出则标记为失败
+       */
+      if (waitForExit) {
+        const exitCode = await process.exit; // 等待进程退出
+
+        // 窗格清理时进程被终止,不再更新状态
+        if (isDisposed()) return;
+
+        // 检查命令是否成功执行
+        if (exitCode !== 0) {
+          // 命令失败,显示错误信息
+          terminal.writeln(`\r\n\x1b[1;31m❌ 命令执行失败 (退出码: ${exitCode})\x1b[0m\r\n`);
+          setStepStatus(step, 'error');
+          setStepStatus('start', 'skipped');
+
+          return; // 中断后续命令执行
+        }
+
+        // 命令成功,显示成功信息
+        terminal.writeln('\r\n\x1b[1;32m✅ 完成\x1b[0m\r\n');
+        setStepStatus(step, 'success');
+      } else {
+        process.exit.then((exitCode: number) => {
+          exitCode !== 0 && !isDisposed() && setStepStatus(step, 'error');
+        });
+        // 后台运行的命令,显示提示信息
+        terminal.writeln('\r\n\x1b[1;32m✅ 服务已启动\x1b[0m\r\n');
+      }
+    }
+
+    // 所有命令执行完毕
+    terminal.writeln('\x1b[1;36m🎉 自动启动流程完成!\x1b[0m\r\n');
+  } catch (error) {
+    if (isDisposed()) return;
+
+    // 捕获执行过程中的错误
+    console.error('自动执行命令失败:', error);
+    terminal.writeln(
+      `\r\n\x1b[1;31m❌ 自动启动失败: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`,
+    );
+    useBootStore
+      .getState()
+      .steps.filter((step) => step.status === 'running')
+      .forEach((step) => setStepStatus(step.id, 'error'));
+  }
+}
+
+/**
+ * xterm.js 终端主题配置对象
+ * 定义终端的视觉外观，模拟真实终端的配色方案
+ * 包含标准 ANSI 颜色和亮色变体
+ */
+const terminalTheme = {
+  foreground: '#ffffff', // 默认前景色（文字颜色）
+  background: '#1e1e1e', // 背景色（类似 VS Code 暗色主题）
+  cursor: '#ffffff', // 光标颜色
+  selection: 'rgba(255, 255, 255, 0.3)', // 文本选中时的背景色（半透明白色）
+
+  // ANSI 标准颜色（用于终端输出着色）
+  black: '#000000', // ANSI Black
+  brightBlack: '#808080', // ANSI Bright Black（灰色）
+  red: '#ce2f2b', // ANSI Red（错误信息常用）
+  brightRed: '#f44a47', // ANSI Bright Red
+  green: '#00b976', // ANSI Green（成功信息常用）
+  brightGreen: '#05d289', // ANSI Bright Green
+  yellow: '#e0d500', // ANSI Yellow（警告信息常用）
+  brightYellow: '#f4f628', // ANSI Bright Yellow
+  magenta: '#bd37bc', // ANSI Magenta
+  brightMagenta: '#d86cd8', // ANSI Bright Magenta
+  blue: '#1d6fca', // ANSI Blue（信息提示常用）
+  brightBlue: '#358bed', // ANSI Bright Blue
+  cyan: '#00a8cf', // ANSI Cyan
+  brightCyan: '#19b8dd', // ANSI Bright Cyan
+  white: '#e5e5e5', // ANSI White
+  brightWhite: '#ffffff', // ANSI Bright White
+};
+
+/**
+ * 读取终端缓冲区中的全部文本
+ * 包括已滚出可视区域、仍保存在 scrollback 中的历史输出
+ */
+function getTerminalOutput(terminal: Terminal): string {
+  const buffer = terminal.buffer.active;
+  const lines: string[] = [];
+
+  for (let i = 0; i < buffer.length; i++) {
+    const line = buffer.getLine(i);
+
+    if (!line) continue;
+
+    // 自动折行的行与上一行拼接，还原原始输出
+    if (line.isWrapped && lines.length) {
+      lines[lines.length - 1] += line.translateToString(true);
+    } else {
+      lines.push(line.translateToString(true));
+    }
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+interface TerminalPaneProps {
+  session: TerminalSession;
+}
+
+/**
+ * 终端窗格组件
+ * 每个窗格对应一个终端会话：shell 会话运行交互式 jsh，task 会话运行项目的安装和启动命令
+ * 使用 forwardRef 允许父组件通过 ref 访问子组件的方法（如 terminalResize）
+ *
+ * @param props - 组件属性，session 为窗格对应的终端会话
+ * @param ref - 父组件传入的 ref，用于暴露 terminalResize 方法
+ */
+export const TerminalPane = forwardRef<TerminalPaneRefInterface, TerminalPaneProps>(
+  function TerminalPane({ session }, ref) {
+    // ========== DOM 引用 ==========
+    // 终端容器的 DOM 引用，xterm.js 会将终端界面挂载到这个 div 上
+    const terminalRef = useRef<HTMLDivElement>(null);
+
+    // ========== WebContainer 状态 ==========
+    // webContainerInstance: 浏览器内的 Node.js 运行时实例
+    const { webContainerInstance } = useWebContainerStore();
+
+    // 终端历史缓冲区行数，在设置页修改后实时生效
+    const scrollback = useSettingsStore((state) => state.terminalScrollback);
+
+    const [searchVisible, setSearchVisible] = useState(false);
+
+    // ========== 终端相关实例引用 ==========
+    /**
+     * shell: WebContainer 中运行的 Shell 进程（jsh - JavaScript Shell）
+     * 作用：接收用户命令、执行并返回输出
+     * 任务终端不启动 Shell，该引用保持为 null
+     */
+    const shell = useRef<WebContainerProcess | null>(null);
+
+    /**
+     * tasks: 任务终端启动的安装和开发服务器进程
+     * 窗格清理时一并终止，避免重新挂载后旧的开发服务器仍占用端口
+     */
+    const tasks = useRef<WebContainerProcess[]>([]);
+
+    /**
+     * terminal: xterm.js 的核心终端实例
+     * 作用：渲染终端界面、处理用户输入、显示输出
+     */
+    const terminal = useRef<Terminal | null>(null);
+
+    /**
+     * fitAddon: 自适应插件
+     * 作用：自动调整终端尺寸以适配容器大小（计算行数和列数）
+     */
+    const fitAddon = useRef<FitAddon | null>(null);
+
+    /**
+     * searchAddon: 搜索插件
+     * 作用：在终端输出（包括 scrollback 历史）中查找文本并高亮
+     */
+    const searchAddon = useRef<SearchAddon | null>(null);
+
+    /**
+     * 重新计算并调整终端尺寸
+     *
+     * 执行步骤：
+     * 1. fitAddon.fit() - 根据容器尺寸计算最佳行列数
+     * 2. shell.resize() - 通知 WebContainer 的 Shell 进程调整伪终端尺寸
+     *
+     * 为什么需要两步？
+     * - xterm.js 只负责前端显示，需要手动 fit()
+     * - WebContainer 的 Shell 需要知道终端尺寸以正确换行和格式化输出
+     *
+     * 任务终端没有 Shell 进程，只调整 xterm.js 的显示尺寸
+     */
+    const terminalResize = useCallback(() => {
+      if (!fitAddon.current || !terminal.current) return;
+
+      fitAddon.current.fit();
+      shell.current?.resize({
+        cols: terminal.current.cols,
+        rows: terminal.current.rows,
+      });
+    }, []);
+
+    /**
+     * useImperativeHandle Hook
+     * 作用：向父组件暴露可调用的方法
+     *
+     * 使用场景：
+     * 父组件通过 ref.current.terminalResize() 手动触发终端尺寸调整
+     * 例如：当用户拖拽调整面板大小时，父组件调用此方法同步终端尺寸
+     */
+    useImperativeHandle(ref, () => ({ terminalResize }), [terminalResize]);
+
+    /**
+     * useEffect Hook - 终端初始化和生命周期管理
+     * 依赖项：[webContainerInstance]
+     * 触发时机：当 WebContainer 实例创建或变化时执行
+     */
+    useEffect(() => {
+      if (!webContainerInstance) return;
+
+      /**
+       * disposed: 清理函数是否已执行
+       * 初始化过程包含多次 await，期间组件可能已经卸载，
+       * 每次 await 之后都需要检查，避免在已清理的组件上继续创建终端或进程
+       */
+      let disposed = false;
+      let instance: Terminal | null = null;
+
+      /**
+       * 问题匹配器：从命令输出中解析 tsc / vite / eslint 的错误
+       * 相对路径按启动配置的工作目录解析，结果归属于当前会话
+       */
+      const matcher = createOutputMatcher((source, matches) => {
+        const cwd = useBootStore.getState().bootConfig?.cwd ?? '/';
+        useProblemsStore.getState().setProblems(session.id, source, matches, cwd);
+      });
+
+      /**
+       * 窗口大小变化时同步终端尺寸
+       * 场景：调整浏览器窗口大小、开关开发者工具、屏幕旋转
+       * 使用具名函数，以便在清理时移除同一个监听器
+       */
+      const handleWindowResize = () => terminalResize();
+
+      (async function init() {
+        // ========== 动态导入 xterm.js 相关模块 ==========
+        /**
+         * 为什么使用动态 import？
+         * 1. xterm.js 体积较大（~200KB），动态导入减少初始包大小
+         * 2. 仅在需要时加载，提升首屏加载速度
+         * 3. 服务端渲染时不会执行（'use client' 标记）
+         */
+        const [{ Terminal }, { FitAddon }, { WebLinksAddon }, { WebglAddon }, { SearchAddon }] =
+          await Promise.all([
+            import('xterm'),
+            import('xterm-addon-fit'),
+            import('xterm-addon-web-links'),
+            import('xterm-addon-webgl'),
+            import('xterm-addon-search'),
+          ]);
+
+        // 确保：1. 组件仍处于挂载状态  2. DOM 已挂载
+        if (disposed || !terminalRef.current) return;
+
+        /**
+         * 创建 xterm.js 终端实例
+         * 这是终端模拟器的核心对象，负责所有终端行为
+         */
+        instance = new Terminal({
+          // 使用等宽字体确保字符对齐（终端必须）
+          fontFamily: '"Cascadia Code", Menlo, monospace',
+          fontSize: 13,
+          // 将 \n 转换为 \r\n，确保换行一致
+          convertEol: true,
+          cursorBlink: true,
+          // 历史缓冲区行数，来自设置
+          scrollback: useSettingsStore.getState().terminalScrollback,
+          // 输入时自动滚动到底部
+          scrollOnUserInput: true,
+          // 粗体文本使用亮色（粗体 = 高亮）
+          drawBoldTextInBrightColors: true,
+          // 任务终端只展示安装和启动命令的输出，不接收用户输入
+          disableStdin: session.kind === 'task',
+          theme: terminalTheme,
+        });
+
+        fitAddon.current = new FitAddon();
+        searchAddon.current = new SearchAddon();
+
+        /**
+         * WebGL 渲染插件（GPU 加速）
+         * GPU 上下文丢失时释放插件，xterm.js 会自动回退到 DOM 渲染
+         */
+        const webglAddon = new WebglAddon();
+        webglAddon.onContextLoss(() => webglAddon.dispose());
+
+        // 插件随终端实例一起在 dispose() 时释放
+        instance.loadAddon(fitAddon.current);
+        instance.loadAddon(searchAddon.current);
+        instance.loadAddon(new WebLinksAddon());
+        instance.loadAddon(webglAddon);
+
+        // Ctrl/Cmd + F 打开搜索框，不传给 Shell
+        instance.attachCustomKeyEventHandler((event) => {
+          if (event.type === 'keydown' && (event.ctrlKey || event.metaKey) && event.key === 'f') {
+            setSearchVisible(true);
+
+            return false;
+          }
+
+          return true;
+        });
+
+        // 挂载到 DOM 后才能计算尺寸
+        instance.open(terminalRef.current);
+        terminal.current = instance;
+        fitAddon.current.fit();
+
+        window.addEventListener('resize', handleWindowResize);
+
+        /**
+         * ========== 任务终端：自动执行启动命令 ==========
+         *
+         * 通过 WebContainer.spawn() 依次执行安装和启动命令,
+         * 命令输出只显示在任务终端,不与 jsh 会话的输出混在一起
+         */
+        if (session.kind === 'task') {
+          await executeAutoCommands(
+            webContainerInstance,
+            instance,
+            useBootStore.getState().bootConfig ?? EMPTY_BOOT_CONFIG,
+            matcher.write,
+            {
+              isDisposed: () => disposed,
+              onSpawn: (process) => tasks.current.push(process),
+            },
+          );
+
+          return;
+        }
+
+        /**
+         * ========== 启动 WebContainer 中的 Shell 进程 ==========
+         *
+         * 'jsh': WebContainer 提供的内置 Shell，支持 cd、ls、npm、node 等命令
+         * 传入终端尺寸，Shell 据此换行，vim、top 等命令也依赖尺寸信息
+         */
+        const process = await webContainerInstance.spawn('jsh', {
+          terminal: {
+            cols: instance.cols,
+            rows: instance.rows,
+          },
+        });
+
+        // 等待 spawn 期间组件已卸载，直接结束刚创建的进程
+        if (disposed) {
+          process.kill();
+
+          return;
+        }
+
+        shell.current = process;
+
+        // 输出流：Shell → 终端
+        process.output.pipeTo(
+          new WritableStream({
+            write(data) {
+              terminal.current?.write(data);
+              matcher.write(data);
+            },
+          }),
+        );
+
+        // 输入流：终端 → Shell
+        const input = process.input.getWriter();
+
+        instance.onData((data) => {
+          // 回车表示开始执行新命令，清空上一条命令产生的问题
+          data.includes('\r') && matcher.reset();
+          input.write(data);
+        });
+      })();
+
+      /**
+       * ========== Cleanup 函数 ==========
+       *
+       * 执行时机：
+       * 1. 组件卸载时（用户离开页面或关闭该会话）
+       * 2. 依赖项 webContainerInstance 变化前（重新初始化前）
+       *
+       * 只释放本窗格创建的资源，不触碰 WebContainer 文件系统
+       */
+      return () => {
+        disposed = true;
+
+        window.removeEventListener('resize', handleWindowResize);
+        useProblemsStore.getState().clearProblems(session.id);
+
+        // 终止 Shell 进程
+        shell.current?.kill();
+        shell.current = null;
+
+        // 终止任务终端启动的进程
+        tasks.current.forEach((process) => process.kill());
+        tasks.current = [];
+
+        // 释放 xterm.js 实例及其加载的所有插件（包括 WebGL 上下文）
+        instance?.dispose();
+        terminal.current = null;
+        fitAddon.current = null;
+        searchAddon.current = null;
+      };
+    }, [webContainerInstance]);
+
+    // 设置页修改 scrollback 后同步到已创建的终端
+    useEffect(() => {
+      if (terminal.current) terminal.current.options.scrollback = scrollback;
+    }, [scrollback]);
+
+    // 复制选中文本，没有选中时复制全部输出
+    const handleCopy = async () => {
+      if (!terminal.current) return;
+
+      try {
+        await navigator.clipboard.writeText(
+          terminal.current.getSelection() || getTerminalOutput(terminal.current),
+        );
+      } catch (error) {
+        console.error('复制终端输出失败:', error);
+      }
+    };
+
+    const handleClear = () => {
+      terminal.current?.clear();
+      terminal.current?.focus();
+    };
+
+    // 将终端输出保存为本地日志文件
+    const handleSaveOutput = () => {
+      if (!terminal.current) return;
+
+      const blob = new Blob([getTerminalOutput(terminal.current)], { type: 'text/plain' });
+      const url = window.URL.createObjectURL(blob);
+
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${session.name}.log`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    };
+
+    return (
+      <div className="group relative h-full">
+        <div className="h-full" ref={terminalRef} />
+        <div className="absolute top-1 right-3 z-10 flex flex-col items-end gap-y-1">
+          <div className="hidden group-hover:flex items-center gap-x-2 px-2 py-1 rounded bg-[#252526]/90 text-[13px] text-[#cacfd7]">
+            <VscSearch
+              title="Find"
+              className="cursor-pointer hover:text-white"
+              onClick={() => setSearchVisible(true)}
+            />
+            <VscCopy
+              title="Copy"
+              className="cursor-pointer hover:text-white"
+              onClick={handleCopy}
+            />
+            <VscClearAll
+              title="Clear"
+              className="cursor-pointer hover:text-white"
+              onClick={handleClear}
+            />
+            <VscSave
+              title="Save output to file"
+              className="cursor-pointer hover:text-white"
+              onClick={handleSaveOutput}
+            />
+          </div>
+          {searchVisible && (
+            <SearchBar
+              searchAddon={searchAddon.current}
+              onClose={() => {
+                setSearchVisible(false);
+                terminal.current?.focus();
+              }}
+            />
+          )}
+        </div>
+      </div>
+    );
+  },
+);
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import type { SearchAddon } from 'xterm-addon-search';
+import { VscArrowDown, VscArrowUp, VscClose, VscCaseSensitive, VscRegex } from 'react-icons/vsc';
+
+import { cn } from '@/utils';
+
+interface SearchBarProps {
+  searchAddon: SearchAddon | null;
+  onClose: () => void;
+}
+
+// 终端输出搜索框：Enter 查找下一个，Shift+Enter 查找上一个，Escape 关闭
+export const SearchBar: React.FC<SearchBarProps> = ({ searchAddon, onClose }) => {
+  const [term, setTerm] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [regex, setRegex] = useState(false);
+
+  const find = (direction: 'next' | 'previous', value: string = term) => {
+    if (!searchAddon || !value) return;
+
+    const options = { caseSensitive, regex };
+
+    direction === 'next'
+      ? searchAddon.findNext(value, options)
+      : searchAddon.findPrevious(value, options);
+  };
+
+  const handleClose = () => {
+    searchAddon?.clearDecorations();
+    onClose();
+  };
+
+  const toggleClass = (active: boolean) =>
+    cn('cursor-pointer hover:text-white', active && 'text-white bg-white/20 rounded-sm');
+
+  return (
+    <div className="flex items-center gap-x-1 px-2 py-1 bg-[#252526] border border-white/10 shadow-md text-[12px] text-[#cacfd7]">
+      <input
+        autoFocus
+        value={term}
+        placeholder="Find"
+        onChange={(e) => {
+          setTerm(e.target.value);
+          find('next', e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            find(e.shiftKey ? 'previous' : 'next');
+          } else if (e.key === 'Escape') {
+            handleClose();
+          }
+        }}
+        className="w-40 px-1 border-[0.5px] border-[#3f85f5] focus:outline-none bg-transparent/30 font-[300]"
+      />
+      <VscCaseSensitive
+        className={toggleClass(caseSensitive)}
+        onClick={() => setCaseSensitive((pre) => !pre)}
+      />
+      <VscRegex className={toggleClass(regex)} onClick={() => setRegex((pre) => !pre)} />
+      <VscArrowUp className="cursor-pointer hover:text-white" onClick={() => find('previous')} />
+      <VscArrowDown className="cursor-pointer hover:text-white" onClick={() => find('next')} />
+      <VscClose className="cursor-pointer hover:text-white" onClick={handleClose} />
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+
+import { useTerminalStore } from '@/store/terminalStore';
+
+interface SessionTitleProps {
+  id: string;
+  name: string;
+}
+
+// 终端会话名称，双击后可重命名
+export const SessionTitle: React.FC<SessionTitleProps> = ({ id, name }) => {
+  const { renameTerminal } = useTerminalStore();
+  const [editing, setEditing] = useState(false);
+
+  if (!editing) {
+    return (
+      <span className="truncate cursor-text" onDoubleClick={() => setEditing(true)}>
+        {name}
+      </span>
+    );
+  }
+
+  return (
+    <input
+      autoFocus
+      defaultValue={name}
+      onKeyUp={(e) => {
+        if (e.key === 'Enter') {
+          renameTerminal(id, e.currentTarget.value);
+          setEditing(false);
+        } else if (e.key === 'Escape') {
+          setEditing(false);
+        }
+      }}
+      onBlur={(e) => {
+        renameTerminal(id, e.target.value);
+        setEditing(false);
+      }}
+      className="w-24 px-1 border-[0.5px] border-[#3f85f5] focus:outline-none bg-transparent/30 text-[12px] font-[300]"
+    />
+  );
+};
@@ -1,13 +1,15 @@
 import React, { Fragment, useEffect } from 'react';
 
 import { useWebContainerStore } from '@/store/webContainerStore';
+import useFileSystemWatcher from '@/hooks/useFileSystemWatcher';
 
 interface WebContainerProviderProps {
   projectId: string;
 }
 
 const WebContainerProvider: React.FC<WebContainerProviderProps> = ({ projectId }) => {
-  const { initWebContainer, setInitialized } = useWebContainerStore();
+  const { initWebContainer, setInitialized, webContainerInstance, isInitialized } =
+    useWebContainerStore();
   useEffect(() => {
     initWebContainer(projectId);
 
@@ -16,6 +18,8 @@ const WebContainerProvider: React.FC<WebContainerProviderProps> = ({ projectId }
     };
   }, [projectId]);
 
+  useFileSystemWatcher(isInitialized ? webContainerInstance : null);
+
   return <Fragment></Fragment>;
 };
 
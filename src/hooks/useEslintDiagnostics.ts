@@ -0,0 +1,153 @@
+import { useEffect } from 'react';
+import monacoForType, { editor } from 'monaco-editor';
+
+import { useActiveModelStore, useMonacoStore } from '@/store/editorStore';
+import { useBootStore } from '@/store/bootStore';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { useLintStore } from '@/store/lintStore';
+import {
+  LINTABLE_LANGUAGES,
+  LINT_MARKER_OWNER,
+  LintMessage,
+  getLintCodeActions,
+  isLintableFile,
+  isSubPath,
+  relativePath,
+  toLintMarkers,
+} from '@/utils';
+
+// 停止输入一段时间后再检查
+const LINT_DELAY = 500;
+
+// 最近一次检查的结果，以 model 的 uri 为 key，快速修复从这里读取
+const lintResults = new Map<
+  string,
+  { model: editor.ITextModel; versionId: number; messages: LintMessage[] }
+>();
+
+interface LintTarget {
+  model: editor.ITextModel;
+  path: string;
+}
+
+// 清除 model 的检查结果和 markers
+function clearLintResult(monaco: typeof monacoForType, model: editor.ITextModel) {
+  lintResults.delete(model.uri.toString());
+  monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, []);
+}
+
+async function lintModel(
+  monaco: typeof monacoForType,
+  { model, path }: LintTarget,
+  cwd: string,
+  isCancelled: () => boolean,
+) {
+  const versionId = model.getVersionId();
+  const messages = await useLintStore
+    .getState()
+    .lintText(relativePath(cwd, path), model.getValue());
+
+  // 检查期间内容发生了变化时放弃这次结果，等待下一次检查；已经不再检查该文件时同样丢弃
+  if (!messages || isCancelled() || model.isDisposed() || model.getVersionId() !== versionId) {
+    return;
+  }
+
+  lintResults.set(model.uri.toString(), { model, versionId, messages });
+  monaco.editor.setModelMarkers(model, LINT_MARKER_OWNER, toLintMarkers(monaco, model, messages));
+}
+
+/**
+ * 使用项目的 ESLint 配置检查编辑器中打开的文件
+ * 依赖安装完成后在 WebContainer 中启动检查服务，当前显示的文件打开时和编辑后重新检查，
+ * 结果显示为 markers，可以自动修复的问题提供快速修复
+ */
+export default function useEslintDiagnostics() {
+  const { monacos } = useMonacoStore();
+  const { activeMap } = useActiveModelStore();
+  const { steps, bootConfig } = useBootStore();
+  const { webContainerInstance } = useWebContainerStore();
+  const { status } = useLintStore();
+  const monaco = monacos.find(Boolean);
+  const installStatus = steps.find(({ id }) => id === 'install')?.status;
+  const cwd = bootConfig?.cwd;
+
+  useEffect(() => {
+    if (!webContainerInstance || !cwd || installStatus !== 'success') return;
+
+    useLintStore.getState().startLintServer(webContainerInstance, cwd);
+
+    return () => useLintStore.getState().stopLintServer();
+  }, [webContainerInstance, cwd, installStatus]);
+
+  useEffect(() => {
+    if (!monaco) return;
+
+    const disposables = LINTABLE_LANGUAGES.map((language) =>
+      monaco.languages.registerCodeActionProvider(language, {
+        provideCodeActions: (model, range) => {
+          const result = lintResults.get(model.uri.toString());
+          const actions = result
+            ? getLintCodeActions(monaco, model, result.versionId, result.messages, range)
+            : [];
+
+          return { actions, dispose: () => {} };
+        },
+      }),
+    );
+
+    // model 销毁后不再保留它的检查结果
+    disposables.push(monaco.editor.onWillDisposeModel((model) => clearLintResult(monaco, model)));
+
+    return () => disposables.forEach((disposable) => disposable.dispose());
+  }, [monaco]);
+
+  useEffect(() => {
+    if (!monaco) return;
+
+    // 检查服务停止或切换项目后，之前的结果都已失效
+    if (!cwd || status !== 'ready') {
+      lintResults.forEach(({ model }) => clearLintResult(monaco, model));
+
+      return;
+    }
+
+    const targets = new Map<editor.ITextModel, LintTarget>();
+    const timers = new Map<editor.ITextModel, ReturnType<typeof setTimeout>>();
+
+    activeMap.forEach((active) => {
+      const model = active?.model?.model;
+      const path = active?.model?.path;
+
+      if (!model || model.isDisposed() || !path || !isLintableFile(path)) return;
+
+      isSubPath(cwd, path) && targets.set(model, { model, path });
+    });
+
+    // 不再显示的文件清除检查结果
+    lintResults.forEach(({ model }) => !targets.has(model) && clearLintResult(monaco, model));
+
+    let cancelled = false;
+    const lint = (target: LintTarget) =>
+      lintModel(monaco, target, cwd, () => cancelled).catch((error) =>
+        console.error('ESLint 检查失败:', error),
+      );
+
+    const listeners = [...targets.values()].map((target) => {
+      lint(target);
+
+      return target.model.onDidChangeContent(() => {
+        clearTimeout(timers.get(target.model));
+        timers.set(
+          target.model,
+          setTimeout(() => lint(target), LINT_DELAY),
+        );
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      listeners.forEach((listener) => listener.dispose());
+      timers.forEach((timer) => clearTimeout(timer));
+    };
+  }, [monaco, cwd, status, activeMap]);
+}
@@ -0,0 +1,62 @@
+import React, { useRef } from 'react';
+import { useDraggable } from '@dnd-kit/core';
+
+import { useMonacoStore } from '@/store/editorStore';
+import { useDragIconStore } from '@/store/dragIconStore';
+import { useExplorerStore } from '@/store/explorerStore';
+import { DirectoryInterface } from '@/types';
+
+/**
+ * 资源管理器中可拖拽的文件或目录
+ * 文件可以拖入编辑器打开，文件和目录都可以拖到其他目录上移动；拖拽选中的节点时一起移动所有选中的节点
+ */
+export default function useExplorerDraggable(entry: DirectoryInterface) {
+  const { monacos } = useMonacoStore();
+  const { dragIconRef } = useDragIconStore();
+  const { selectedIds } = useExplorerStore();
+  const clickClient = useRef({
+    x: 0,
+    y: 0,
+  });
+
+  const { listeners, setNodeRef, transform } = useDraggable({
+    id: entry.id,
+    data: {
+      file: entry,
+      monacos,
+    },
+  });
+
+  if (
+    clickClient.current.x !== 0 &&
+    clickClient.current.y !== 0 &&
+    transform &&
+    transform.x > 10 &&
+    transform.y > 10 &&
+    dragIconRef
+  ) {
+    const count = selectedIds.includes(entry.id) ? selectedIds.length : 1;
+
+    dragIconRef.style.display = 'block';
+    dragIconRef.style.left = `${transform.x + clickClient.current.x + 5}px`;
+    dragIconRef.style.top = `${transform.y + clickClient.current.y + 5}px`;
+    dragIconRef.innerHTML = count > 1 ? `${count} 项` : `${entry.filename}`;
+  }
+
+  return {
+    setNodeRef,
+    listeners,
+    onMouseDown: (e: React.MouseEvent) => {
+      clickClient.current = {
+        x: e.clientX,
+        y: e.clientY,
+      };
+    },
+    resetClickClient: () => {
+      clickClient.current = {
+        x: 0,
+        y: 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { useEffect } from 'react';
+import { WebContainer } from '@webcontainer/api';
+
+import { findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { DirectoryInterface } from '@/types';
+import { useActiveModelStore, useModelsStore } from '@/store/editorStore';
+import { useFileConflictStore } from '@/store/fileConflictStore';
+import { useAutosaveStore } from '@/store/autosaveStore';
+import {
+  collectFiles,
+  diskContentCache,
+  getEntryKind,
+  isSubPath,
+  readEntry,
+  readFileContent,
+  replaceModelValue,
+  watchFileSystem,
+} from '@/utils';
+
+// fs.watch 会把重命名/移动拆成一次删除和一次新增，内容一致时视为同一个节点
+function isSameEntry(removed: DirectoryInterface, added: DirectoryInterface): boolean {
+  if (removed.kind !== added.kind) return false;
+
+  if (added.kind === 'file') {
+    // 内容还没有读取的文件以写入 WebContainer 时的内容比较
+    const removedValue = removed.value ?? diskContentCache.get(removed.path);
+
+    return (removedValue ?? '') === (added.value ?? '');
+  }
+
+  const names = (entry: DirectoryInterface) =>
+    (entry.children || [])
+      .map((child) => child.filename)
+      .sort()
+      .join('/');
+
+  return names(removed) === names(added);
+}
+
+// 沿用旧节点的 id（子节点按文件名匹配），保证移动后打开的 model 仍然指向同一个文件
+function adoptIds(source: DirectoryInterface, target: DirectoryInterface): DirectoryInterface {
+  const children = target.children?.map((child) => {
+    const matched = source.children?.find(
+      (item) => item.filename === child.filename && item.kind === child.kind,
+    );
+
+    return matched ? adoptIds(matched, child) : child;
+  });
+
+  return { ...target, id: source.id, children };
+}
+
+function retargetModels(entry: DirectoryInterface) {
+  const { updateModelInfo } = useModelsStore.getState();
+  const { updateActiveModelInfo } = useActiveModelStore.getState();
+
+  collectFiles([entry]).forEach(({ id, filename, path, value }) => {
+    diskContentCache.set(path, value ?? '');
+    updateModelInfo(id, { filename, path });
+    updateActiveModelInfo(id, { filename, path });
+  });
+}
+
+// 返回文件树中的内容是否被更新
+async function syncFileContent(
+  webContainerInstance: WebContainer,
+  entry: DirectoryInterface,
+): Promise<boolean> {
+  const { value: content, encoding } = await readFileContent(entry.path, webContainerInstance);
+  const baseline = diskContentCache.get(entry.path) ?? entry.value ?? '';
+  diskContentCache.set(entry.path, content);
+
+  // 编辑器自身写入产生的事件
+  if (content === baseline) return false;
+
+  // 二进制文件不能在编辑器中修改，直接使用磁盘内容
+  if (encoding || entry.encoding) {
+    useUploadFileDataStore.getState().updateItem(entry.id, { value: content, encoding });
+
+    return true;
+  }
+
+  const model = useModelsStore.getState().models.find((item) => item.id === entry.id)?.model;
+  // 内容还没有读取的文件不会有未保存的修改
+  const buffer = model ? model.getValue() : entry.value ?? baseline;
+
+  if (buffer !== content && buffer !== baseline) {
+    useFileConflictStore.getState().addConflict({
+      id: entry.id,
+      filename: entry.filename,
+      path: entry.path,
+      diskValue: content,
+    });
+
+    return false;
+  }
+
+  useUploadFileDataStore.getState().updateItem(entry.id, { value: content });
+  model && replaceModelValue(model, content);
+
+  return true;
+}
+
+async function reconcile(webContainerInstance: WebContainer, paths: string[]) {
+  const { fileData, insertItemByPath, removeItemByPath } = useUploadFileDataStore.getState();
+
+  if (!fileData) return;
+
+  const removed: DirectoryInterface[] = [];
+  const added: DirectoryInterface[] = [];
+  let contentChanged = false;
+
+  // 按路径长度排序，父目录先处理，已整体读取/删除的目录下的事件直接跳过
+  for (const path of [...paths].sort((a, b) => a.length - b.length)) {
+    if ([...removed, ...added].some((item) => isSubPath(item.path, path))) continue;
+
+    const entry = findItemByPath(fileData, path);
+    const kind = await getEntryKind(webContainerInstance, path);
+
+    if (entry && entry.kind === kind) {
+      if (kind === 'file') {
+        contentChanged = (await syncFileContent(webContainerInstance, entry)) || contentChanged;
+      }
+
+      continue;
+    }
+
+    entry && removed.push(entry);
+    kind && added.push(await readEntry(webContainerInstance, path, kind));
+  }
+
+  for (const entry of removed) {
+    removeItemByPath(entry.path);
+
+    const index = added.findIndex((item) => isSameEntry(entry, item));
+
+    if (index === -1) {
+      collectFiles([entry]).forEach(({ path }) => diskContentCache.delete(path));
+      continue;
+    }
+
+    const [target] = added.splice(index, 1);
+    const moved = adoptIds(entry, target);
+    insertItemByPath(moved);
+    retargetModels(moved);
+  }
+
+  added.forEach((entry) => {
+    collectFiles([entry]).forEach(({ path, value }) => diskContentCache.set(path, value ?? ''));
+    insertItemByPath(entry);
+  });
+
+  // 外部进程的修改同样立即保存，不依赖其他操作触发的保存
+  if (contentChanged || removed.length > 0 || added.length > 0) {
+    await useAutosaveStore.getState().recordStructureChange();
+  }
+}
+
+/**
+ * 将终端、脚本等外部进程对 WebContainer 文件系统的修改同步回文件树和已打开的 model
+ */
+export default function useFileSystemWatcher(webContainerInstance: WebContainer | null) {
+  useEffect(() => {
+    if (!webContainerInstance) return;
+
+    // 逐批串行处理，避免两批变化同时读写文件树
+    let queue = Promise.resolve();
+
+    const unwatch = watchFileSystem(webContainerInstance, (paths) => {
+      queue = queue
+        .then(() => reconcile(webContainerInstance, paths))
+        .catch((error) => console.error('同步文件变化失败:', error));
+    });
+
+    return unwatch;
+  }, [webContainerInstance]);
+}
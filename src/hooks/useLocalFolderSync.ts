@@ -0,0 +1,21 @@
+import { useEffect } from 'react';
+
+import { useLocalFolderStore } from '@/store/localFolderStore';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+
+/**
+ * 关联本地文件夹的项目，文件树的变化（保存、新建、重命名、删除）会写回本地文件夹
+ */
+export default function useLocalFolderSync(projectId: string) {
+  const { restoreLink, scheduleSync } = useLocalFolderStore();
+
+  useEffect(() => {
+    restoreLink(projectId);
+  }, [projectId]);
+
+  useEffect(() => {
+    return useUploadFileDataStore.subscribe((state, prevState) => {
+      state.fileData !== prevState.fileData && scheduleSync();
+    });
+  }, []);
+}
@@ -0,0 +1,88 @@
+import { useCallback } from 'react';
+import { editor } from 'monaco-editor';
+
+import {
+  useActiveEditorStore,
+  useActiveModelStore,
+  useEditorStore,
+  useModelsStore,
+  useMonacoStore,
+  useSplitStore,
+} from '@/store/editorStore';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { DirectoryInterface } from '@/types';
+import { addNewModel, getFileLanguage, isBinaryFile, isLargeFile } from '@/utils';
+
+export interface OpenFilePosition {
+  lineNumber: number;
+  column: number;
+}
+
+function openLoadedFile(file: DirectoryInterface, position?: OpenFilePosition) {
+  const { editors } = useEditorStore.getState();
+  const { splitState } = useSplitStore.getState();
+  const { activeEditor, activeEditorId } = useActiveEditorStore.getState();
+  const { monacos } = useMonacoStore.getState();
+  const { setActiveModel } = useActiveModelStore.getState();
+  const { models, setModels } = useModelsStore.getState();
+
+  const willChangeEditor = activeEditor ?? editors[splitState.findIndex((item) => item)];
+
+  const willChangeEditorId = activeEditor ? activeEditorId : splitState.findIndex((item) => item);
+
+  const mathModel = models.filter((model) => model.id === file.id);
+
+  if (mathModel.length > 0) {
+    mathModel[0].model && setActiveModel(mathModel[0].id, mathModel[0], willChangeEditorId);
+    mathModel[0].model &&
+      setModels(
+        {
+          filename: mathModel[0].filename,
+          value: '',
+          language: getFileLanguage(mathModel[0].filename),
+          id: file.id,
+        },
+        mathModel[0].model,
+        willChangeEditorId,
+        file.id,
+      );
+    willChangeEditor?.setModel(mathModel[0].model);
+  } else {
+    const monaco = monacos[willChangeEditorId];
+    addNewModel(
+      {
+        ...file,
+        // 二进制文件和大文件在编辑器中显示预览或提示，不把内容放进 model
+        value: isBinaryFile(file) || isLargeFile(file) ? '' : file.value ?? '',
+        language: getFileLanguage(file.filename),
+      },
+      monaco as any,
+      willChangeEditor as editor.IStandaloneCodeEditor,
+      setModels,
+      setActiveModel,
+      willChangeEditorId,
+    );
+  }
+
+  if (position && willChangeEditor) {
+    willChangeEditor.setPosition(position);
+    willChangeEditor.revealPositionInCenter(position);
+    willChangeEditor.focus();
+  }
+}
+
+/**
+ * 在当前活动的编辑器中打开文件，已打开过的文件直接切换到对应的 model
+ * 传入 position 时将光标移动到该位置并滚动到可视区域
+ * 文件内容还没有读取时先读取再打开
+ */
+export default function useOpenFile() {
+  return useCallback(async (file: DirectoryInterface, position?: OpenFilePosition) => {
+    const loaded =
+      file.kind === 'file' && file.value === undefined
+        ? await useUploadFileDataStore.getState().loadFileContent(file.id)
+        : file;
+
+    openLoadedFile(loaded ?? file, position);
+  }, []);
+}
@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import { editor } from 'monaco-editor';
+
+import useOpenFile from '@/hooks/useOpenFile';
+import { useActiveEditorStore, useEditorStore, useSplitStore } from '@/store/editorStore';
+import { DirectoryInterface } from '@/types';
+
+// 等待新分屏的编辑器挂载
+function waitForEditor(index: number): Promise<editor.IStandaloneCodeEditor> {
+  return new Promise((resolve) => {
+    const current = useEditorStore.getState().editors[index];
+
+    if (current) return resolve(current);
+
+    const unsubscribe = useEditorStore.subscribe(({ editors }) => {
+      const mounted = editors[index];
+
+      if (mounted) {
+        unsubscribe();
+        resolve(mounted);
+      }
+    });
+  });
+}
+
+/**
+ * 新建一个分屏并在其中打开文件，分屏已满时在当前活动的编辑器中打开
+ */
+export default function useOpenToSide() {
+  const openFile = useOpenFile();
+
+  return useCallback(
+    async (file: DirectoryInterface) => {
+      const { splitState, addSplit } = useSplitStore.getState();
+      const index = splitState.findIndex((item) => !item);
+
+      if (index !== -1) {
+        addSplit();
+        useActiveEditorStore.getState().setActiveEditor(await waitForEditor(index), index);
+      }
+
+      await openFile(file);
+    },
+    [openFile],
+  );
+}
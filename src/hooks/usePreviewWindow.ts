@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { usePreviewStore } from '@/store/previewStore';
+import { isPreviewBridgeMessage } from '@/utils';
+
+const POPUP_NAME = 'online-edit-preview';
+const POPUP_FEATURES = 'popup,width=1024,height=768';
+
+/**
+ * 预览状态与独立预览窗口的管理
+ * - 预览的服务地址变化时重新开始浏览历史（预览面板分离或折叠时也保持同步）
+ * - detached 时在独立窗口中打开预览，之后跟随导航和刷新；用户关闭窗口后自动回到编辑布局中
+ */
+export default function usePreviewWindow() {
+  const { url } = useWebContainerStore();
+  const { detached, frameUrl, reloadKey, resetHistory, setDetached, receiveBridgeMessage } =
+    usePreviewStore();
+  const popupRef = useRef<Window | null>(null);
+
+  useEffect(() => {
+    resetHistory(url);
+  }, [url]);
+
+  useEffect(() => {
+    if (!detached) {
+      popupRef.current?.close();
+      popupRef.current = null;
+
+      return;
+    }
+
+    const { history, index } = usePreviewStore.getState();
+    const popup = window.open(history[index] || 'about:blank', POPUP_NAME, POPUP_FEATURES);
+
+    // 弹窗被浏览器拦截
+    if (!popup) {
+      console.error('预览窗口打开失败，请允许浏览器弹出窗口');
+      setDetached(false);
+
+      return;
+    }
+
+    popupRef.current = popup;
+
+    // 跨域窗口无法监听 unload，只能轮询是否已关闭
+    const timer = window.setInterval(() => {
+      popup.closed && setDetached(false);
+    }, 500);
+
+    return () => {
+      window.clearInterval(timer);
+    };
+  }, [detached]);
+
+  // 导航、前进后退和刷新都会更新 frameUrl / reloadKey，同步到独立窗口
+  useEffect(() => {
+    const popup = popupRef.current;
+
+    if (!popup || popup.closed || !frameUrl) return;
+
+    popup.location.href = frameUrl;
+  }, [frameUrl, reloadKey]);
+
+  // 独立窗口中的桥接脚本通过 opener 发送消息
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (!popupRef.current || event.source !== popupRef.current) return;
+      if (!isPreviewBridgeMessage(event.data)) return;
+
+      receiveBridgeMessage(event.data);
+    };
+
+    window.addEventListener('message', handleMessage);
+
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      popupRef.current?.close();
+      popupRef.current = null;
+      setDetached(false);
+    };
+  }, []);
+}
@@ -0,0 +1,52 @@
+import { useEffect } from 'react';
+
+import { useModelsStore, useMonacoStore } from '@/store/editorStore';
+import { useProblemsStore } from '@/store/problemsStore';
+import { PROBLEM_SOURCES, ProblemSeverity } from '@/utils';
+
+/**
+ * 将问题面板中的问题同步为 Monaco markers
+ * 问题或已打开的 model 变化时重新设置，每种来源使用独立的 owner，互不覆盖
+ */
+export default function useProblemMarkers() {
+  const { problems } = useProblemsStore();
+  const { models } = useModelsStore();
+  const { monacos } = useMonacoStore();
+
+  useEffect(() => {
+    const monaco = monacos.find(Boolean);
+
+    if (!monaco) return;
+
+    const severityMap: Record<ProblemSeverity, number> = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+
+    models.forEach(({ id, model }) => {
+      if (!model || model.isDisposed()) return;
+
+      PROBLEM_SOURCES.forEach((source) => {
+        const markers = problems
+          .filter((problem) => problem.fileId === id && problem.source === source)
+          .map((problem) => {
+            const lineNumber = Math.min(Math.max(problem.line, 1), model.getLineCount());
+
+            return {
+              severity: severityMap[problem.severity],
+              message: problem.message,
+              code: problem.code,
+              source: problem.source,
+              startLineNumber: lineNumber,
+              startColumn: problem.column,
+              endLineNumber: lineNumber,
+              endColumn: model.getLineMaxColumn(lineNumber),
+            };
+          });
+
+        monaco.editor.setModelMarkers(model, source, markers);
+      });
+    });
+  }, [problems, models, monacos]);
+}
@@ -0,0 +1,164 @@
+import { useEffect } from 'react';
+import monacoForType from 'monaco-editor';
+
+import { useModelsStore, useMonacoStore } from '@/store/editorStore';
+import { findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useBootStore } from '@/store/bootStore';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { DirectoryInterface } from '@/types';
+import {
+  DEFAULT_COMPILER_OPTIONS,
+  getProjectLib,
+  isBinaryFile,
+  isLargeFile,
+  isTypeScriptSource,
+  joinPath,
+  readNodeContent,
+  readNodeModulesTypes,
+  readTsConfig,
+  setTypeLibs,
+  syncProjectLibs,
+  toCompilerOptions,
+} from '@/utils';
+
+// 停止编辑一段时间后再同步，避免每次输入都更新语言服务
+const SYNC_DELAY = 500;
+
+// 最近一次设置的编译选项，内容不变时不重复设置，避免语言服务重新检查所有文件
+let appliedCompilerOptions = '';
+
+function collectSourceFiles(nodes: DirectoryInterface[]): DirectoryInterface[] {
+  return nodes.flatMap((node) => {
+    if (node.kind === 'directory') {
+      return node.filename === 'node_modules' ? [] : collectSourceFiles(node.children ?? []);
+    }
+
+    return isTypeScriptSource(node.path) && !isBinaryFile(node) && !isLargeFile(node) ? [node] : [];
+  });
+}
+
+// 项目的根目录，package.json 和 tsconfig.json 所在的目录
+function getProjectRoot(fileData: DirectoryInterface[]): string {
+  return useBootStore.getState().bootConfig?.cwd ?? fileData[0]?.path ?? '/';
+}
+
+async function readProjectFile(path: string): Promise<string | undefined> {
+  const { projectId, fileData } = useUploadFileDataStore.getState();
+  const node = findItemByPath(fileData ?? [], path);
+
+  return node?.kind === 'file' ? (await readNodeContent(projectId, node)).value : undefined;
+}
+
+/**
+ * 同步项目文件到语言服务
+ * 已打开的文件由 model 提供内容，不重复注册；
+ * 关闭后仍保留的 model 内容过期时销毁，避免遮住最新的文件内容
+ */
+async function syncProjectFiles(monaco: typeof monacoForType, fileData: DirectoryInterface[]) {
+  const { projectId } = useUploadFileDataStore.getState();
+  const openIds = new Set(useModelsStore.getState().models.map(({ id }) => id));
+  const files = collectSourceFiles(fileData).filter(({ id }) => !openIds.has(id));
+  const sources = await Promise.all(
+    files.map(async (file) => ({
+      path: file.path,
+      value:
+        file.value ?? getProjectLib(file.path) ?? (await readNodeContent(projectId, file)).value,
+    })),
+  );
+
+  sources.forEach(({ path, value }) => {
+    const model = monaco.editor.getModel(monaco.Uri.file(path));
+
+    model && model.getValue() !== value && model.dispose();
+  });
+  syncProjectLibs(monaco, sources);
+}
+
+async function syncCompilerOptions(monaco: typeof monacoForType, root: string) {
+  const { typescriptDefaults, javascriptDefaults } = monaco.languages.typescript;
+  let compilerOptions = DEFAULT_COMPILER_OPTIONS;
+
+  try {
+    const config =
+      (await readTsConfig(joinPath(root, 'tsconfig.json'), readProjectFile)) ??
+      (await readTsConfig(joinPath(root, 'jsconfig.json'), readProjectFile));
+
+    config && (compilerOptions = toCompilerOptions(monaco, config, root));
+  } catch (error) {
+    console.error('解析 tsconfig.json 失败:', error);
+  }
+
+  // model 的路径没有限制扩展名，需要允许非 TypeScript 扩展名的文件
+  const options = { ...compilerOptions, allowNonTsExtensions: true };
+  const serialized = JSON.stringify(options);
+
+  if (serialized === appliedCompilerOptions) return;
+
+  appliedCompilerOptions = serialized;
+  typescriptDefaults.setCompilerOptions(options);
+  javascriptDefaults.setCompilerOptions({ ...options, allowJs: true });
+}
+
+async function loadDependencyTypes(
+  monaco: typeof monacoForType,
+  root: string,
+  isCancelled: () => boolean,
+) {
+  const { webContainerInstance } = useWebContainerStore.getState();
+
+  if (!webContainerInstance) return;
+
+  try {
+    const packageJson = await readProjectFile(joinPath(root, 'package.json'));
+
+    if (!packageJson) return;
+
+    const { dependencies, devDependencies, peerDependencies } = JSON.parse(packageJson);
+    const names = Object.keys({ ...peerDependencies, ...devDependencies, ...dependencies });
+    const files = await readNodeModulesTypes(webContainerInstance, root, names);
+
+    !isCancelled() && setTypeLibs(monaco, files);
+  } catch (error) {
+    console.error('读取依赖的类型声明失败:', error);
+  }
+}
+
+/**
+ * 为 TypeScript 语言服务提供项目上下文
+ * 项目文件变化后增量同步，tsconfig.json 变化后更新编译选项，依赖安装完成后读取 node_modules 中的类型声明
+ */
+export default function useTypeScriptProject() {
+  const { monacos } = useMonacoStore();
+  const { models } = useModelsStore();
+  const { fileData } = useUploadFileDataStore();
+  const { steps } = useBootStore();
+  const { webContainerInstance } = useWebContainerStore();
+  const monaco = monacos.find(Boolean);
+  const installStatus = steps.find(({ id }) => id === 'install')?.status;
+
+  useEffect(() => {
+    if (!monaco || !fileData) return;
+
+    const timer = setTimeout(() => {
+      syncProjectFiles(monaco, fileData).catch((error) =>
+        console.error('同步项目文件到语言服务失败:', error),
+      );
+      syncCompilerOptions(monaco, getProjectRoot(fileData));
+    }, SYNC_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [monaco, fileData, models]);
+
+  useEffect(() => {
+    const { fileData } = useUploadFileDataStore.getState();
+    let cancelled = false;
+
+    if (!monaco || !webContainerInstance || !fileData || installStatus !== 'success') return;
+
+    loadDependencyTypes(monaco, getProjectRoot(fileData), () => cancelled);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [monaco, webContainerInstance, installStatus]);
+}
@@ -0,0 +1,111 @@
+import { create } from 'zustand';
+
+import debounce from '@/utils/debounce';
+import { JournalEntry, removeJournalEntries, writeJournalEntries } from '@/utils/journal';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+
+export type SaveStatus = 'saved' | 'saving' | 'unsaved';
+
+// 编辑停止后多久写入预写日志 / 合并进项目记录
+const JOURNAL_DELAY = 300;
+const COMMIT_DELAY = 1500;
+
+// 尚未写入日志的修改
+const pendingEntries = new Map<string, JournalEntry>();
+// 已写入日志、尚未合并进项目记录的修改
+const journaledEntries = new Map<string, JournalEntry>();
+
+interface AutosaveState {
+  projectId: string;
+  status: SaveStatus;
+  lastSavedAt: number | null;
+}
+
+interface AutosaveActions {
+  initAutosave: (projectId: string) => void;
+  recordChange: (id: string, path: string, value: string) => void;
+  recordStructureChange: () => Promise<void>;
+  flush: () => Promise<void>;
+}
+
+export const useAutosaveStore = create<AutosaveState & AutosaveActions>((set, get) => {
+  const writeJournal = async () => {
+    const { projectId } = get();
+    const entries = [...pendingEntries.values()];
+    pendingEntries.clear();
+
+    if (!projectId || entries.length === 0) return;
+
+    await writeJournalEntries(projectId, entries);
+    entries.forEach((entry) => journaledEntries.set(entry.id, entry));
+  };
+
+  const scheduleJournal = debounce(() => {
+    writeJournal().catch((error) => console.error('写入自动保存日志失败:', error));
+  }, JOURNAL_DELAY);
+
+  const scheduleCommit = debounce(() => {
+    get().flush();
+  }, COMMIT_DELAY);
+
+  return {
+    projectId: '',
+    status: 'saved',
+    lastSavedAt: null,
+
+    initAutosave: (projectId: string) => {
+      pendingEntries.clear();
+      journaledEntries.clear();
+      set({ projectId, status: 'saved', lastSavedAt: null });
+    },
+
+    /**
+     * 记录一次文件修改
+     * @param id 文件 id
+     * @param path 文件路径
+     * @param value 修改后的完整内容
+     */
+    recordChange: (id: string, path: string, value: string) => {
+      pendingEntries.set(id, { id, path, value, updatedAt: Date.now() });
+      set({ status: 'unsaved' });
+      scheduleJournal();
+      scheduleCommit();
+    },
+
+    /**
+     * 记录新建、删除、重命名、移动、粘贴等改变文件树结构的操作
+     * 文件树只保存在项目记录中，不经过日志，操作完成后立即合并进项目记录
+     */
+    recordStructureChange: async () => {
+      if (!get().projectId) return;
+
+      set({ status: 'unsaved' });
+      await get().flush();
+    },
+
+    // 立即把所有修改写入日志并合并进项目记录
+    flush: async () => {
+      const { projectId } = get();
+
+      if (!projectId) return;
+
+      set({ status: 'saving' });
+
+      try {
+        await writeJournal();
+
+        const committed = [...journaledEntries.values()];
+        await useUploadFileDataStore.getState().persistFileData(projectId);
+        await removeJournalEntries(projectId, committed);
+        committed.forEach((entry) => {
+          if (journaledEntries.get(entry.id) === entry) journaledEntries.delete(entry.id);
+        });
+
+        set({ status: pendingEntries.size > 0 ? 'unsaved' : 'saved', lastSavedAt: Date.now() });
+      } catch (error) {
+        console.error('自动保存失败:', error);
+        set({ status: 'unsaved' });
+      }
+    },
+  };
+});
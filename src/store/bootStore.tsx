@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import localforage from 'localforage';
+
+import { BootConfig, detectBootConfig } from '@/utils/bootConfig';
+import { loadProjectFileData } from '@/store/uploadFileDataStore';
+
+export type BootStepId = 'boot' | 'mount' | 'install' | 'start';
+export type BootStepStatus = 'pending' | 'running' | 'success' | 'error' | 'skipped';
+
+export interface BootStep {
+  id: BootStepId;
+  title: string;
+  status: BootStepStatus;
+}
+
+const initialSteps: BootStep[] = [
+  { id: 'boot', title: 'Booting WebContainer', status: 'pending' },
+  { id: 'mount', title: 'Mounting project files', status: 'pending' },
+  { id: 'install', title: 'Installing dependencies', status: 'pending' },
+  { id: 'start', title: 'Starting dev server', status: 'pending' },
+];
+
+interface BootState {
+  bootConfig: BootConfig | null;
+  steps: BootStep[];
+}
+
+interface BootActions {
+  loadBootConfig: (projectId: string) => Promise<BootConfig>;
+  saveBootConfig: (projectId: string, bootConfig: BootConfig) => Promise<void>;
+  setStepStatus: (id: BootStepId, status: BootStepStatus) => void;
+  resetSteps: () => void;
+}
+
+export const useBootStore = create<BootState & BootActions>((set) => ({
+  bootConfig: null,
+  steps: initialSteps,
+
+  /**
+   * 读取项目的启动配置
+   * 项目记录中保存过配置时直接使用，否则根据 package.json 和锁文件推断
+   */
+  loadBootConfig: async (projectId: string) => {
+    const storedData = await localforage.getItem(projectId);
+    const storedConfig: BootConfig | undefined =
+      storedData && JSON.parse(storedData as string).bootConfig;
+
+    const bootConfig =
+      storedConfig ??
+      (await detectBootConfig(projectId, (await loadProjectFileData(projectId)).projectFileData));
+    set({ bootConfig });
+
+    return bootConfig;
+  },
+
+  saveBootConfig: async (projectId: string, bootConfig: BootConfig) => {
+    const storedData = await localforage.getItem(projectId);
+
+    if (storedData) {
+      await localforage.setItem(
+        projectId,
+        JSON.stringify({ ...JSON.parse(storedData as string), bootConfig }),
+      );
+    }
+
+    set({ bootConfig });
+  },
+
+  setStepStatus: (id: BootStepId, status: BootStepStatus) =>
+    set((state) => ({
+      steps: state.steps.map((step) => (step.id === id ? { ...step, status } : step)),
+    })),
+
+  resetSteps: () => set({ steps: initialSteps }),
+}));
@@ -0,0 +1,95 @@
+import { create } from 'zustand';
+
+import debounce from '@/utils/debounce';
+import { writeFile } from '@/utils/webcontainer';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { useSettingsStore } from '@/store/settingsStore';
+
+// KeyStroke 模式下停止输入多久后批量写入
+const KEYSTROKE_SYNC_DELAY = 800;
+
+// 已编辑但还没写入 WebContainer 的文件内容，以文件 id 为 key
+const pendingWrites = new Map<string, { path: string; value: string }>();
+
+interface ContainerSyncState {
+  // 尚未同步到 WebContainer 的文件 id
+  dirtyIds: string[];
+}
+
+interface ContainerSyncActions {
+  queueWrite: (id: string, path: string, value: string) => void;
+  syncFile: (id: string) => Promise<void>;
+  syncAll: () => Promise<void>;
+  discardWrite: (id: string) => void;
+  retargetWrite: (id: string, path: string) => void;
+}
+
+export const useContainerSyncStore = create<ContainerSyncState & ContainerSyncActions>(
+  (set, get) => {
+    const scheduleSync = debounce(() => {
+      get().syncAll();
+    }, KEYSTROKE_SYNC_DELAY);
+
+    return {
+      dirtyIds: [],
+
+      /**
+       * 根据 Compile trigger 设置决定编辑内容何时写入 WebContainer
+       * - auto: 立即写入
+       * - keystroke: 停止输入后批量写入
+       * - save: 等待 Ctrl+S
+       */
+      queueWrite: (id: string, path: string, value: string) => {
+        pendingWrites.set(id, { path, value });
+
+        const { compileTrigger } = useSettingsStore.getState();
+
+        if (compileTrigger === 'auto') {
+          get().syncFile(id);
+
+          return;
+        }
+
+        set((state) => ({
+          dirtyIds: state.dirtyIds.includes(id) ? state.dirtyIds : [...state.dirtyIds, id],
+        }));
+
+        if (compileTrigger === 'keystroke') scheduleSync();
+      },
+
+      syncFile: async (id: string) => {
+        const pending = pendingWrites.get(id);
+        const { webContainerInstance } = useWebContainerStore.getState();
+
+        if (!pending || !webContainerInstance) return;
+
+        pendingWrites.delete(id);
+        set((state) => ({ dirtyIds: state.dirtyIds.filter((item) => item !== id) }));
+
+        try {
+          // ⭐ 写入 WebContainer 虚拟文件系统，触发 HMR
+          await writeFile(pending.path, pending.value, webContainerInstance);
+        } catch (error) {
+          console.error('同步文件到 WebContainer 失败:', error);
+        }
+      },
+
+      syncAll: async () => {
+        await Promise.all([...pendingWrites.keys()].map((id) => get().syncFile(id)));
+      },
+
+      // 文件被删除或放弃修改时丢弃待写入的内容
+      discardWrite: (id: string) => {
+        pendingWrites.delete(id);
+        set((state) => ({ dirtyIds: state.dirtyIds.filter((item) => item !== id) }));
+      },
+
+      // 文件被移动后，待写入的内容写到新的路径
+      retargetWrite: (id: string, path: string) => {
+        const pending = pendingWrites.get(id);
+
+        pending && pendingWrites.set(id, { ...pending, path });
+      },
+    };
+  },
+);
@@ -77,9 +77,12 @@ export type modelInfoType = {
   language: string;
   value: string;
   id: string;
+  path?: string;
 };
 
 export type modelType = modelInfoType & { model: editor.ITextModel; usedBy: number[] };
+// 文件被重命名/移动后需要更新的信息，路径变化时 model 会按新路径重新创建
+export type modelUpdateType = Partial<modelInfoType & { model: editor.ITextModel }>;
 export type modelsType = modelType[];
 
 interface ModelsState {
@@ -94,6 +97,7 @@ interface ModelsAction {
   ) => void;
   removeModel: (id: string, editorId: number) => any;
   removeAllModel: (editorId: number) => void;
+  updateModelInfo: (id: string, modelInfo: modelUpdateType) => void;
 }
 export const useModelsStore = create<ModelsState & ModelsAction>((set, get) => ({
   models: [],
@@ -191,6 +195,12 @@ export const useModelsStore = create<ModelsState & ModelsAction>((set, get) => (
       };
     });
   },
+  // 文件被重命名/移动后同步 model 上记录的文件名与路径
+  updateModelInfo: (id: string, modelInfo: modelUpdateType) => {
+    set((state) => ({
+      models: state.models.map((model) => (model.id === id ? { ...model, ...modelInfo } : model)),
+    }));
+  },
 }));
 
 // modelId原为model对应文件名，为满足打开多个同名文件修改为对应文件的uuid
@@ -201,6 +211,7 @@ interface activeModelState {
 interface activeModelAction {
   setActiveModel: (modelId: string, model: modelType, editorId: number) => void;
   clearActiveModel: (editorId: number) => void;
+  updateActiveModelInfo: (modelId: string, modelInfo: modelUpdateType) => void;
 }
 
 export const useActiveModelStore = create<activeModelState & activeModelAction>((set) => ({
@@ -220,6 +231,15 @@ export const useActiveModelStore = create<activeModelState & activeModelAction>(
 
       return { activeMap: preActiveMap };
     }),
+
+  updateActiveModelInfo: (modelId: string, modelInfo: modelUpdateType) =>
+    set((state) => ({
+      activeMap: state.activeMap.map((active) =>
+        active && active.modelId === modelId && active.model
+          ? { modelId, model: { ...active.model, ...modelInfo } }
+          : active,
+      ),
+    })),
 }));
 interface splitState {
   splitState: boolean[];
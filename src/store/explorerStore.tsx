@@ -0,0 +1,576 @@
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+
+import { basename, dirname, isSubPath, joinPath } from '@/utils/path';
+import { createDir, diskContentCache, rm, writeDirByLocal } from '@/utils/webcontainer';
+import { withFileContents } from '@/utils/fileContents';
+import { collectFiles } from '@/utils/vfs';
+import { PathChange, isImportTarget, isScriptFile, updateImportPaths } from '@/utils/importPaths';
+import { getFileLanguage } from '@/utils/file';
+import { moveModel, replaceModelValue } from '@/utils/editor';
+import Zip from '@/utils/zip';
+import { findItemById, findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { useContainerSyncStore } from '@/store/containerSyncStore';
+import { useTrashStore } from '@/store/trashStore';
+import { useAutosaveStore } from '@/store/autosaveStore';
+import {
+  useActiveModelStore,
+  useEditorStore,
+  useModelsStore,
+  useMonacoStore,
+  useSplitStore,
+} from '@/store/editorStore';
+import { DirectoryInterface } from '@/types';
+
+export type ClipboardMode = 'copy' | 'cut';
+
+interface ExplorerState {
+  // 资源管理器中选中的节点 id，按选中顺序排列
+  selectedIds: string[];
+  // shift 多选的起点
+  anchorId: string;
+  clipboard: { mode: ClipboardMode; paths: string[] } | null;
+  // 展开的目录 id
+  expandedIds: string[];
+  // 需要滚动到可视区域的节点 id，文件树滚动后清空
+  revealId: string;
+}
+
+interface ExplorerActions {
+  setSelection: (ids: string[], anchorId?: string) => void;
+  copySelection: (mode: ClipboardMode) => void;
+  paste: () => Promise<void>;
+  duplicateSelection: () => Promise<void>;
+  deleteSelection: () => Promise<void>;
+  deleteEntries: (paths: string[]) => Promise<void>;
+  restoreEntries: (trashIds: string[]) => Promise<void>;
+  moveEntries: (paths: string[], targetPath: string) => Promise<void>;
+  renameEntry: (path: string, filename: string) => Promise<void>;
+  toggleExpanded: (id: string) => void;
+  expand: (ids: string[]) => void;
+  collapseAll: () => void;
+  revealPath: (path: string) => void;
+  clearReveal: () => void;
+  downloadEntry: (path: string) => Promise<void>;
+}
+
+// 按路径找到节点，祖先目录也在列表中的节点随祖先一起处理，不再单独处理
+function getTopLevelEntries(paths: string[]): DirectoryInterface[] {
+  const { fileData } = useUploadFileDataStore.getState();
+
+  return paths
+    .filter((path) => !paths.some((other) => isSubPath(other, path)))
+    .map((path) => findItemByPath(fileData ?? [], path))
+    .filter((entry): entry is DirectoryInterface => !!entry);
+}
+
+function getChildren(directoryPath: string): DirectoryInterface[] {
+  const { fileData } = useUploadFileDataStore.getState();
+
+  return findItemByPath(fileData ?? [], directoryPath)?.children ?? [];
+}
+
+// 与目标目录中已有的文件重名时依次使用 a copy.ts、a copy 2.ts……
+function getCopyName(directoryPath: string, filename: string): string {
+  const names = new Set(getChildren(directoryPath).map((item) => item.filename));
+
+  if (!names.has(filename)) return filename;
+
+  const index = filename.lastIndexOf('.');
+  const [name, extension] =
+    index > 0 ? [filename.slice(0, index), filename.slice(index)] : [filename, ''];
+
+  for (let count = 1; ; count++) {
+    const candidate = `${name} copy${count > 1 ? ` ${count}` : ''}${extension}`;
+
+    if (!names.has(candidate)) return candidate;
+  }
+}
+
+// 节点及其子节点的路径改为 path，id 保持不变
+// 本地文件夹的句柄仍指向原来的位置，需要去掉，内容按 id 从 IndexedDB 读取
+function retargetEntry(entry: DirectoryInterface, path: string): DirectoryInterface {
+  return {
+    ...entry,
+    filename: basename(path),
+    path,
+    handler: undefined,
+    children: entry.children?.map((child) => retargetEntry(child, joinPath(path, child.filename))),
+  };
+}
+
+// 复制出的节点使用新的 id
+function cloneEntry(entry: DirectoryInterface, path: string): DirectoryInterface {
+  return {
+    ...retargetEntry(entry, path),
+    id: uuidv4(),
+    status: undefined,
+    children: entry.children?.map((child) => cloneEntry(child, joinPath(path, child.filename))),
+  };
+}
+
+/**
+ * 移动后同步打开的 model、待写入 WebContainer 的内容和磁盘内容缓存中记录的路径
+ * model 以文件 id 为 uri 不需要重建，扩展名变化时切换 model 的语言
+ */
+function retargetFiles(before: DirectoryInterface, after: DirectoryInterface) {
+  const { retargetWrite } = useContainerSyncStore.getState();
+  const previousPaths = new Map(collectFiles([before]).map((file) => [file.id, file.path]));
+
+  collectFiles([after]).forEach(({ id, filename, path }) => {
+    const previousPath = previousPaths.get(id);
+
+    if (previousPath && diskContentCache.has(previousPath)) {
+      diskContentCache.set(path, diskContentCache.get(previousPath)!);
+      diskContentCache.delete(previousPath);
+    }
+
+    moveFileModel(id, filename, path);
+    retargetWrite(id, path);
+  });
+}
+
+// 已打开的文件改名或移动后，按新的路径和文件类型更新对应的 model
+export function moveFileModel(id: string, filename: string, path: string) {
+  const { models, updateModelInfo } = useModelsStore.getState();
+  const { updateActiveModelInfo } = useActiveModelStore.getState();
+  const { editors } = useEditorStore.getState();
+  const monaco = useMonacoStore.getState().monacos.find(Boolean);
+  const language = getFileLanguage(filename);
+  const current = models.find((item) => item.id === id)?.model;
+  let model = current;
+
+  if (monaco && current && !current.isDisposed()) {
+    current.getLanguageId() !== language && monaco.editor.setModelLanguage(current, language);
+    model = moveModel(monaco, current, path, language, editors);
+  }
+
+  updateModelInfo(id, { filename, path, language, model });
+  updateActiveModelInfo(id, { filename, path, language, model });
+}
+
+/**
+ * 询问是否更新其他文件中指向被移动文件的相对导入路径，已打开的文件同时修改 model 内容
+ * 移动的都不是脚本或可导入的文件时直接跳过，否则只读取脚本文件的内容
+ */
+async function offerImportUpdates(changes: PathChange[]) {
+  const { fileData, loadFileContents, updateItem } = useUploadFileDataStore.getState();
+  const moved = changes.map(({ to }) => findItemByPath(fileData ?? [], to));
+
+  if (!moved.some((entry) => entry && isImportTarget(entry))) return;
+
+  await loadFileContents(
+    collectFiles(fileData ?? [])
+      .filter((file) => isScriptFile(file.path))
+      .map((file) => file.id),
+  );
+
+  const files = collectFiles(useUploadFileDataStore.getState().fileData ?? []);
+  const edits = updateImportPaths(files, changes);
+
+  if (edits.length === 0) return;
+
+  if (!window.confirm(`是否更新 ${edits.length} 个文件中的导入路径？`)) return;
+
+  const { models } = useModelsStore.getState();
+  const { queueWrite } = useContainerSyncStore.getState();
+  const { recordChange } = useAutosaveStore.getState();
+
+  edits.forEach(({ id, path, value }) => {
+    const model = models.find((item) => item.id === id)?.model;
+
+    updateItem(id, { value });
+    model && replaceModelValue(model, value);
+    recordChange(id, path, value);
+    queueWrite(id, path, value);
+  });
+}
+
+// 删除多项或非空目录时需要确认
+function confirmDelete(entries: DirectoryInterface[]): boolean {
+  if (entries.length > 1) {
+    return window.confirm(`确定删除选中的 ${entries.length} 项？删除后可以从回收站中恢复。`);
+  }
+
+  const [entry] = entries;
+
+  if (entry.kind === 'directory' && (entry.children?.length ?? 0) > 0) {
+    return window.confirm(
+      `确定删除文件夹 ${entry.filename} 及其中的所有内容？删除后可以从回收站中恢复。`,
+    );
+  }
+
+  return true;
+}
+
+// 关闭所有编辑器中该文件的 model，编辑器没有剩余的 model 时关闭该分屏
+export function closeFileModels(id: string) {
+  const { editors, removeEditor } = useEditorStore.getState();
+  const { splitState, removeSplit } = useSplitStore.getState();
+  const { setActiveModel } = useActiveModelStore.getState();
+  const { removeModel, removeAllModel } = useModelsStore.getState();
+  const keepedEditorCount = splitState.filter((item) => item).length;
+
+  editors.forEach((editor, editorId) => {
+    const newModels = removeModel(id, editorId);
+
+    if (newModels && newModels.filename) {
+      setActiveModel(newModels.id, newModels.model, editorId);
+      editor && editor.setModel(newModels.model);
+    } else {
+      removeAllModel(editorId);
+      editor && editor.setModel(null);
+
+      if (keepedEditorCount > 1) {
+        removeEditor(editorId);
+        removeSplit(editorId);
+      }
+    }
+  });
+}
+
+export const useExplorerStore = create<ExplorerState & ExplorerActions>((set, get) => {
+  const getSelectedPaths = () => {
+    const { fileData } = useUploadFileDataStore.getState();
+
+    return get()
+      .selectedIds.map((id) => findItemById(fileData ?? [], id)?.path)
+      .filter((path): path is string => !!path);
+  };
+
+  // 粘贴的目标目录：选中目录时粘贴到该目录，选中文件时粘贴到文件所在目录，否则粘贴到项目根目录
+  const getPasteTarget = (): string | undefined => {
+    const { fileData, selected } = useUploadFileDataStore.getState();
+    const entry = findItemById(fileData ?? [], selected);
+
+    if (entry) return entry.kind === 'directory' ? entry.path : dirname(entry.path);
+
+    return fileData?.[0]?.path;
+  };
+
+  /**
+   * 节点连同内容先放入回收站，再从文件树和 WebContainer 中删除
+   * 同时关闭其中已打开的文件并丢弃待写入 WebContainer 的内容
+   */
+  const removeEntries = async (entries: DirectoryInterface[]) => {
+    const { projectId, removeFileById } = useUploadFileDataStore.getState();
+    const { discardWrite } = useContainerSyncStore.getState();
+    const { webContainerInstance } = useWebContainerStore.getState();
+    const deletedAt = Date.now();
+    const loaded = await withFileContents(projectId, entries);
+
+    await useTrashStore.getState().addEntries(
+      projectId,
+      loaded.map((entry) => ({ id: uuidv4(), entry, deletedAt })),
+    );
+
+    for (const entry of entries) {
+      removeFileById(entry.id);
+      collectFiles([entry]).forEach((file) => {
+        discardWrite(file.id);
+        closeFileModels(file.id);
+        diskContentCache.delete(file.path);
+      });
+
+      try {
+        webContainerInstance && (await rm(entry.path, webContainerInstance));
+      } catch (error) {
+        console.error('删除文件失败:', error);
+      }
+    }
+  };
+
+  /**
+   * 移动到 targetPath 目录下并命名为 filename，返回移动前后的路径
+   * WebContainer 中使用 fs.rename 移动，失败时文件树保持不变
+   */
+  const moveEntry = async (
+    entry: DirectoryInterface,
+    targetPath: string,
+    filename: string = entry.filename,
+  ): Promise<PathChange | null> => {
+    const path = joinPath(targetPath, filename);
+
+    // 不能移动到原位置、自身或自身的子目录中
+    if (path === entry.path || entry.path === targetPath || isSubPath(entry.path, targetPath)) {
+      return null;
+    }
+
+    const existing = getChildren(targetPath).find((item) => item.filename === filename);
+
+    if (existing) {
+      if (!window.confirm(`${targetPath} 中已存在 ${filename}，是否替换？`)) return null;
+
+      await removeEntries([existing]);
+    }
+
+    const { webContainerInstance } = useWebContainerStore.getState();
+    const { removeItemByPath, insertItemByPath } = useUploadFileDataStore.getState();
+
+    webContainerInstance && (await webContainerInstance.fs.rename(entry.path, path));
+
+    const moved = retargetEntry(entry, path);
+    removeItemByPath(entry.path);
+    insertItemByPath(moved);
+    retargetFiles(entry, moved);
+
+    return { from: entry.path, to: path };
+  };
+
+  const copyEntry = async (entry: DirectoryInterface, targetPath: string) => {
+    const { projectId, insertItemByPath } = useUploadFileDataStore.getState();
+    const { webContainerInstance } = useWebContainerStore.getState();
+    const [loaded] = await withFileContents(projectId, [entry]);
+    const copy = cloneEntry(loaded, joinPath(targetPath, getCopyName(targetPath, entry.filename)));
+
+    webContainerInstance && (await writeDirByLocal(copy, webContainerInstance));
+    insertItemByPath(copy);
+
+    return copy;
+  };
+
+  return {
+    selectedIds: [],
+    anchorId: '',
+    clipboard: null,
+    expandedIds: [],
+    revealId: '',
+
+    setSelection: (ids: string[], anchorId?: string) =>
+      set((state) => ({ selectedIds: ids, anchorId: anchorId ?? state.anchorId })),
+
+    copySelection: (mode: ClipboardMode) => {
+      const paths = getSelectedPaths();
+
+      set({ clipboard: paths.length > 0 ? { mode, paths } : null });
+    },
+
+    paste: async () => {
+      const { clipboard } = get();
+      const targetPath = getPasteTarget();
+
+      if (!clipboard || !targetPath) return;
+
+      try {
+        if (clipboard.mode === 'cut') {
+          await get().moveEntries(clipboard.paths, targetPath);
+          set({ clipboard: null });
+
+          return;
+        }
+
+        const copies: DirectoryInterface[] = [];
+
+        for (const entry of getTopLevelEntries(clipboard.paths)) {
+          // 不能把目录粘贴到自身或其子目录中
+          if (entry.path === targetPath || isSubPath(entry.path, targetPath)) continue;
+
+          copies.push(await copyEntry(entry, targetPath));
+        }
+
+        copies.length > 0 && set({ selectedIds: copies.map((item) => item.id) });
+      } catch (error) {
+        console.error('粘贴文件失败:', error);
+      }
+
+      await useAutosaveStore.getState().recordStructureChange();
+    },
+
+    // 在原目录中创建副本
+    duplicateSelection: async () => {
+      try {
+        const copies: DirectoryInterface[] = [];
+
+        for (const entry of getTopLevelEntries(getSelectedPaths())) {
+          copies.push(await copyEntry(entry, dirname(entry.path)));
+        }
+
+        copies.length > 0 && set({ selectedIds: copies.map((item) => item.id) });
+      } catch (error) {
+        console.error('创建副本失败:', error);
+      }
+
+      await useAutosaveStore.getState().recordStructureChange();
+    },
+
+    deleteSelection: async () => {
+      const paths = getSelectedPaths();
+
+      if (paths.length === 0) return;
+
+      await get().deleteEntries(paths);
+
+      // 取消删除时保留选中状态
+      const { fileData } = useUploadFileDataStore.getState();
+      set((state) => ({
+        selectedIds: state.selectedIds.filter((id) => !!findItemById(fileData ?? [], id)),
+      }));
+    },
+
+    // 删除的文件和目录放入项目回收站，可以撤销或之后从回收站中恢复
+    deleteEntries: async (paths: string[]) => {
+      const entries = getTopLevelEntries(paths);
+
+      if (entries.length === 0 || !confirmDelete(entries)) return;
+
+      try {
+        await removeEntries(entries);
+      } catch (error) {
+        console.error('删除文件失败:', error);
+      }
+
+      await useAutosaveStore.getState().recordStructureChange();
+    },
+
+    /**
+     * 把回收站中的节点恢复到原路径，原路径已存在时确认后替换
+     * 所在目录已被删除时会重新创建
+     */
+    restoreEntries: async (trashIds: string[]) => {
+      const { projectId, insertItemByPath } = useUploadFileDataStore.getState();
+      const { entries, removeEntries: removeTrashEntries } = useTrashStore.getState();
+      const { webContainerInstance } = useWebContainerStore.getState();
+      const restored: DirectoryInterface[] = [];
+      const restoredIds: string[] = [];
+
+      try {
+        for (const { id, entry } of entries.filter((item) => trashIds.includes(item.id))) {
+          const { fileData } = useUploadFileDataStore.getState();
+          const existing = findItemByPath(fileData ?? [], entry.path);
+
+          if (existing) {
+            if (!window.confirm(`${entry.path} 已存在，是否替换？`)) continue;
+
+            await removeEntries([existing]);
+          }
+
+          if (webContainerInstance) {
+            await createDir(dirname(entry.path), webContainerInstance);
+            await writeDirByLocal(entry, webContainerInstance);
+          }
+
+          insertItemByPath(entry);
+          restored.push(entry);
+          restoredIds.push(id);
+        }
+      } catch (error) {
+        console.error('恢复文件失败:', error);
+      }
+
+      await useAutosaveStore.getState().recordStructureChange();
+      await removeTrashEntries(projectId, restoredIds);
+      restored.length > 0 && set({ selectedIds: restored.map((entry) => entry.id) });
+    },
+
+    /**
+     * 移动文件或目录到 targetPath 目录下
+     * 节点 id 保持不变，已打开的 model 继续指向同一个文件
+     */
+    moveEntries: async (paths: string[], targetPath: string) => {
+      const changes: PathChange[] = [];
+
+      try {
+        for (const entry of getTopLevelEntries(paths)) {
+          const change = await moveEntry(entry, targetPath);
+          change && changes.push(change);
+        }
+      } catch (error) {
+        console.error('移动文件失败:', error);
+      }
+
+      changes.length > 0 && (await useAutosaveStore.getState().recordStructureChange());
+
+      await offerImportUpdates(changes);
+    },
+
+    // 重命名即移动到同一目录下的新名称，子节点的路径随之更新
+    renameEntry: async (path: string, filename: string) => {
+      const { fileData } = useUploadFileDataStore.getState();
+      const entry = findItemByPath(fileData ?? [], path);
+      const name = filename.trim();
+
+      if (!entry || !name || name === entry.filename) return;
+
+      if (name.includes('/') || name === '.' || name === '..') {
+        window.alert(`${name} 不是有效的文件名`);
+
+        return;
+      }
+
+      try {
+        const change = await moveEntry(entry, dirname(path), name);
+
+        if (!change) return;
+
+        set({ selectedIds: [entry.id], anchorId: entry.id });
+        await useAutosaveStore.getState().recordStructureChange();
+        await offerImportUpdates([change]);
+      } catch (error) {
+        console.error('重命名失败:', error);
+      }
+    },
+
+    toggleExpanded: (id: string) =>
+      set((state) => ({
+        expandedIds: state.expandedIds.includes(id)
+          ? state.expandedIds.filter((item) => item !== id)
+          : [...state.expandedIds, id],
+      })),
+
+    expand: (ids: string[]) =>
+      set((state) =>
+        ids.every((id) => state.expandedIds.includes(id))
+          ? state
+          : { expandedIds: Array.from(new Set([...state.expandedIds, ...ids])) },
+      ),
+
+    collapseAll: () => set({ expandedIds: [] }),
+
+    // 展开节点所在的各级目录，选中该节点并滚动到可视区域
+    revealPath: (path: string) => {
+      const { fileData, setSelected } = useUploadFileDataStore.getState();
+      const entry = findItemByPath(fileData ?? [], path);
+
+      if (!entry) return;
+
+      const ancestors: string[] = [];
+
+      for (let parent = dirname(path); parent !== '/'; parent = dirname(parent)) {
+        const directory = findItemByPath(fileData ?? [], parent);
+        directory && ancestors.push(directory.id);
+      }
+
+      get().expand(ancestors);
+      setSelected(entry.id);
+      set({ selectedIds: [entry.id], anchorId: entry.id, revealId: entry.id });
+    },
+
+    clearReveal: () => set({ revealId: '' }),
+
+    // 把文件或目录打包为 zip 下载，zip 中以该节点为根目录
+    downloadEntry: async (path: string) => {
+      const { projectId, fileData } = useUploadFileDataStore.getState();
+      const entry = findItemByPath(fileData ?? [], path);
+
+      if (!entry) return;
+
+      try {
+        const [loaded] = await withFileContents(projectId, [entry]);
+        const zip = new Zip();
+        zip.addDirectory(retargetEntry(loaded, `/${entry.filename}`));
+
+        const url = await zip.downloadZip();
+
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `${entry.filename}.zip`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+      } catch (error) {
+        console.error('下载文件失败:', error);
+      }
+    },
+  };
+});
@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+
+/**
+ * 编辑器中的文件与磁盘上的同一文件同时被修改
+ * - container: 有未同步到 WebContainer 的修改时，WebContainer 中的文件又被外部进程改写
+ * - localFolder: 写回关联的本地文件夹时，发现本地文件在上次同步之后被其他程序修改过
+ */
+export interface FileConflict {
+  id: string;
+  filename: string;
+  path: string;
+  diskValue: string;
+  source?: 'container' | 'localFolder';
+}
+
+interface FileConflictState {
+  conflicts: FileConflict[];
+}
+
+interface FileConflictActions {
+  addConflict: (conflict: FileConflict) => void;
+  resolveConflict: (id: string) => void;
+}
+
+export const useFileConflictStore = create<FileConflictState & FileConflictActions>((set) => ({
+  conflicts: [],
+
+  // 同一文件只保留最新的一次冲突
+  addConflict: (conflict: FileConflict) =>
+    set((state) => ({
+      conflicts: [...state.conflicts.filter((item) => item.id !== conflict.id), conflict],
+    })),
+
+  resolveConflict: (id: string) =>
+    set((state) => ({
+      conflicts: state.conflicts.filter((item) => item.id !== id),
+    })),
+}));
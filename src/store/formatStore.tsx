@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+
+// 格式化失败或 Prettier 配置有错误时显示给用户的信息
+export interface FormatError {
+  message: string;
+  // 出错的配置文件路径，格式化代码本身出错时为空
+  path?: string;
+}
+
+interface FormatState {
+  error: FormatError | null;
+}
+
+interface FormatActions {
+  showFormatError: (error: FormatError) => void;
+  dismissFormatError: () => void;
+}
+
+export const useFormatStore = create<FormatState & FormatActions>((set) => ({
+  error: null,
+
+  showFormatError: (error: FormatError) => set({ error }),
+
+  dismissFormatError: () => set({ error: null }),
+}));
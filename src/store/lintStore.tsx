@@ -0,0 +1,136 @@
+import { create } from 'zustand';
+import { WebContainer, WebContainerProcess } from '@webcontainer/api';
+
+import {
+  ESLINT_SERVER_PATH,
+  ESLINT_SERVER_SCRIPT,
+  LintMessage,
+  createLintMessageReader,
+  dirname,
+  joinPath,
+} from '@/utils';
+
+// idle: 未启动或已退出；unavailable: 项目没有安装 eslint
+export type LintStatus = 'idle' | 'starting' | 'ready' | 'unavailable';
+
+interface LintState {
+  status: LintStatus;
+}
+
+interface LintActions {
+  startLintServer: (webcontainer: WebContainer, cwd: string) => Promise<void>;
+  stopLintServer: () => void;
+  lintText: (filePath: string, text: string) => Promise<LintMessage[] | null>;
+}
+
+let server: WebContainerProcess | null = null;
+let input: WritableStreamDefaultWriter<string> | null = null;
+// 等待检查结果的请求，以请求 id 为 key
+const pendingRequests = new Map<number, (messages: LintMessage[] | null) => void>();
+let nextRequestId = 0;
+// 每次启动或停止时递增，启动过程中被停止时丢弃启动的进程
+let generation = 0;
+// 最近一次检查失败的原因，相同的错误只打印一次
+let lastError = '';
+
+function resolvePending() {
+  pendingRequests.forEach((resolve) => resolve(null));
+  pendingRequests.clear();
+}
+
+export const useLintStore = create<LintState & LintActions>((set) => ({
+  status: 'idle',
+
+  /**
+   * 在项目目录中启动检查服务，使用项目依赖中的 eslint
+   * 依赖安装完成后调用，进程退出后回到 idle 状态
+   */
+  startLintServer: async (webcontainer: WebContainer, cwd: string) => {
+    if (server) return;
+
+    const current = ++generation;
+    const scriptPath = joinPath(cwd, ESLINT_SERVER_PATH);
+
+    set({ status: 'starting' });
+
+    try {
+      await webcontainer.fs.mkdir(dirname(scriptPath), { recursive: true });
+      await webcontainer.fs.writeFile(scriptPath, ESLINT_SERVER_SCRIPT);
+
+      const serverProcess = await webcontainer.spawn('node', [ESLINT_SERVER_PATH], { cwd });
+
+      if (current !== generation) {
+        serverProcess.kill();
+
+        return;
+      }
+
+      server = serverProcess;
+      input = serverProcess.input.getWriter();
+      lastError = '';
+
+      serverProcess.output.pipeTo(
+        new WritableStream({
+          write: createLintMessageReader((message) => {
+            if ('type' in message) {
+              set({ status: message.type });
+
+              return;
+            }
+
+            const resolve = pendingRequests.get(message.id);
+            pendingRequests.delete(message.id);
+
+            if ('error' in message && message.error !== lastError) {
+              lastError = message.error;
+              console.error('ESLint 检查失败:', message.error);
+            }
+
+            resolve?.('messages' in message ? message.messages : null);
+          }),
+        }),
+      );
+
+      serverProcess.exit.then(() => {
+        if (server !== serverProcess) return;
+
+        server = null;
+        input = null;
+        resolvePending();
+        set((state) => ({ status: state.status === 'unavailable' ? 'unavailable' : 'idle' }));
+      });
+    } catch (error) {
+      console.error('启动 ESLint 检查服务失败:', error);
+      current === generation && set({ status: 'idle' });
+    }
+  },
+
+  stopLintServer: () => {
+    generation++;
+    server?.kill();
+    server = null;
+    input = null;
+    resolvePending();
+    set({ status: 'idle' });
+  },
+
+  /**
+   * 检查文件内容，返回 ESLint 的问题列表；服务未就绪或检查失败时返回 null
+   * @param filePath 相对项目目录的路径，用于匹配配置和忽略规则
+   */
+  lintText: (filePath: string, text: string) => {
+    if (!input) return Promise.resolve(null);
+
+    const id = ++nextRequestId;
+    const request = new Promise<LintMessage[] | null>((resolve) => {
+      pendingRequests.set(id, resolve);
+    });
+
+    input.write(`${JSON.stringify({ id, filePath, text })}\n`).catch(() => {
+      pendingRequests.get(id)?.(null);
+      pendingRequests.delete(id);
+    });
+
+    return request;
+  },
+}));
@@ -0,0 +1,289 @@
+import { create } from 'zustand';
+
+import debounce from '@/utils/debounce';
+import { basename } from '@/utils/path';
+import {
+  createLocalDirectory,
+  getFolderPermission,
+  loadFolderHandle,
+  moveLocalEntry,
+  readLocalFile,
+  removeFolderHandle,
+  removeLocalEntry,
+  saveFolderHandle,
+  writeLocalFile,
+} from '@/utils/localFolder';
+import { writeToDirectoryHandle } from '@/utils/vfs';
+import { getFileNodeContent } from '@/utils/binary';
+import { readFileContents, withFileContents } from '@/utils/fileContents';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useFileConflictStore } from '@/store/fileConflictStore';
+import { DirectoryInterface } from '@/types';
+
+// unlinked: 未关联；prompt: 已关联但需要用户重新授权（如刷新页面后）；denied: 用户拒绝了授权
+export type LocalFolderStatus = 'unlinked' | 'prompt' | 'granted' | 'denied';
+
+// 文件树停止变化多久后写回本地文件夹
+const SYNC_DELAY = 500;
+
+interface SnapshotEntry {
+  path: string;
+  kind: DirectoryInterface['kind'];
+  value?: string;
+  encoding?: DirectoryInterface['encoding'];
+}
+
+/**
+ * 上一次写回本地文件夹时的文件树快照，以节点 id 为 key
+ * 为 null 时表示还没有基准，下一次同步只记录快照不写入
+ */
+let baseline: Map<string, SnapshotEntry> | null = null;
+// 同步串行执行，避免两次同步交错写入同一文件
+let syncQueue: Promise<void> = Promise.resolve();
+
+function takeSnapshot(fileData: DirectoryInterface[] | null): Map<string, SnapshotEntry> {
+  const snapshot = new Map<string, SnapshotEntry>();
+
+  const walk = (items: DirectoryInterface[]) => {
+    items.forEach((item) => {
+      // 新建中还没有命名的节点不写入本地
+      if (/PENDING_(FILE|DIRECTORY)/.test(item.path)) return;
+
+      snapshot.set(item.id, {
+        path: item.path,
+        kind: item.kind,
+        value: item.value,
+        encoding: item.encoding,
+      });
+      item.children && walk(item.children);
+    });
+  };
+
+  walk(fileData ?? []);
+
+  return snapshot;
+}
+
+interface LocalFolderState {
+  projectId: string;
+  handle: FileSystemDirectoryHandle | null;
+  status: LocalFolderStatus;
+}
+
+interface LocalFolderActions {
+  restoreLink: (projectId: string) => Promise<void>;
+  linkFolder: (
+    projectId: string,
+    handle: FileSystemDirectoryHandle,
+    writeProject?: boolean,
+  ) => Promise<void>;
+  unlinkFolder: () => Promise<void>;
+  requestPermission: () => Promise<void>;
+  scheduleSync: () => void;
+  syncNow: () => Promise<void>;
+  overwriteLocalFile: (path: string, value: string) => Promise<void>;
+}
+
+export const useLocalFolderStore = create<LocalFolderState & LocalFolderActions>((set, get) => {
+  const scheduleSync = debounce(() => {
+    get().syncNow();
+  }, SYNC_DELAY);
+
+  // 将本次快照与基准的差异写回本地文件夹，返回内容冲突而没有写入的文件
+  const applyChanges = async (
+    root: FileSystemDirectoryHandle,
+    previous: Map<string, SnapshotEntry>,
+    next: Map<string, SnapshotEntry>,
+  ) => {
+    const conflicts: { id: string; entry: SnapshotEntry; diskValue: string }[] = [];
+
+    // 先处理重命名和移动，再处理删除，最后处理新建和修改
+    for (const [id, entry] of next) {
+      const before = previous.get(id);
+
+      if (before && before.path !== entry.path) {
+        await moveLocalEntry(root, before.path, entry.path, entry.kind);
+      }
+    }
+
+    for (const [id, entry] of previous) {
+      if (!next.has(id)) await removeLocalEntry(root, entry.path);
+    }
+
+    for (const [id, entry] of next) {
+      const before = previous.get(id);
+
+      if (entry.kind === 'directory') {
+        !before && (await createLocalDirectory(root, entry.path));
+        continue;
+      }
+
+      if (!before || entry.encoding) {
+        (!before || before.value !== entry.value) &&
+          (await writeLocalFile(root, entry.path, getFileNodeContent(entry)));
+        continue;
+      }
+
+      if (before.value === entry.value) continue;
+
+      // 按需读取的文件第一次读取内容时 value 才有值，以已保存的内容为修改前的内容
+      const previousValue =
+        before.value ?? (await readFileContents(get().projectId, id))?.value ?? '';
+
+      if (previousValue === entry.value) continue;
+
+      // 本地文件在上次同步之后被其他程序修改过，交给用户决定保留哪一份（二进制文件不能在编辑器中修改，不会冲突）
+      const diskValue = await readLocalFile(root, entry.path);
+
+      if (diskValue !== null && diskValue !== previousValue && diskValue !== entry.value) {
+        conflicts.push({ id, entry, diskValue });
+        continue;
+      }
+
+      await writeLocalFile(root, entry.path, getFileNodeContent(entry));
+    }
+
+    return conflicts;
+  };
+
+  return {
+    projectId: '',
+    handle: null,
+    status: 'unlinked',
+
+    // 进入项目时恢复关联的本地文件夹，浏览器通常会要求重新授权
+    restoreLink: async (projectId: string) => {
+      baseline = null;
+      set({ projectId, handle: null, status: 'unlinked' });
+
+      try {
+        const handle = await loadFolderHandle(projectId);
+
+        if (!handle || get().projectId !== projectId) return;
+
+        const permission = await getFolderPermission(handle);
+        const { fileData } = useUploadFileDataStore.getState();
+
+        // 以进入项目时的文件树为基准，授权之前的修改会在授权后补写
+        baseline = fileData ? takeSnapshot(fileData) : null;
+        set({ handle, status: permission === 'granted' ? 'granted' : 'prompt' });
+      } catch (error) {
+        console.error('恢复关联的本地文件夹失败:', error);
+      }
+    },
+
+    /**
+     * 关联本地文件夹
+     * @param writeProject 是否先把整个项目写入该文件夹；从该文件夹导入的项目内容一致，不需要写入
+     */
+    linkFolder: async (projectId, handle, writeProject = true) => {
+      try {
+        const { fileData } = useUploadFileDataStore.getState();
+
+        if (writeProject) {
+          await writeToDirectoryHandle(
+            handle,
+            (await withFileContents(projectId, fileData ?? [])).flatMap(
+              (item) => item.children ?? [],
+            ),
+          );
+        }
+
+        await saveFolderHandle(projectId, handle);
+        baseline = takeSnapshot(fileData);
+        set({ projectId, handle, status: 'granted' });
+      } catch (error) {
+        console.error('关联本地文件夹失败:', error);
+      }
+    },
+
+    unlinkFolder: async () => {
+      const { projectId } = get();
+
+      baseline = null;
+      set({ handle: null, status: 'unlinked' });
+      await removeFolderHandle(projectId);
+    },
+
+    // 需要在用户点击等操作中调用，授权后补写授权前积累的修改
+    requestPermission: async () => {
+      const { handle } = get();
+
+      if (!handle) return;
+
+      try {
+        const permission = await getFolderPermission(handle, true);
+
+        set({ status: permission === 'granted' ? 'granted' : 'denied' });
+        permission === 'granted' && get().syncNow();
+      } catch (error) {
+        console.error('申请本地文件夹权限失败:', error);
+      }
+    },
+
+    // 文件树变化时调用
+    scheduleSync: () => {
+      const { handle, status } = get();
+      const { fileData } = useUploadFileDataStore.getState();
+
+      if (!handle || !fileData) return;
+
+      if (!baseline) {
+        baseline = takeSnapshot(fileData);
+
+        return;
+      }
+
+      status === 'granted' && scheduleSync();
+    },
+
+    syncNow: () => {
+      syncQueue = syncQueue.then(async () => {
+        const { handle, status } = get();
+
+        if (!handle || status !== 'granted') return;
+
+        const next = takeSnapshot(useUploadFileDataStore.getState().fileData);
+
+        if (!baseline) {
+          baseline = next;
+
+          return;
+        }
+
+        try {
+          const conflicts = await applyChanges(handle, baseline, next);
+
+          conflicts.forEach(({ id, entry, diskValue }) => {
+            useFileConflictStore.getState().addConflict({
+              id,
+              filename: basename(entry.path),
+              path: entry.path,
+              diskValue,
+              source: 'localFolder',
+            });
+          });
+        } catch (error) {
+          console.error('写回本地文件夹失败:', error);
+        }
+
+        baseline = next;
+      });
+
+      return syncQueue;
+    },
+
+    // 解决冲突时以编辑器内容覆盖本地文件
+    overwriteLocalFile: async (path: string, value: string) => {
+      const { handle, status } = get();
+
+      if (!handle || status !== 'granted') return;
+
+      try {
+        await writeLocalFile(handle, path, value);
+      } catch (error) {
+        console.error('写回本地文件夹失败:', error);
+      }
+    },
+  };
+});
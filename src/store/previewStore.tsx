@@ -0,0 +1,174 @@
+import { create } from 'zustand';
+
+import { PreviewBridgeMessage, PreviewConsoleLevel } from '@/utils/previewBridge';
+
+export type DeviceId = 'responsive' | 'mobile' | 'tablet' | 'desktop';
+
+export interface DevicePreset {
+  id: DeviceId;
+  label: string;
+  // responsive 跟随面板尺寸，没有固定宽高
+  size: { width: number; height: number } | null;
+}
+
+export const DEVICE_PRESETS: DevicePreset[] = [
+  { id: 'responsive', label: 'Responsive', size: null },
+  { id: 'mobile', label: 'Mobile', size: { width: 375, height: 667 } },
+  { id: 'tablet', label: 'Tablet', size: { width: 768, height: 1024 } },
+  { id: 'desktop', label: 'Desktop', size: { width: 1280, height: 800 } },
+];
+
+export interface PreviewConsoleEntry {
+  id: number;
+  level: PreviewConsoleLevel;
+  args: string[];
+  timestamp: number;
+}
+
+// 控制台最多保留的条数，超出后丢弃最早的记录
+const MAX_CONSOLE_ENTRIES = 500;
+
+interface PreviewState {
+  // 浏览历史，index 指向当前页面
+  history: string[];
+  index: number;
+  // 赋给 iframe src 的地址，只有主动导航时才会变化
+  frameUrl: string;
+  // 作为 iframe 的 key，递增即重新加载
+  reloadKey: number;
+  // 主动导航后尚未收到页面上报的地址，收到后以上报的地址（如重定向后的地址）替换当前记录
+  pendingNavigation: boolean;
+  device: DeviceId;
+  rotated: boolean;
+  consoleEntries: PreviewConsoleEntry[];
+  // 预览面板折叠为侧边窄条
+  collapsed: boolean;
+  // 预览在独立窗口中打开，此时编辑布局中不再显示预览面板
+  detached: boolean;
+}
+
+interface PreviewActions {
+  resetHistory: (url: string) => void;
+  navigate: (url: string) => void;
+  goBack: () => void;
+  goForward: () => void;
+  reload: () => void;
+  recordLocation: (url: string) => void;
+  setDevice: (device: DeviceId) => void;
+  toggleRotated: () => void;
+  addConsoleEntry: (level: PreviewConsoleLevel, args: string[]) => void;
+  clearConsole: () => void;
+  receiveBridgeMessage: (message: PreviewBridgeMessage) => void;
+  setCollapsed: (collapsed: boolean) => void;
+  setDetached: (detached: boolean) => void;
+}
+
+let consoleEntryId = 0;
+
+export const usePreviewStore = create<PreviewState & PreviewActions>((set, get) => {
+  // 加载历史中的某一项
+  const load = (index: number) => {
+    const { history, reloadKey } = get();
+
+    set({
+      index,
+      frameUrl: history[index],
+      reloadKey: reloadKey + 1,
+      pendingNavigation: true,
+    });
+  };
+
+  return {
+    history: [],
+    index: -1,
+    frameUrl: '',
+    reloadKey: 0,
+    pendingNavigation: false,
+    device: 'responsive',
+    rotated: false,
+    consoleEntries: [],
+    collapsed: false,
+    detached: false,
+
+    // 预览的服务地址变化时重新开始浏览历史
+    resetHistory: (url: string) => {
+      set({
+        history: url ? [url] : [],
+        index: url ? 0 : -1,
+        frameUrl: url,
+        reloadKey: get().reloadKey + 1,
+        pendingNavigation: Boolean(url),
+        consoleEntries: [],
+      });
+    },
+
+    navigate: (url: string) => {
+      const { history, index } = get();
+
+      set({ history: [...history.slice(0, index + 1), url] });
+      load(index + 1);
+    },
+
+    goBack: () => {
+      const { index } = get();
+
+      index > 0 && load(index - 1);
+    },
+
+    goForward: () => {
+      const { history, index } = get();
+
+      index < history.length - 1 && load(index + 1);
+    },
+
+    // 重新加载当前页面，页面内通过 pushState 切换过的地址也会保留
+    reload: () => {
+      const { index } = get();
+
+      index >= 0 && load(index);
+    },
+
+    // 预览页面通过桥接脚本上报的地址
+    recordLocation: (url: string) => {
+      const { history, index, pendingNavigation } = get();
+
+      if (pendingNavigation) {
+        set({
+          history: history.map((item, i) => (i === index ? url : item)),
+          pendingNavigation: false,
+        });
+
+        return;
+      }
+
+      if (history[index] === url) return;
+
+      set({ history: [...history.slice(0, index + 1), url], index: index + 1 });
+    },
+
+    setDevice: (device: DeviceId) => set({ device }),
+
+    toggleRotated: () => set({ rotated: !get().rotated }),
+
+    addConsoleEntry: (level: PreviewConsoleLevel, args: string[]) => {
+      const entry = { id: ++consoleEntryId, level, args, timestamp: Date.now() };
+
+      set({ consoleEntries: [...get().consoleEntries, entry].slice(-MAX_CONSOLE_ENTRIES) });
+    },
+
+    clearConsole: () => set({ consoleEntries: [] }),
+
+    // 处理预览页面（内嵌 iframe 或独立窗口）中桥接脚本发来的消息
+    receiveBridgeMessage: (message: PreviewBridgeMessage) => {
+      if (message.type === 'location') {
+        get().recordLocation(message.url);
+      } else if (message.type === 'console') {
+        get().addConsoleEntry(message.level, message.args);
+      }
+    },
+
+    setCollapsed: (collapsed: boolean) => set({ collapsed }),
+
+    setDetached: (detached: boolean) => set({ detached }),
+  };
+});
@@ -0,0 +1,77 @@
+import { create } from 'zustand';
+
+import { ProblemMatch, ProblemSource, resolveProblemPath } from '@/utils/problemMatcher';
+import { normalizePath } from '@/utils/path';
+import { findItemByPath, useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { DirectoryInterface } from '@/types';
+import { useWebContainerStore } from '@/store/webContainerStore';
+
+export interface Problem extends ProblemMatch {
+  id: string;
+  // 产生该问题的终端会话 id
+  owner: string;
+  // 项目路径，如 /react/src/App.tsx
+  path: string;
+  // 对应文件树中的文件 id，项目中找不到该文件时为 null
+  fileId: string | null;
+}
+
+interface ProblemsState {
+  problems: Problem[];
+}
+
+interface ProblemsActions {
+  setProblems: (owner: string, source: ProblemSource, matches: ProblemMatch[], cwd: string) => void;
+  clearProblems: (owner: string) => void;
+}
+
+// 按路径后缀查找文件，用于工作目录未知时打印的相对路径
+function findFileBySuffix(
+  data: DirectoryInterface[],
+  suffix: string,
+): DirectoryInterface | undefined {
+  for (const item of data) {
+    if (item.kind === 'file' && item.path.endsWith(suffix)) return item;
+
+    const found = item.children && findFileBySuffix(item.children, suffix);
+    if (found) return found;
+  }
+}
+
+function resolveProblemFile(match: ProblemMatch, cwd: string) {
+  const fileData = useUploadFileDataStore.getState().fileData ?? [];
+  const workdir = useWebContainerStore.getState().webContainerInstance?.workdir;
+  const path = resolveProblemPath(match.file, cwd, workdir);
+  const file =
+    findItemByPath(fileData, path) ??
+    (match.file.startsWith('/')
+      ? undefined
+      : findFileBySuffix(fileData, normalizePath(match.file)));
+
+  return { path: file?.path ?? path, fileId: file?.id ?? null };
+}
+
+export const useProblemsStore = create<ProblemsState & ProblemsActions>((set) => ({
+  problems: [],
+
+  // 替换某个会话中某种来源的全部问题
+  setProblems: (owner: string, source: ProblemSource, matches: ProblemMatch[], cwd: string) => {
+    const problems = matches.map((match, index) => ({
+      ...match,
+      ...resolveProblemFile(match, cwd),
+      id: `${owner}:${source}:${index}`,
+      owner,
+    }));
+
+    set((state) => ({
+      problems: [
+        ...state.problems.filter((problem) => problem.owner !== owner || problem.source !== source),
+        ...problems,
+      ],
+    }));
+  },
+
+  clearProblems: (owner: string) => {
+    set((state) => ({ problems: state.problems.filter((problem) => problem.owner !== owner) }));
+  },
+}));
@@ -0,0 +1,82 @@
+import { create } from 'zustand';
+
+import { STORAGE_KEY_SETTINGS } from '@/utils/constants';
+
+// 编辑后的文件何时同步到 WebContainer：每次编辑 / 仅在 Ctrl+S 时 / 停止输入一段时间后
+export type CompileTrigger = 'auto' | 'save' | 'keystroke';
+
+// 预览面板固定在编辑区域的哪一侧
+export type PreviewPlacement = 'left' | 'right';
+
+export interface SettingsState {
+  compileTrigger: CompileTrigger;
+  previewPlacement: PreviewPlacement;
+  // 终端可向上滚动查看的历史行数
+  terminalScrollback: number;
+  // Ctrl+S 保存前先用 Prettier 格式化当前文件
+  formatOnSave: boolean;
+}
+
+interface SettingsActions {
+  hydrateSettings: () => void;
+  setCompileTrigger: (compileTrigger: CompileTrigger) => void;
+  setTerminalScrollback: (terminalScrollback: number) => void;
+  setPreviewPlacement: (previewPlacement: PreviewPlacement) => void;
+  setFormatOnSave: (formatOnSave: boolean) => void;
+}
+
+export const TERMINAL_SCROLLBACK_RANGE = { min: 100, max: 100000 };
+
+const defaultSettings: SettingsState = {
+  compileTrigger: 'auto',
+  previewPlacement: 'right',
+  terminalScrollback: 1000,
+  formatOnSave: true,
+};
+
+function loadSettings(): SettingsState {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_SETTINGS);
+
+    return stored ? { ...defaultSettings, ...JSON.parse(stored) } : defaultSettings;
+  } catch {
+    return defaultSettings;
+  }
+}
+
+export const useSettingsStore = create<SettingsState & SettingsActions>((set, get) => {
+  // 更新设置并持久化，只保存 defaultSettings 中声明过的字段
+  const updateSettings = (settings: Partial<SettingsState>) => {
+    set(settings);
+
+    const state = get();
+    const persisted = Object.fromEntries(
+      Object.keys(defaultSettings).map((key) => [key, state[key as keyof SettingsState]]),
+    );
+    localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(persisted));
+  };
+
+  return {
+    // 服务端渲染时读不到 localStorage，初始使用默认设置，挂载后再读取保存的设置，避免 hydration 不一致
+    ...defaultSettings,
+
+    hydrateSettings: () => set(loadSettings()),
+
+    setCompileTrigger: (compileTrigger: CompileTrigger) => updateSettings({ compileTrigger }),
+
+    setPreviewPlacement: (previewPlacement: PreviewPlacement) =>
+      updateSettings({ previewPlacement }),
+
+    setTerminalScrollback: (terminalScrollback: number) => {
+      const { min, max } = TERMINAL_SCROLLBACK_RANGE;
+
+      if (Number.isNaN(terminalScrollback)) return;
+
+      updateSettings({
+        terminalScrollback: Math.min(max, Math.max(min, Math.round(terminalScrollback))),
+      });
+    },
+
+    setFormatOnSave: (formatOnSave: boolean) => updateSettings({ formatOnSave }),
+  };
+});
@@ -0,0 +1,170 @@
+import { create } from 'zustand';
+
+import {
+  diffSnapshot,
+  readSnapshots,
+  readSnapshotTree,
+  removeSnapshot,
+  SnapshotChange,
+  SnapshotMeta,
+  writeSnapshot,
+} from '@/utils/snapshots';
+import { withFileContents } from '@/utils/fileContents';
+import { isBinaryFile } from '@/utils/binary';
+import { collectFiles, isLargeFile } from '@/utils/vfs';
+import { replaceModelValue } from '@/utils/editor';
+import { diskContentCache, rm, writeDirByLocal } from '@/utils/webcontainer';
+import { useUploadFileDataStore } from '@/store/uploadFileDataStore';
+import { useWebContainerStore } from '@/store/webContainerStore';
+import { useContainerSyncStore } from '@/store/containerSyncStore';
+import { useAutosaveStore } from '@/store/autosaveStore';
+import { useModelsStore } from '@/store/editorStore';
+import { closeFileModels, moveFileModel } from '@/store/explorerStore';
+import { DirectoryInterface } from '@/types';
+
+interface SnapshotState {
+  snapshots: SnapshotMeta[];
+}
+
+interface SnapshotActions {
+  loadSnapshots: (projectId: string) => Promise<void>;
+  takeSnapshot: (name: string, auto?: boolean) => Promise<SnapshotMeta | undefined>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  compareSnapshot: (id: string) => Promise<SnapshotChange[] | null>;
+  restoreSnapshot: (id: string) => Promise<void>;
+}
+
+function collectPaths(nodes: DirectoryInterface[]): string[] {
+  return nodes.flatMap((node) => [node.path, ...collectPaths(node.children ?? [])]);
+}
+
+// 快照中不存在的节点，目录整体不存在时只返回该目录
+function findRemovedEntries(nodes: DirectoryInterface[], paths: Set<string>): DirectoryInterface[] {
+  return nodes.flatMap((node) =>
+    paths.has(node.path) ? findRemovedEntries(node.children ?? [], paths) : [node],
+  );
+}
+
+// 已打开的文件切换为快照中的路径和内容，快照中不存在的文件关闭
+function syncOpenModels(snapshot: DirectoryInterface[]) {
+  const { models } = useModelsStore.getState();
+  const files = new Map(collectFiles(snapshot).map((file) => [file.id, file]));
+
+  models.forEach(({ id, model }) => {
+    const file = files.get(id);
+
+    if (!file) {
+      closeFileModels(id);
+
+      return;
+    }
+
+    !isBinaryFile(file) && !isLargeFile(file) && replaceModelValue(model, file.value ?? '');
+    moveFileModel(id, file.filename, file.path);
+  });
+}
+
+export const useSnapshotStore = create<SnapshotState & SnapshotActions>((set, get) => ({
+  snapshots: [],
+
+  loadSnapshots: async (projectId: string) => {
+    try {
+      set({ snapshots: await readSnapshots(projectId) });
+    } catch (error) {
+      console.error('读取快照失败:', error);
+    }
+  },
+
+  // 保存整个项目当前的内容，包含还没有保存的修改
+  takeSnapshot: async (name: string, auto: boolean = false) => {
+    const { projectId, fileData } = useUploadFileDataStore.getState();
+
+    if (!projectId || !fileData) return;
+
+    try {
+      const snapshot = await writeSnapshot(
+        projectId,
+        name,
+        await withFileContents(projectId, fileData),
+        auto,
+      );
+      await get().loadSnapshots(projectId);
+
+      return snapshot;
+    } catch (error) {
+      console.error('创建快照失败:', error);
+    }
+  },
+
+  deleteSnapshot: async (id: string) => {
+    const { projectId } = useUploadFileDataStore.getState();
+
+    try {
+      await removeSnapshot(projectId, id);
+      set((state) => ({ snapshots: state.snapshots.filter((item) => item.id !== id) }));
+    } catch (error) {
+      console.error('删除快照失败:', error);
+    }
+  },
+
+  // 读取失败时返回 null
+  compareSnapshot: async (id: string) => {
+    const { projectId, fileData } = useUploadFileDataStore.getState();
+
+    try {
+      const snapshot = await readSnapshotTree(projectId, id);
+
+      if (!snapshot) return [];
+
+      return diffSnapshot(snapshot, await withFileContents(projectId, fileData ?? []));
+    } catch (error) {
+      console.error('对比快照失败:', error);
+
+      return null;
+    }
+  },
+
+  /**
+   * 恢复到快照时的状态，恢复前自动为当前状态创建快照
+   * WebContainer 中只删除快照中不存在的文件，其余文件按快照内容重新写入
+   */
+  restoreSnapshot: async (id: string) => {
+    const { projectId, fileData, setFileData } = useUploadFileDataStore.getState();
+    const { discardWrite } = useContainerSyncStore.getState();
+    const { webContainerInstance } = useWebContainerStore.getState();
+    const meta = get().snapshots.find((item) => item.id === id);
+
+    try {
+      const snapshot = await readSnapshotTree(projectId, id);
+
+      if (!snapshot) return;
+
+      // 没能保存当前状态时不恢复，避免当前的内容无法找回
+      if (!(await get().takeSnapshot(`恢复「${meta?.name ?? '快照'}」之前`, true))) {
+        window.alert('无法为当前内容创建快照，已取消恢复');
+
+        return;
+      }
+
+      const current = fileData ?? [];
+      const removed = findRemovedEntries(current, new Set(collectPaths(snapshot)));
+
+      collectFiles(current).forEach((file) => discardWrite(file.id));
+      setFileData(snapshot);
+      syncOpenModels(snapshot);
+
+      if (webContainerInstance) {
+        for (const entry of removed) {
+          collectFiles([entry]).forEach(({ path }) => diskContentCache.delete(path));
+          await rm(entry.path, webContainerInstance);
+        }
+
+        await writeDirByLocal(snapshot, webContainerInstance);
+      }
+
+      await useAutosaveStore.getState().flush();
+    } catch (error) {
+      console.error('恢复快照失败:', error);
+    }
+  },
+}));
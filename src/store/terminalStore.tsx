@@ -0,0 +1,202 @@
+import { create } from 'zustand';
+import { v4 as uuidv4 } from 'uuid';
+
+import { STORAGE_KEY_TERMINAL_LAYOUT } from '@/utils/constants';
+
+// shell: 交互式 jsh 会话；task: 运行启动配置中安装 / 启动命令的专用终端
+export type TerminalKind = 'shell' | 'task';
+
+export interface TerminalSession {
+  id: string;
+  name: string;
+  kind: TerminalKind;
+}
+
+// 一个分组对应终端面板中的一个标签页，分组内的会话以分屏形式并排显示
+export interface TerminalGroup {
+  id: string;
+  sessionIds: string[];
+}
+
+interface TerminalLayout {
+  sessions: TerminalSession[];
+  groups: TerminalGroup[];
+  activeGroupId: string;
+}
+
+interface TerminalState extends TerminalLayout {
+  projectId: string;
+}
+
+interface TerminalActions {
+  restoreLayout: (projectId: string) => void;
+  openTerminal: () => void;
+  splitTerminal: (groupId: string) => void;
+  renameTerminal: (id: string, name: string) => void;
+  killTerminal: (id: string) => void;
+  setActiveGroup: (groupId: string) => void;
+}
+
+export const TASK_TERMINAL_ID = 'task';
+
+const TASK_GROUP_ID = 'task-group';
+
+const taskSession: TerminalSession = { id: TASK_TERMINAL_ID, name: 'task', kind: 'task' };
+
+const taskGroup: TerminalGroup = { id: TASK_GROUP_ID, sessionIds: [TASK_TERMINAL_ID] };
+
+function getLayoutKey(projectId: string) {
+  return `${STORAGE_KEY_TERMINAL_LAYOUT}_${projectId}`;
+}
+
+// 新会话命名为 "jsh N"，N 为现有编号的最大值加一
+function createShellSession(sessions: TerminalSession[]): TerminalSession {
+  const numbers = sessions
+    .map((session) => Number(/^jsh (\d+)$/.exec(session.name)?.[1] ?? 0))
+    .filter(Boolean);
+
+  return {
+    id: uuidv4(),
+    name: `jsh ${Math.max(0, ...numbers) + 1}`,
+    kind: 'shell',
+  };
+}
+
+function createDefaultLayout(): TerminalLayout {
+  const shell = createShellSession([taskSession]);
+
+  return {
+    sessions: [taskSession, shell],
+    groups: [taskGroup, { id: uuidv4(), sessionIds: [shell.id] }],
+    activeGroupId: TASK_GROUP_ID,
+  };
+}
+
+/**
+ * 读取项目保存的终端布局
+ * 只恢复标签页、分屏和会话名称，进程本身在挂载时重新创建；任务终端始终存在
+ */
+function loadLayout(projectId: string): TerminalLayout {
+  try {
+    const stored = localStorage.getItem(getLayoutKey(projectId));
+
+    if (!stored) return createDefaultLayout();
+
+    const layout: TerminalLayout = JSON.parse(stored);
+    const sessions = layout.sessions.filter((session) => session.kind === 'shell');
+    const groups = layout.groups
+      .filter((group) => group.id !== TASK_GROUP_ID)
+      .map((group) => ({
+        ...group,
+        sessionIds: group.sessionIds.filter((id) => sessions.some((session) => session.id === id)),
+      }))
+      .filter((group) => group.sessionIds.length > 0);
+    const taskName =
+      layout.sessions.find((session) => session.id === TASK_TERMINAL_ID)?.name ?? taskSession.name;
+
+    return {
+      sessions: [{ ...taskSession, name: taskName }, ...sessions],
+      groups: [taskGroup, ...groups],
+      activeGroupId: [taskGroup, ...groups].some((group) => group.id === layout.activeGroupId)
+        ? layout.activeGroupId
+        : TASK_GROUP_ID,
+    };
+  } catch {
+    return createDefaultLayout();
+  }
+}
+
+export const useTerminalStore = create<TerminalState & TerminalActions>((set, get) => {
+  // 更新布局并按项目持久化
+  const updateLayout = (layout: Partial<TerminalLayout>) => {
+    set(layout);
+
+    const { projectId, sessions, groups, activeGroupId } = get();
+
+    if (projectId) {
+      localStorage.setItem(
+        getLayoutKey(projectId),
+        JSON.stringify({ sessions, groups, activeGroupId }),
+      );
+    }
+  };
+
+  return {
+    projectId: '',
+    sessions: [taskSession],
+    groups: [taskGroup],
+    activeGroupId: TASK_GROUP_ID,
+
+    restoreLayout: (projectId: string) => {
+      set({ projectId, ...loadLayout(projectId) });
+    },
+
+    // 新建标签页并在其中打开一个 jsh 会话
+    openTerminal: () => {
+      const { sessions, groups } = get();
+      const session = createShellSession(sessions);
+      const group = { id: uuidv4(), sessionIds: [session.id] };
+
+      updateLayout({
+        sessions: [...sessions, session],
+        groups: [...groups, group],
+        activeGroupId: group.id,
+      });
+    },
+
+    // 在指定标签页中分屏打开一个新的 jsh 会话；任务终端的标签页只放任务终端，改为新建标签页
+    splitTerminal: (groupId: string) => {
+      if (groupId === TASK_GROUP_ID) {
+        get().openTerminal();
+
+        return;
+      }
+
+      const { sessions, groups } = get();
+      const session = createShellSession(sessions);
+
+      updateLayout({
+        sessions: [...sessions, session],
+        groups: groups.map((group) =>
+          group.id === groupId
+            ? { ...group, sessionIds: [...group.sessionIds, session.id] }
+            : group,
+        ),
+        activeGroupId: groupId,
+      });
+    },
+
+    renameTerminal: (id: string, name: string) => {
+      const trimmed = name.trim();
+
+      if (!trimmed) return;
+
+      updateLayout({
+        sessions: get().sessions.map((session) =>
+          session.id === id ? { ...session, name: trimmed } : session,
+        ),
+      });
+    },
+
+    // 关闭会话，分组中没有会话时一并移除该标签页；任务终端不可关闭
+    killTerminal: (id: string) => {
+      if (id === TASK_TERMINAL_ID) return;
+
+      const { sessions, groups, activeGroupId } = get();
+      const nextGroups = groups
+        .map((group) => ({ ...group, sessionIds: group.sessionIds.filter((item) => item !== id) }))
+        .filter((group) => group.sessionIds.length > 0);
+      const activeIndex = groups.findIndex((group) => group.id === activeGroupId);
+
+      updateLayout({
+        sessions: sessions.filter((session) => session.id !== id),
+        groups: nextGroups,
+        activeGroupId: nextGroups.some((group) => group.id === activeGroupId)
+          ? activeGroupId
+          : nextGroups[Math.min(activeIndex, nextGroups.length - 1)].id,
+      });
+    },
+
+    setActiveGroup: (groupId: string) => updateLayout({ activeGroupId: groupId }),
+  };
+});
@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+
+import { readTrashEntries, removeTrashEntries, TrashEntry, writeTrashEntry } from '@/utils/trash';
+
+interface TrashState {
+  entries: TrashEntry[];
+  // 最近一次删除的内容，用于撤销提示
+  lastDeleted: TrashEntry[];
+}
+
+interface TrashActions {
+  loadTrash: (projectId: string) => Promise<void>;
+  addEntries: (projectId: string, entries: TrashEntry[]) => Promise<void>;
+  removeEntries: (projectId: string, ids: string[]) => Promise<void>;
+  dismissUndo: () => void;
+}
+
+export const useTrashStore = create<TrashState & TrashActions>((set) => ({
+  entries: [],
+  lastDeleted: [],
+
+  loadTrash: async (projectId: string) => {
+    try {
+      set({ entries: await readTrashEntries(projectId) });
+    } catch (error) {
+      console.error('读取回收站失败:', error);
+    }
+  },
+
+  addEntries: async (projectId: string, entries: TrashEntry[]) => {
+    await Promise.all(entries.map((entry) => writeTrashEntry(projectId, entry)));
+    set((state) => ({ entries: [...entries, ...state.entries], lastDeleted: entries }));
+  },
+
+  // 恢复或彻底删除后从回收站中移除
+  removeEntries: async (projectId: string, ids: string[]) => {
+    await removeTrashEntries(projectId, ids);
+    set((state) => ({
+      entries: state.entries.filter((entry) => !ids.includes(entry.id)),
+      lastDeleted: state.lastDeleted.filter((entry) => !ids.includes(entry.id)),
+    }));
+  },
+
+  dismissUndo: () => set({ lastDeleted: [] }),
+}));
@@ -2,17 +2,15 @@ import { create } from 'zustand';
 import { v4 as uuidv4 } from 'uuid';
 import localforage from 'localforage';
 
-export interface DirectoryInterface {
-  id: string;
-  filename: string;
-  path: string;
-  kind: 'directory' | 'file';
-  children?: DirectoryInterface[];
-  status?: string;
-  value?: string;
-}
+import { basename, dirname, isSubPath } from '@/utils/path';
+import { readJournalEntries, removeJournalEntries } from '@/utils/journal';
+import { FileContent, readNodeContent, saveFileContents } from '@/utils/fileContents';
+import { collectFiles, isLargeFile, toProjectFileData } from '@/utils/vfs';
+import { isBinaryPath } from '@/utils/binary';
+import { DirectoryInterface } from '@/types';
 
 interface FileDataState {
+  projectId: string;
   fileData: DirectoryInterface[] | null;
   selected: string;
   removeFileById: (id: string) => void;
@@ -32,6 +30,44 @@ function removeItemById(data: DirectoryInterface[], id: string): DirectoryInterf
   }, []);
 }
 
+export function findItemById(
+  data: DirectoryInterface[],
+  id: string,
+): DirectoryInterface | undefined {
+  for (const item of data) {
+    if (item.id === id) return item;
+
+    if (item.children) {
+      const found = findItemById(item.children, id);
+      if (found) return found;
+    }
+  }
+}
+
+// 填入读取到的文件内容，期间已经有内容（如被编辑或被文件监听更新）的文件保持不变
+function fillFileContents(
+  data: DirectoryInterface[],
+  contents: Map<string, FileContent>,
+): DirectoryInterface[] {
+  return data.map((item) => {
+    const content = contents.get(item.id);
+
+    if (content && item.value === undefined) return { ...item, ...content };
+
+    return item.children ? { ...item, children: fillFileContents(item.children, contents) } : item;
+  });
+}
+
+async function readContents(projectId: string, files: DirectoryInterface[]) {
+  const contents = new Map<string, FileContent>();
+
+  await Promise.all(
+    files.map(async (file) => contents.set(file.id, await readNodeContent(projectId, file))),
+  );
+
+  return contents;
+}
+
 function addItem(
   data: DirectoryInterface[],
   type: 'directory' | 'file',
@@ -136,6 +172,100 @@ function updateItem(
   });
 }
 
+export function findItemByPath(
+  data: DirectoryInterface[],
+  path: string,
+): DirectoryInterface | undefined {
+  for (const item of data) {
+    if (item.path === path) return item;
+
+    if (item.children && isSubPath(item.path, path)) {
+      const found = findItemByPath(item.children, path);
+      if (found) return found;
+    }
+  }
+}
+
+function removeItemByPath(data: DirectoryInterface[], path: string): DirectoryInterface[] {
+  return data
+    .filter((item) => item.path !== path)
+    .map((item) =>
+      item.children && isSubPath(item.path, path)
+        ? { ...item, children: removeItemByPath(item.children, path) }
+        : item,
+    );
+}
+
+// 按路径插入节点，父目录不存在时会补齐中间目录，同路径的旧节点会被替换
+function insertItemByPath(
+  data: DirectoryInterface[],
+  entry: DirectoryInterface,
+): DirectoryInterface[] {
+  const parentPath = dirname(entry.path);
+
+  if (parentPath === '/') {
+    return [...data.filter((item) => item.path !== entry.path), entry];
+  }
+
+  if (!findItemByPath(data, parentPath)) {
+    data = insertItemByPath(data, {
+      id: uuidv4(),
+      filename: basename(parentPath),
+      path: parentPath,
+      kind: 'directory',
+      children: [],
+    });
+  }
+
+  const insert = (items: DirectoryInterface[]): DirectoryInterface[] =>
+    items.map((item) => {
+      if (item.kind !== 'directory') return item;
+
+      if (item.path === parentPath) {
+        return {
+          ...item,
+          children: [...(item.children || []).filter((child) => child.path !== entry.path), entry],
+        };
+      }
+
+      if (isSubPath(item.path, parentPath)) {
+        return { ...item, children: insert(item.children || []) };
+      }
+
+      return item;
+    });
+
+  return insert(data);
+}
+
+/**
+ * 读取项目记录并合并预写日志中尚未保存的修改
+ * 先读日志再读记录：日志只会在记录保存成功后删除，这样任何时刻读到的结果都是完整的
+ *
+ * 文件内容按需读取，只有顶层目录下的文件（package.json、.prettierrc 等）随文件树一起读取，
+ * 推断启动配置和格式化时会用到
+ */
+export async function loadProjectFileData(projectId: string) {
+  const entries = await readJournalEntries(projectId);
+  const storedData = await localforage.getItem(projectId);
+
+  if (!storedData) return { projectFileData: null, entries };
+
+  const { projectFileData } = JSON.parse(storedData as string);
+  const data = entries.reduce<DirectoryInterface[]>(
+    (data, entry) => updateItem(data, entry.id, { value: entry.value }),
+    projectFileData,
+  );
+  const topLevelFiles = data
+    .flatMap((item) => item.children || [])
+    .filter((item) => item.kind === 'file' && item.value === undefined);
+
+  return {
+    projectFileData: fillFileContents(data, await readContents(projectId, topLevelFiles)),
+    entries,
+  };
+}
+
 interface FileDataActions {
   setFileData: (fileData: DirectoryInterface[] | null) => void;
   setSelected: (selected: string) => void;
@@ -146,24 +276,37 @@ interface FileDataActions {
     status?: string,
   ) => void;
   updateItem: (id: string, updatedProperties: Partial<DirectoryInterface>) => void;
+  insertItemByPath: (entry: DirectoryInterface) => void;
+  removeItemByPath: (path: string) => void;
   initFileData: (projectId: string) => Promise<DirectoryInterface[] | null>;
   clearFileData: (resist?: boolean, projectId?: string) => void;
+  persistFileData: (projectId: string) => Promise<void>;
+  loadFileContent: (id: string) => Promise<DirectoryInterface | undefined>;
+  loadAllFileContents: () => Promise<void>;
+  loadFileContents: (ids: string[]) => Promise<void>;
 }
 
+// 正在进行的全量读取，避免连续搜索时重复读取
+let loadingAllContents: Promise<void> | null = null;
+
 export const useUploadFileDataStore = create<FileDataState & FileDataActions>((set, get) => ({
+  projectId: '',
   fileData: null,
   selected: '',
   initFileData: async (projectId: string) => {
-    // console.log(projectId);
+    set({ projectId });
 
-    const storedData = await localforage.getItem(projectId);
+    const { projectFileData, entries } = await loadProjectFileData(projectId);
 
-    if (storedData) {
-      const { projectFileData } = JSON.parse(storedData as string);
-      // console.log(storedData);
-      // console.log(projectFileData);
+    if (projectFileData) {
       set({ fileData: projectFileData });
 
+      // 恢复了上次未保存的修改，立即写回项目记录
+      if (entries.length > 0) {
+        await get().persistFileData(projectId);
+        await removeJournalEntries(projectId, entries);
+      }
+
       return projectFileData;
     } else {
       return get().fileData;
@@ -172,16 +315,97 @@ export const useUploadFileDataStore = create<FileDataState & FileDataActions>((s
 
   clearFileData: async (resist = false, projectId = '') => {
     if (resist) {
-      const storedData = JSON.parse((await localforage.getItem(projectId)) ?? '') ?? '';
-      // console.log(storedData);
+      await get().persistFileData(projectId);
+    }
+  },
+  persistFileData: async (projectId: string) => {
+    const storedData = await localforage.getItem(projectId);
 
-      if (storedData !== '') {
-        const newData = {
-          ...storedData,
-          projectFileData: get().fileData,
-        };
-        await localforage.setItem(projectId, JSON.stringify(newData));
-      }
+    if (storedData) {
+      const { fileData } = get();
+
+      // 先保存文件内容再保存结构，结构中出现的文件一定能读到内容
+      await saveFileContents(projectId, fileData ?? []);
+
+      const newData = {
+        ...JSON.parse(storedData as string),
+        projectFileData: fileData && toProjectFileData(fileData),
+      };
+      await localforage.setItem(projectId, JSON.stringify(newData));
+    }
+  },
+  /**
+   * 读取文件内容（打开文件时调用），返回读取后的节点
+   * 已读取的文件和超过大小限制的文本文件不会读取
+   */
+  loadFileContent: async (id: string) => {
+    const item = findItemById(get().fileData ?? [], id);
+
+    if (!item || item.kind !== 'file' || item.value !== undefined || isLargeFile(item)) {
+      return item;
+    }
+
+    try {
+      const contents = await readContents(get().projectId, [item]);
+
+      set((state) => ({
+        fileData: state.fileData && fillFileContents(state.fileData, contents),
+      }));
+    } catch (error) {
+      console.error('读取文件内容失败:', error);
+    }
+
+    return findItemById(get().fileData ?? [], id);
+  },
+  // 搜索前读取全部文本文件的内容，大文件和二进制文件不参与搜索
+  loadAllFileContents: () => {
+    if (loadingAllContents) return loadingAllContents;
+
+    loadingAllContents = (async () => {
+      const { fileData, projectId } = get();
+      const files = collectFiles(fileData ?? []).filter(
+        (item) =>
+          item.value === undefined &&
+          !item.encoding &&
+          !isBinaryPath(item.path) &&
+          !isLargeFile(item),
+      );
+
+      if (files.length === 0) return;
+
+      const contents = await readContents(projectId, files);
+
+      set((state) => ({
+        fileData: state.fileData && fillFileContents(state.fileData, contents),
+      }));
+    })()
+      .catch((error) => console.error('读取文件内容失败:', error))
+      .finally(() => {
+        loadingAllContents = null;
+      });
+
+    return loadingAllContents;
+  },
+  // 读取指定文件的内容，已读取的文件和大文件跳过
+  loadFileContents: async (ids: string[]) => {
+    const { fileData, projectId } = get();
+    const files = ids
+      .map((id) => findItemById(fileData ?? [], id))
+      .filter(
+        (item): item is DirectoryInterface =>
+          item?.kind === 'file' && item.value === undefined && !isLargeFile(item),
+      );
+
+    if (files.length === 0) return;
+
+    try {
+      const contents = await readContents(projectId, files);
+
+      set((state) => ({
+        fileData: state.fileData && fillFileContents(state.fileData, contents),
+      }));
+    } catch (error) {
+      console.error('读取文件内容失败:', error);
     }
   },
   setSelected: (selected: string) => set({ selected }),
@@ -199,4 +423,12 @@ export const useUploadFileDataStore = create<FileDataState & FileDataActions>((s
       fileData: state.fileData ? updateItem(state.fileData, id, updatedProperties) : null,
     }));
   },
+  insertItemByPath: (entry) =>
+    set((state) => ({
+      fileData: insertItemByPath(state.fileData ?? [], entry),
+    })),
+  removeItemByPath: (path) =>
+    set((state) => ({
+      fileData: state.fileData ? removeItemByPath(state.fileData, path) : null,
+    })),
 }));
@@ -1,103 +1,186 @@
 import { create } from 'zustand';
 import { WebContainer } from '@webcontainer/api';
-import localforage from 'localforage';
 
-import { curDirectory, writeDirByLocal } from '@/utils';
+import { PREVIEW_BRIDGE_SCRIPT, curDirectory, readNodeContent, writeDirByLocal } from '@/utils';
+import { loadProjectFileData } from '@/store/uploadFileDataStore';
+import { useBootStore } from '@/store/bootStore';
+import { DirectoryInterface } from '@/types';
+
+// WebContainer 中正在监听的端口
+export interface PortInfo {
+  port: number;
+  url: string;
+  // 是否已收到 server-ready 事件（HTTP 服务已就绪）
+  ready: boolean;
+}
 
 interface WebContainerState {
   webContainerInstance: WebContainer | null;
   isInitialized: boolean;
+  ports: PortInfo[];
+  activePort: number | null;
+  // 当前预览端口的地址，没有可用端口时为空字符串
   url: string;
 }
 
 interface WebContainerActions {
   initWebContainer: (projectId?: string) => Promise<void>;
-  setUrl: (url: string) => void;
+  setActivePort: (port: number) => void;
+  clearPorts: () => void;
   setInitialized: (isInitialized: boolean) => void;
 }
 
 type WebContainerStore = WebContainerState & WebContainerActions;
 
-export const useWebContainerStore = create<WebContainerStore>((set, get) => ({
-  webContainerInstance: null,
-  isInitialized: false,
-  url: '',
-  async initWebContainer(projectId = '') {
-    const { webContainerInstance, isInitialized } = get();
-    const projectInfo = await localforage.getItem(projectId);
-
-    if (!isInitialized && !webContainerInstance) {
-      const newWebContainerInstance = await WebContainer.boot();
-      console.log('newWebContainerInstance', newWebContainerInstance);
-
-      if (projectInfo) {
-        const { projectFileData } = JSON.parse(projectInfo as string);
-        console.log('projectFileData', projectFileData);
-        await writeDirByLocal(projectFileData, newWebContainerInstance);
-      }
+// 取消上一次注册的端口事件监听，避免重复初始化时同一事件被处理多次
+let unlistenServerEvents: (() => void) | null = null;
 
-      if (curDirectory) {
-        console.log('curDirectory', curDirectory);
-        await writeDirByLocal(curDirectory, newWebContainerInstance);
-      }
+export const useWebContainerStore = create<WebContainerStore>((set, get) => {
+  // 切换预览端口，同步更新 url
+  const activatePort = (port: number | null) => {
+    const url = get().ports.find((item) => item.port === port)?.url ?? '';
+    set({ activePort: port, url });
+  };
 
-      newWebContainerInstance?.on('server-ready', (port, url) => {
-        /**
-         * 'server-ready' 事件说明：
-         * - 由 WebContainer 内部触发
-         * - 当虚拟环境中的开发服务器启动并监听端口时触发
-         * - 参数：
-         *   port: 服务器监听的端口号（如 5173）
-         *   url: WebContainer 生成的公网访问地址
-         *        格式：https://<random-id>.webcontainer.io
-         *
-         * 为什么是公网地址？
-         * - WebContainer 运行在浏览器沙箱中
-         * - 需要通过 StackBlitz 的代理服务器访问
-         * - 自动生成随机子域名隔离不同会话
-         */
-        console.log('server-ready', port, url);
-        set({ url });
-      });
-
-      set({ webContainerInstance: newWebContainerInstance, isInitialized: true });
-    } else {
-      if (projectInfo) {
-        const { projectFileData } = JSON.parse(projectInfo as any);
-        await writeDirByLocal(projectFileData, webContainerInstance as WebContainer);
-      }
+  const upsertPort = (info: PortInfo) => {
+    const { ports } = get();
+    const exists = ports.some((item) => item.port === info.port);
+
+    set({
+      ports: exists
+        ? ports.map((item) => (item.port === info.port ? { ...item, ...info } : item))
+        : [...ports, info].sort((a, b) => a.port - b.port),
+    });
+  };
+
+  const listenServerEvents = (instance: WebContainer) => {
+    unlistenServerEvents?.();
 
-      if (curDirectory) {
-        console.log('curDirectory1', curDirectory);
-        await writeDirByLocal(curDirectory, webContainerInstance!);
+    /**
+     * 'server-ready' 事件说明：
+     * - 由 WebContainer 内部触发
+     * - 当虚拟环境中的开发服务器启动并监听端口时触发
+     * - 参数：
+     *   port: 服务器监听的端口号（如 5173）
+     *   url: WebContainer 生成的公网访问地址
+     *        格式：https://<random-id>.webcontainer.io
+     *
+     * 为什么是公网地址？
+     * - WebContainer 运行在浏览器沙箱中
+     * - 需要通过 StackBlitz 的代理服务器访问
+     * - 自动生成随机子域名隔离不同会话
+     *
+     * 多个服务同时运行时（如前端 + API 服务）全部保留在端口列表中，
+     * 只有当前没有预览端口时才自动切换到新就绪的端口
+     */
+    const unlistenReady = instance.on('server-ready', (port, url) => {
+      console.log('server-ready', port, url);
+      useBootStore.getState().setStepStatus('start', 'success');
+      upsertPort({ port, url, ready: true });
+
+      if (get().activePort === null) activatePort(port);
+    });
+
+    /**
+     * 'port' 事件：端口被打开或关闭时触发
+     * 关闭的端口从列表中移除，如果正在预览则切换到剩余的第一个端口
+     */
+    const unlistenPort = instance.on('port', (port, type, url) => {
+      if (type === 'open') {
+        upsertPort({
+          port,
+          url,
+          ready: get().ports.some((item) => item.port === port && item.ready),
+        });
+
+        return;
       }
 
-      webContainerInstance?.on('server-ready', (port, url) => {
-        /**
-         * 'server-ready' 事件说明：
-         * - 由 WebContainer 内部触发
-         * - 当虚拟环境中的开发服务器启动并监听端口时触发
-         * - 参数：
-         *   port: 服务器监听的端口号（如 5173）
-         *   url: WebContainer 生成的公网访问地址
-         *        格式：https://<random-id>.webcontainer.io
-         *
-         * 为什么是公网地址？
-         * - WebContainer 运行在浏览器沙箱中
-         * - 需要通过 StackBlitz 的代理服务器访问
-         * - 自动生成随机子域名隔离不同会话
-         */
-        console.log('server-ready11', port, url);
-        set({ url });
-      });
-
-      set({ webContainerInstance: webContainerInstance, isInitialized: true });
-    }
-  },
-  setUrl(url: string) {
-    set({ url });
-  },
-  setInitialized(isInitialized: boolean) {
-    set({ isInitialized });
-  },
-}));
+      set({ ports: get().ports.filter((item) => item.port !== port) });
+
+      if (get().activePort === port) activatePort(get().ports[0]?.port ?? null);
+    });
+
+    unlistenServerEvents = () => {
+      unlistenReady();
+      unlistenPort();
+    };
+  };
+
+  return {
+    webContainerInstance: null,
+    isInitialized: false,
+    ports: [],
+    activePort: null,
+    url: '',
+    async initWebContainer(projectId = '') {
+      const { webContainerInstance, isInitialized } = get();
+      const { setStepStatus, resetSteps, loadBootConfig } = useBootStore.getState();
+      const { projectFileData } = await loadProjectFileData(projectId);
+      const loadContent = (file: DirectoryInterface) => readNodeContent(projectId, file);
+
+      resetSteps();
+      await loadBootConfig(projectId);
+
+      if (!isInitialized && !webContainerInstance) {
+        setStepStatus('boot', 'running');
+
+        const newWebContainerInstance = await WebContainer.boot();
+        console.log('newWebContainerInstance', newWebContainerInstance);
+
+        // 预览页面中注入桥接脚本，转发 console 输出和地址变化，项目中的 HTML 文件保持原样
+        try {
+          await newWebContainerInstance.setPreviewScript(PREVIEW_BRIDGE_SCRIPT);
+        } catch (error) {
+          console.error('注入预览桥接脚本失败:', error);
+        }
+
+        setStepStatus('boot', 'success');
+        setStepStatus('mount', 'running');
+
+        if (projectFileData) {
+          console.log('projectFileData', projectFileData);
+          await writeDirByLocal(projectFileData, newWebContainerInstance, loadContent);
+        }
+
+        if (curDirectory) {
+          console.log('curDirectory', curDirectory);
+          await writeDirByLocal(curDirectory, newWebContainerInstance, loadContent);
+        }
+
+        setStepStatus('mount', 'success');
+
+        listenServerEvents(newWebContainerInstance);
+
+        set({ webContainerInstance: newWebContainerInstance, isInitialized: true });
+      } else {
+        setStepStatus('boot', 'success');
+        setStepStatus('mount', 'running');
+
+        if (projectFileData) {
+          await writeDirByLocal(projectFileData, webContainerInstance as WebContainer, loadContent);
+        }
+
+        if (curDirectory) {
+          console.log('curDirectory1', curDirectory);
+          await writeDirByLocal(curDirectory, webContainerInstance!, loadContent);
+        }
+
+        setStepStatus('mount', 'success');
+
+        webContainerInstance && listenServerEvents(webContainerInstance);
+
+        set({ webContainerInstance: webContainerInstance, isInitialized: true });
+      }
+    },
+    setActivePort(port: number) {
+      activatePort(port);
+    },
+    clearPorts() {
+      set({ ports: [], activePort: null, url: '' });
+    },
+    setInitialized(isInitialized: boolean) {
+      set({ isInitialized });
+    },
+  };
+});
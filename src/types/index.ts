@@ -5,35 +5,49 @@ export interface DataNode {
   children?: DataNode[];
 }
 
-export interface EmptyFileInterface {
-  name: string;
-  kind: 'directory' | 'file';
-  path: string;
-}
+export type FileKind = 'directory' | 'file';
 
-export interface FileInterface extends EmptyFileInterface {
-  content: string;
-}
+// 二进制文件的 value 为 base64
+export type FileEncoding = 'base64';
 
-export interface FilerInterface extends FileInterface {
-  handler: FileSystemFileHandle;
+/**
+ * 虚拟文件系统中的节点，文件树、项目记录、WebContainer、zip 和本地文件夹之间统一使用该结构
+ * path 为项目路径（如 /react/src/App.tsx），不包含 WebContainer 的工作目录
+ */
+export interface DirectoryInterface {
+  id: string;
+  filename: string;
+  path: string;
+  kind: FileKind;
+  // 只有目录有 children
+  children?: DirectoryInterface[];
+  // 文件树中的临时状态，如新建中的 pending
+  status?: string;
+  // 文件内容，只有文件有 value；为 undefined 时表示内容还没有读取（按需加载）
+  value?: string;
+  // 未设置时 value 为文本内容
+  encoding?: FileEncoding;
+  // 文件大小（字节），内容还没有读取时用于判断是否为大文件
+  size?: number;
+  // 从本地文件夹导入时对应的句柄，不会写入项目记录
+  handler?: FileSystemFileHandle | FileSystemDirectoryHandle;
 }
 
-export interface DirectoryInterface extends EmptyFileInterface {
-  children: Array<FileInterface | DirectoryInterface>;
+export interface FileNode extends DirectoryInterface {
+  kind: 'file';
+  handler?: FileSystemFileHandle;
 }
 
-export interface DirectorySuperInterface extends EmptyFileInterface {
-  handler: FileSystemDirectoryHandle;
-  children: Array<FilerInterface | DirectorySuperInterface>;
+export interface DirectoryNode extends DirectoryInterface {
+  kind: 'directory';
+  children: DirectoryInterface[];
+  handler?: FileSystemDirectoryHandle;
 }
 
-export function isDirectory(
-  directory: any,
-): directory is DirectoryInterface | DirectorySuperInterface {
-  return directory.kind === 'directory';
+export function isDirectory(node: DirectoryInterface): node is DirectoryNode {
+  return node.kind === 'directory';
 }
 
-export function isFiler(file: any): file is FilerInterface {
-  return file.kind === 'file';
+export function isFile(node: DirectoryInterface): node is FileNode {
+  return node.kind === 'file';
 }
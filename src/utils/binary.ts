@@ -0,0 +1,123 @@
+import { DirectoryInterface, FileEncoding } from '@/types';
+
+/**
+ * 二进制文件（图片、字体、wasm 等）在文件树和项目记录中以 base64 保存，节点的 encoding 为 base64
+ * 写入 WebContainer、zip 和本地文件夹时还原为原始字节
+ */
+
+// 按扩展名即可确定为二进制的文件，其余文件根据内容判断
+const BINARY_EXTENSIONS = new Set([
+  'png',
+  'jpg',
+  'jpeg',
+  'gif',
+  'webp',
+  'avif',
+  'bmp',
+  'ico',
+  'icns',
+  'tif',
+  'tiff',
+  'woff',
+  'woff2',
+  'ttf',
+  'otf',
+  'eot',
+  'wasm',
+  'zip',
+  'gz',
+  'tgz',
+  'tar',
+  'pdf',
+  'mp3',
+  'mp4',
+  'wav',
+  'ogg',
+  'webm',
+  'mov',
+  'exe',
+  'dll',
+  'so',
+  'node',
+]);
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+};
+
+// 判断内容是否为文本时最多检查的字节数
+const SNIFF_LENGTH = 8000;
+
+function getExtension(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const index = name.lastIndexOf('.');
+
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+}
+
+export function isBinaryPath(path: string): boolean {
+  return BINARY_EXTENSIONS.has(getExtension(path));
+}
+
+export function getImageMimeType(path: string): string | undefined {
+  return IMAGE_MIME_TYPES[getExtension(path)];
+}
+
+export function isBinaryFile(node: DirectoryInterface | undefined | null): boolean {
+  return node?.kind === 'file' && node.encoding === 'base64';
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+
+  // 分段转换，避免参数过多导致调用栈溢出
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  return bytes;
+}
+
+/**
+ * 将读取到的原始字节转换为节点的 value
+ * 扩展名属于二进制文件、内容中包含 NUL 或不是合法的 utf-8 时按二进制保存
+ */
+export function decodeFileContent(
+  bytes: Uint8Array,
+  path: string,
+): { value: string; encoding?: FileEncoding } {
+  if (!isBinaryPath(path) && !bytes.subarray(0, SNIFF_LENGTH).includes(0)) {
+    try {
+      return { value: new TextDecoder('utf-8', { fatal: true }).decode(bytes) };
+    } catch {
+      // 不是合法的 utf-8，按二进制处理
+    }
+  }
+
+  return { value: bytesToBase64(bytes), encoding: 'base64' };
+}
+
+// 节点的原始内容，二进制文件还原为字节
+export function getFileNodeContent(
+  node: Pick<DirectoryInterface, 'value' | 'encoding'>,
+): string | Uint8Array {
+  return node.encoding === 'base64' ? base64ToBytes(node.value ?? '') : node.value ?? '';
+}
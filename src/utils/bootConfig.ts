@@ -0,0 +1,108 @@
+import { dirname } from './path';
+import { readNodeContent } from './fileContents';
+
+import { DirectoryInterface } from '@/types';
+
+/**
+ * 项目启动配置
+ * - cwd: 执行命令的工作目录
+ * - installCommand: 安装依赖的命令，留空则跳过
+ * - startCommand: 启动开发服务器的命令，留空则跳过
+ */
+export interface BootConfig {
+  cwd: string;
+  installCommand: string;
+  startCommand: string;
+}
+
+export const EMPTY_BOOT_CONFIG: BootConfig = {
+  cwd: '/',
+  installCommand: '',
+  startCommand: '',
+};
+
+// 锁文件与包管理器的对应关系，按优先级排列
+const LOCKFILE_PACKAGE_MANAGERS: [string, string][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+// 按优先级选择用于启动开发服务器的 script
+const START_SCRIPTS = ['dev', 'start', 'serve', 'preview'];
+
+// 广度优先查找离根目录最近的 package.json
+function findPackageJson(fileData: DirectoryInterface[]): DirectoryInterface | null {
+  const queue = [...fileData];
+
+  while (queue.length) {
+    const item = queue.shift()!;
+
+    if (item.kind === 'file' && item.filename === 'package.json') return item;
+
+    if (item.children) queue.push(...item.children);
+  }
+
+  return null;
+}
+
+function findSiblings(fileData: DirectoryInterface[], path: string): DirectoryInterface[] {
+  for (const item of fileData) {
+    if (item.children?.some((child) => child.path === path)) return item.children;
+
+    if (item.children) {
+      const found = findSiblings(item.children, path);
+      if (found.length) return found;
+    }
+  }
+
+  return fileData.some((item) => item.path === path) ? fileData : [];
+}
+
+/**
+ * 根据 package.json 的 scripts 和锁文件推断启动配置
+ * 没有锁文件时沿用 pnpm，找不到 package.json 时返回空配置
+ * 不在顶层目录下的 package.json 内容可能还没有读取，这里按需读取
+ */
+export async function detectBootConfig(
+  projectId: string,
+  fileData: DirectoryInterface[] | null,
+): Promise<BootConfig> {
+  const packageJson = fileData && findPackageJson(fileData);
+
+  if (!fileData || !packageJson) return EMPTY_BOOT_CONFIG;
+
+  const siblings = findSiblings(fileData, packageJson.path).map((item) => item.filename);
+  const packageManager =
+    LOCKFILE_PACKAGE_MANAGERS.find(([lockfile]) => siblings.includes(lockfile))?.[1] ?? 'pnpm';
+
+  let scripts: Record<string, string> = {};
+
+  try {
+    const { value } = await readNodeContent(projectId, packageJson);
+    scripts = JSON.parse(value || '{}').scripts ?? {};
+  } catch (error) {
+    console.error('解析 package.json 失败:', error);
+  }
+
+  const startScript = START_SCRIPTS.find((script) => scripts[script]);
+
+  return {
+    cwd: dirname(packageJson.path),
+    installCommand: `${packageManager} install`,
+    startCommand: startScript ? `${packageManager} run ${startScript}` : '',
+  };
+}
+
+// 将命令行拆分为 spawn 所需的命令和参数，支持用引号包裹带空格的参数
+export function parseCommand(commandLine: string): { command: string; args: string[] } | null {
+  const parts = commandLine
+    .match(/"[^"]*"|'[^']*'|\S+/g)
+    ?.map((part) => part.replace(/^["']|["']$/g, ''));
+
+  if (!parts || parts.length === 0) return null;
+
+  const [command, ...args] = parts;
+
+  return { command, args };
+}
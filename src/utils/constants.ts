@@ -18,6 +18,18 @@ export const UPLOAD_FILE_DATA: string = 'UPLOAD_FILE_DATA';
 
 export const STORAGE_KEY_AUTH = 'ONLINE_EDIT_AUTH';
 
+export const STORAGE_KEY_SETTINGS = 'ONLINE_EDIT_SETTINGS';
+
+export const STORAGE_KEY_TERMINAL_LAYOUT = 'ONLINE_EDIT_TERMINAL_LAYOUT';
+
+export const STORAGE_KEY_LOCAL_FOLDER = 'ONLINE_EDIT_LOCAL_FOLDER';
+
+// 超过该大小的文本文件不在编辑器中打开，也不参与搜索
+export const MAX_EDITOR_FILE_SIZE = 5 * 1024 * 1024;
+
+// 超过该大小的文件在导入时跳过
+export const MAX_IMPORT_FILE_SIZE = 50 * 1024 * 1024;
+
 export const DEFAULT_PRETTIER_CONFIG: string = `{
   "printWidth": 80,
   "tabWidth": 2,
@@ -33,9 +33,18 @@ export function addNewModel(
   setActiveModel: (modelId: string, model: modelType, editorId: number) => void,
   editorId: number,
 ) {
-  const modelUri = monaco.Uri.file(modelInfo.id);
+  // 以文件路径作为 uri，TypeScript 语言服务按 uri 解析相对导入并判断文件类型
+  const modelUri = monaco.Uri.file(modelInfo.path ?? modelInfo.id);
+  const existing = monaco.editor.getModel(modelUri);
+  // 关闭文件后 model 仍然保留，同一路径上可能已经是另一个文件，内容不一致时重新创建
+  const isStale =
+    existing &&
+    (existing.getValue() !== modelInfo.value || existing.getLanguageId() !== modelInfo.language);
+
+  isStale && existing.dispose();
+
   const model =
-    monaco.editor.getModel(modelUri) ||
+    (!isStale && existing) ||
     monaco.editor.createModel(modelInfo.value, modelInfo.language, modelUri);
   // console.log(monaco.editor.getModel(modelUri));
   // eslint-disable-next-line @typescript-eslint/ban-ts-comment
@@ -46,3 +55,50 @@ export function addNewModel(
 
   return model;
 }
+
+// 以编辑操作的方式整体替换 model 内容，保留撤销栈
+export function replaceModelValue(model: editor.ITextModel, value: string) {
+  if (model.getValue() === value) return;
+
+  model.pushEditOperations(
+    [],
+    [
+      {
+        range: model.getFullModelRange(),
+        text: value,
+      },
+    ],
+    () => null,
+  );
+}
+
+/**
+ * 文件路径变化后在新路径上重新创建 model，显示旧 model 的编辑器切换到新 model 并保留视图状态
+ * model 的 uri 不能修改，重新创建后撤销记录不会保留
+ */
+export function moveModel(
+  monaco: typeof monacoForType,
+  model: editor.ITextModel,
+  path: string,
+  language: string,
+  editors: (editor.IStandaloneCodeEditor | null)[],
+): editor.ITextModel {
+  const uri = monaco.Uri.file(path);
+
+  if (model.uri.toString() === uri.toString()) return model;
+
+  monaco.editor.getModel(uri)?.dispose();
+
+  const moved = monaco.editor.createModel(model.getValue(), language, uri);
+
+  editors.forEach((item) => {
+    if (!item || item.getModel() !== model) return;
+
+    const viewState = item.saveViewState();
+    item.setModel(moved);
+    viewState && item.restoreViewState(viewState);
+  });
+  model.dispose();
+
+  return moved;
+}
@@ -0,0 +1,315 @@
+import monacoForType, { editor, languages, IRange } from 'monaco-editor';
+
+/**
+ * 编辑器中的 ESLint 检查：在 WebContainer 中运行一个常驻的 Node 进程，
+ * 使用项目自己安装的 eslint 和配置文件检查编辑器中的内容，结果转换为 Monaco markers 和快速修复
+ */
+export interface LintFix {
+  // 替换范围，为检查内容中的字符偏移
+  range: [number, number];
+  text: string;
+}
+
+export interface LintMessage {
+  ruleId: string | null;
+  // 1 为警告，2 为错误
+  severity: 1 | 2;
+  message: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  fatal?: boolean;
+  fix?: LintFix;
+  suggestions?: { desc: string; fix: LintFix }[];
+}
+
+// 检查服务输出的一行消息
+export type LintServerMessage =
+  | { type: 'ready' }
+  // 项目没有安装 eslint
+  | { type: 'unavailable'; message: string }
+  | { id: number; messages: LintMessage[] }
+  | { id: number; error: string };
+
+// 与问题面板中终端输出的 eslint 问题使用不同的 owner，互不覆盖
+export const LINT_MARKER_OWNER = 'eslint-live';
+// 检查服务脚本相对项目目录的路径，放在 node_modules 中不会出现在文件树里，并且能直接 require 到项目的 eslint
+export const ESLINT_SERVER_PATH = 'node_modules/.online-edit/eslint-server.cjs';
+
+// 检查服务输出的消息都以此开头，与 eslint 自身打印的警告区分
+const MESSAGE_PREFIX = '@@online-edit-eslint ';
+
+const LINTABLE_EXTENSIONS = [
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.ts',
+  '.tsx',
+  '.mts',
+  '.cts',
+  '.vue',
+  '.svelte',
+];
+// 注册快速修复的语言 id
+export const LINTABLE_LANGUAGES = ['javascript', 'typescript', 'vue', 'svelte'];
+
+/**
+ * 检查服务，从 stdin 逐行读取 { id, filePath, text }，向 stdout 逐行输出检查结果
+ * 配置文件（包括 .eslintignore 和 package.json）变化后重新创建 ESLint 实例，读取最新的配置；
+ * eslint 8.57 及以上版本通过 loadESLint 同时支持 eslint.config.js 和 .eslintrc
+ */
+export const ESLINT_SERVER_SCRIPT = `const fs = require('fs');
+const path = require('path');
+const readline = require('readline');
+
+const PREFIX = ${JSON.stringify(MESSAGE_PREFIX)};
+const CONFIG_FILES = [
+  'eslint.config.js',
+  'eslint.config.mjs',
+  'eslint.config.cjs',
+  'eslint.config.ts',
+  '.eslintrc',
+  '.eslintrc.js',
+  '.eslintrc.cjs',
+  '.eslintrc.yaml',
+  '.eslintrc.yml',
+  '.eslintrc.json',
+  '.eslintignore',
+  'package.json',
+];
+
+const send = (message) => process.stdout.write(PREFIX + JSON.stringify(message) + '\\n');
+
+let eslintModule;
+
+try {
+  eslintModule = require(require.resolve('eslint', { paths: [process.cwd()] }));
+} catch (error) {
+  send({ type: 'unavailable', message: String(error && error.message) });
+  process.exit(0);
+}
+
+let instance = null;
+const fingerprints = new Map();
+
+function configFingerprint(directory) {
+  const stats = [];
+
+  for (let dir = directory; ; dir = path.dirname(dir)) {
+    for (const name of CONFIG_FILES) {
+      try {
+        const stat = fs.statSync(path.join(dir, name));
+        stats.push(path.join(dir, name) + ':' + stat.mtimeMs + ':' + stat.size);
+      } catch {}
+    }
+
+    if (path.dirname(dir) === dir) break;
+  }
+
+  return stats.join('|');
+}
+
+async function getESLint(filePath) {
+  const directory = path.dirname(filePath);
+  const fingerprint = configFingerprint(directory);
+  const previous = fingerprints.get(directory);
+
+  fingerprints.set(directory, fingerprint);
+
+  if (!instance || (previous !== undefined && previous !== fingerprint)) {
+    const ESLint = eslintModule.loadESLint ? await eslintModule.loadESLint() : eslintModule.ESLint;
+    instance = new ESLint({ cwd: process.cwd() });
+  }
+
+  return instance;
+}
+
+async function lint({ id, filePath, text }) {
+  try {
+    const absolutePath = path.resolve(process.cwd(), filePath);
+    const eslint = await getESLint(absolutePath);
+
+    if (await eslint.isPathIgnored(absolutePath)) return send({ id, messages: [] });
+
+    const [result] = await eslint.lintText(text, { filePath: absolutePath, warnIgnored: false });
+    send({ id, messages: result ? result.messages : [] });
+  } catch (error) {
+    send({ id, error: String(error && error.message) });
+  }
+}
+
+let queue = Promise.resolve();
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+  let request;
+
+  try {
+    request = JSON.parse(line);
+  } catch {
+    return;
+  }
+
+  queue = queue.then(() => lint(request));
+});
+
+send({ type: 'ready' });
+`;
+
+export function isLintableFile(path: string): boolean {
+  return LINTABLE_EXTENSIONS.some((extension) => path.endsWith(extension));
+}
+
+/**
+ * 将检查服务的输出拆分为完整的行，解析其中的消息
+ * 输出可能在任意位置被截断，未结束的行留到下次拼接
+ */
+export function createLintMessageReader(onMessage: (message: LintServerMessage) => void) {
+  let buffer = '';
+
+  return (chunk: string) => {
+    const lines = (buffer + chunk).split('\n');
+    buffer = lines.pop() ?? '';
+
+    lines.forEach((raw) => {
+      const index = raw.indexOf(MESSAGE_PREFIX);
+
+      if (index === -1) return;
+
+      try {
+        onMessage(JSON.parse(raw.slice(index + MESSAGE_PREFIX.length)));
+      } catch {
+        // 不完整的消息忽略
+      }
+    });
+  };
+}
+
+export function toLintMarkers(
+  monaco: typeof monacoForType,
+  model: editor.ITextModel,
+  messages: LintMessage[],
+): editor.IMarkerData[] {
+  return messages.map((message) => {
+    const startLineNumber = Math.min(Math.max(message.line || 1, 1), model.getLineCount());
+    const startColumn = Math.max(message.column || 1, 1);
+    let endLineNumber = startLineNumber;
+    let endColumn = model.getLineMaxColumn(startLineNumber);
+
+    if (message.endLine && message.endColumn) {
+      endLineNumber = Math.min(message.endLine, model.getLineCount());
+      endColumn = message.endColumn;
+    } else {
+      // 没有结束位置时标记光标所在的单词
+      const word = model.getWordAtPosition({ lineNumber: startLineNumber, column: startColumn });
+      word && (endColumn = word.endColumn);
+    }
+
+    return {
+      severity:
+        message.severity === 2 ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+      message: message.message,
+      code: message.ruleId ?? undefined,
+      source: 'eslint',
+      startLineNumber,
+      startColumn,
+      endLineNumber,
+      endColumn,
+    };
+  });
+}
+
+function toWorkspaceEdit(
+  monaco: typeof monacoForType,
+  model: editor.ITextModel,
+  versionId: number,
+  fixes: LintFix[],
+): languages.WorkspaceEdit {
+  return {
+    edits: fixes.map(({ range, text }) => ({
+      resource: model.uri,
+      versionId,
+      textEdit: {
+        range: monaco.Range.fromPositions(
+          model.getPositionAt(range[0]),
+          model.getPositionAt(range[1]),
+        ),
+        text,
+      },
+    })),
+  };
+}
+
+// 按位置排序后去掉与前面重叠的修复，与 eslint --fix 一样一次只应用互不冲突的部分
+function mergeFixes(fixes: LintFix[]): LintFix[] {
+  let end = -1;
+
+  return [...fixes]
+    .sort((a, b) => a.range[0] - b.range[0])
+    .filter(({ range }) => {
+      if (range[0] < end) return false;
+
+      end = range[1];
+
+      return true;
+    });
+}
+
+/**
+ * 光标或选中范围内问题的快速修复：问题自带的修复、规则提供的建议，以及一次修复整个文件
+ * @param versionId 检查时 model 的版本，内容已经变化时不提供修复
+ */
+export function getLintCodeActions(
+  monaco: typeof monacoForType,
+  model: editor.ITextModel,
+  versionId: number,
+  messages: LintMessage[],
+  range: IRange,
+): languages.CodeAction[] {
+  if (model.getVersionId() !== versionId) return [];
+
+  const actions: languages.CodeAction[] = [];
+  const markers = toLintMarkers(monaco, model, messages);
+
+  messages.forEach((message, index) => {
+    const marker = markers[index];
+    const rule = message.ruleId ? ` (${message.ruleId})` : '';
+
+    if (
+      marker.endLineNumber < range.startLineNumber ||
+      marker.startLineNumber > range.endLineNumber
+    ) {
+      return;
+    }
+
+    message.fix &&
+      actions.push({
+        title: `修复: ${message.message}${rule}`,
+        kind: 'quickfix',
+        diagnostics: [marker],
+        isPreferred: true,
+        edit: toWorkspaceEdit(monaco, model, versionId, [message.fix]),
+      });
+
+    message.suggestions?.forEach((suggestion) =>
+      actions.push({
+        title: `${suggestion.desc}${rule}`,
+        kind: 'quickfix',
+        diagnostics: [marker],
+        edit: toWorkspaceEdit(monaco, model, versionId, [suggestion.fix]),
+      }),
+    );
+  });
+
+  const fixes = messages.flatMap(({ fix }) => (fix ? [fix] : []));
+
+  fixes.length > 0 &&
+    actions.push({
+      title: '修复所有可自动修复的 ESLint 问题',
+      kind: 'quickfix',
+      edit: toWorkspaceEdit(monaco, model, versionId, mergeFixes(fixes)),
+    });
+
+  return actions;
+}
@@ -0,0 +1,103 @@
+import localforage from 'localforage';
+
+import { collectFiles, getFileContent } from './vfs';
+
+import { DirectoryInterface, FileEncoding } from '@/types';
+
+/**
+ * 按文件分块保存的文件内容
+ * 项目记录中只保存文件树结构，每个文件的内容以 `${projectId}:${id}` 为 key 单独保存在 IndexedDB 中，
+ * 打开项目时只读取结构，打开文件、搜索或挂载到 WebContainer 时再按需读取内容
+ */
+export interface FileContent {
+  value: string;
+  encoding?: FileEncoding;
+}
+
+const contentStore = localforage.createInstance({
+  name: 'online-edit',
+  storeName: 'file_contents',
+});
+
+const contentKey = (projectId: string, id: string) => `${projectId}:${id}`;
+
+// 最近一次写入或读取到的内容，保存项目时只写入有变化的文件
+const savedContents = new Map<string, string>();
+
+export async function readFileContents(projectId: string, id: string): Promise<FileContent | null> {
+  const content = await contentStore.getItem<FileContent>(contentKey(projectId, id));
+
+  content && savedContents.set(contentKey(projectId, id), content.value);
+
+  return content;
+}
+
+/**
+ * 读取节点的内容
+ * 已读取的直接返回，从本地文件夹导入的节点通过句柄读取，其余从 IndexedDB 读取；都没有时为空文件
+ */
+export async function readNodeContent(
+  projectId: string,
+  node: DirectoryInterface,
+): Promise<FileContent> {
+  if (node.value !== undefined) return { value: node.value, encoding: node.encoding };
+
+  if (node.handler?.kind === 'file') {
+    return getFileContent(await (node.handler as FileSystemFileHandle).getFile());
+  }
+
+  return (await readFileContents(projectId, node.id)) ?? { value: '' };
+}
+
+/**
+ * 保存项目中文件的内容，只写入有变化的文件，并删除文件树中已经不存在的文件
+ * 内容还没有读取的文件保持不变，从本地文件夹导入的节点会在这里通过句柄读取一次
+ */
+export async function saveFileContents(projectId: string, nodes: DirectoryInterface[]) {
+  const files = collectFiles(nodes);
+  const ids = new Set(files.map((file) => file.id));
+
+  for (const file of files) {
+    if (file.value === undefined && file.handler?.kind !== 'file') continue;
+
+    const key = contentKey(projectId, file.id);
+    const content = await readNodeContent(projectId, file);
+
+    if (savedContents.get(key) === content.value) continue;
+
+    await contentStore.setItem<FileContent>(key, content);
+    savedContents.set(key, content.value);
+  }
+
+  const keys = (await contentStore.keys()).filter((key) => key.startsWith(`${projectId}:`));
+
+  await Promise.all(
+    keys
+      .filter((key) => !ids.has(key.slice(projectId.length + 1)))
+      .map((key) => {
+        savedContents.delete(key);
+
+        return contentStore.removeItem(key);
+      }),
+  );
+}
+
+/**
+ * 返回读取了全部文件内容的文件树副本，用于导出 zip、写入本地文件夹等需要完整内容的场景
+ */
+export async function withFileContents(
+  projectId: string,
+  nodes: DirectoryInterface[],
+): Promise<DirectoryInterface[]> {
+  const result: DirectoryInterface[] = [];
+
+  for (const node of nodes) {
+    if (node.kind === 'file') {
+      result.push({ ...node, ...(await readNodeContent(projectId, node)) });
+    } else {
+      result.push({ ...node, children: await withFileContents(projectId, node.children ?? []) });
+    }
+  }
+
+  return result;
+}
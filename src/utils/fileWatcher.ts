@@ -0,0 +1,112 @@
+import { WebContainer } from '@webcontainer/api';
+import { v4 as uuidv4 } from 'uuid';
+
+import debounce from './debounce';
+import { basename, dirname, joinPath, normalizePath } from './path';
+import { readFileContent } from './webcontainer';
+
+import { DirectoryInterface } from '@/types';
+
+// 与导入本地目录时保持一致，这些目录的内容不会进入文件树
+export const WATCH_IGNORED_DIRECTORIES = ['node_modules', '.git', '.vscode'];
+
+export type FileSystemEntryKind = 'directory' | 'file';
+
+export function isIgnoredPath(path: string): boolean {
+  return normalizePath(path)
+    .split('/')
+    .some((segment) => WATCH_IGNORED_DIRECTORIES.includes(segment));
+}
+
+function decodeWatchFilename(filename: string | Uint8Array): string {
+  return typeof filename === 'string' ? filename : new TextDecoder().decode(filename);
+}
+
+/**
+ * 监听 WebContainer 根目录下的所有变化
+ * fs.watch 只告诉我们“某个路径变了”，因此同一时间窗口内的事件会被合并去重，
+ * 由调用方自行读取磁盘确定该路径当前的状态
+ *
+ * @returns 取消监听的函数
+ */
+export function watchFileSystem(
+  webcontainerInstance: WebContainer,
+  onChange: (paths: string[]) => void,
+  wait: number = 100,
+): () => void {
+  const pending = new Set<string>();
+  let closed = false;
+
+  const flush = debounce(() => {
+    if (closed || pending.size === 0) return;
+
+    const paths = [...pending];
+    pending.clear();
+    onChange(paths);
+  }, wait);
+
+  const watcher = webcontainerInstance.fs.watch('/', { recursive: true }, (_event, filename) => {
+    const path = normalizePath(decodeWatchFilename(filename));
+
+    if (path === '/' || isIgnoredPath(path)) return;
+
+    pending.add(path);
+    flush();
+  });
+
+  return () => {
+    closed = true;
+    pending.clear();
+    watcher.close();
+  };
+}
+
+// WebContainer 没有提供 stat，通过读取父目录判断路径是否存在以及类型
+export async function getEntryKind(
+  webcontainerInstance: WebContainer,
+  path: string,
+): Promise<FileSystemEntryKind | null> {
+  try {
+    const entries = await webcontainerInstance.fs.readdir(dirname(path), { withFileTypes: true });
+    const entry = entries.find((item) => item.name === basename(path));
+
+    if (!entry) return null;
+
+    return entry.isDirectory() ? 'directory' : 'file';
+  } catch {
+    return null;
+  }
+}
+
+// 从磁盘读取一个路径并构造成文件树节点，目录会递归读取
+export async function readEntry(
+  webcontainerInstance: WebContainer,
+  path: string,
+  kind: FileSystemEntryKind,
+): Promise<DirectoryInterface> {
+  const entry: DirectoryInterface = {
+    id: uuidv4(),
+    filename: basename(path),
+    path,
+    kind,
+  };
+
+  if (kind === 'file') {
+    return { ...entry, ...(await readFileContent(path, webcontainerInstance)) };
+  }
+
+  const dirs = await webcontainerInstance.fs.readdir(path, { withFileTypes: true });
+  const children: DirectoryInterface[] = [];
+
+  for (const item of dirs) {
+    const childPath = joinPath(path, item.name);
+
+    if (isIgnoredPath(childPath)) continue;
+
+    children.push(
+      await readEntry(webcontainerInstance, childPath, item.isDirectory() ? 'directory' : 'file'),
+    );
+  }
+
+  return { ...entry, children };
+}
@@ -0,0 +1,81 @@
+import monacoForType from 'monaco-editor';
+import { createHighlighter } from 'shiki';
+import { shikiToMonaco } from '@shikijs/monaco';
+
+import { MONACO_THEME_ARRAY } from './constants';
+import { getLanguageGrammar, LANGUAGE_REGISTRY } from './languages';
+
+/**
+ * 使用 Shiki 为 Monaco 提供语法高亮
+ * 所有编辑器共用一个 highlighter，语法在第一次打开对应语言的文件时才加载
+ */
+type Monaco = typeof monacoForType;
+
+let highlighterPromise: ReturnType<typeof createHighlighter> | null = null;
+let originalSetTheme: Monaco['editor']['setTheme'] | null = null;
+// 加载语法和注册高亮依次进行，避免同时注册时主题状态错乱
+let pending: Promise<void> = Promise.resolve();
+const requestedGrammars = new Set<string>();
+let initialized = false;
+
+function getHighlighter() {
+  highlighterPromise ??= createHighlighter({ themes: MONACO_THEME_ARRAY, langs: [] });
+
+  return highlighterPromise;
+}
+
+/**
+ * shikiToMonaco 只为调用时已经加载的语法注册高亮，加载新的语法后需要重新调用
+ * 每次调用都会包装 setTheme 并切换到第一个主题，调用前恢复原始的 setTheme，调用后切回当前主题
+ */
+async function applyHighlighter(monaco: Monaco) {
+  const highlighter = await getHighlighter();
+  const currentTheme = localStorage.getItem('localTheme');
+
+  originalSetTheme ??= monaco.editor.setTheme;
+  monaco.editor.setTheme = originalSetTheme;
+  shikiToMonaco(highlighter, monaco);
+
+  currentTheme && MONACO_THEME_ARRAY.includes(currentTheme) && monaco.editor.setTheme(currentTheme);
+}
+
+export function loadLanguageGrammar(monaco: Monaco, languageId: string): Promise<void> {
+  const grammar = getLanguageGrammar(languageId);
+
+  if (!grammar || requestedGrammars.has(grammar)) return pending;
+
+  requestedGrammars.add(grammar);
+  pending = pending
+    .then(async () => {
+      const highlighter = await getHighlighter();
+
+      await highlighter.loadLanguage(grammar);
+      await applyHighlighter(monaco);
+    })
+    .catch((error) => console.error('加载语法高亮失败:', error));
+
+  return pending;
+}
+
+/**
+ * 注册文件类型注册表中的语言，并在第一次遇到某个语言时加载它的语法
+ * 多个编辑器挂载时只需要注册一次，返回时已经打开的文件的语法已经加载完成
+ */
+export async function setupHighlighter(monaco: Monaco) {
+  if (!initialized) {
+    initialized = true;
+
+    const registered = new Set(monaco.languages.getLanguages().map(({ id }) => id));
+
+    new Set(LANGUAGE_REGISTRY.map(({ id }) => id)).forEach((id) => {
+      !registered.has(id) && monaco.languages.register({ id });
+      monaco.languages.onLanguage(id, () => loadLanguageGrammar(monaco, id));
+    });
+
+    await applyHighlighter(monaco);
+  }
+
+  await Promise.all(
+    monaco.editor.getModels().map((model) => loadLanguageGrammar(monaco, model.getLanguageId())),
+  );
+}
@@ -0,0 +1,181 @@
+import { dirname, isSubPath, joinPath, normalizePath } from './path';
+
+import { DirectoryInterface } from '@/types';
+
+/**
+ * 文件或目录移动/重命名后，更新其他文件中指向它们的相对导入路径，
+ * 以及被移动的文件自身指向其他文件的相对导入路径
+ */
+export interface PathChange {
+  from: string;
+  to: string;
+}
+
+export interface ImportPathEdit {
+  id: string;
+  path: string;
+  value: string;
+}
+
+// 会被检查导入语句的文件
+const SCRIPT_EXTENSIONS = [
+  '.js',
+  '.jsx',
+  '.ts',
+  '.tsx',
+  '.mjs',
+  '.cjs',
+  '.mts',
+  '.cts',
+  '.vue',
+  '.svelte',
+];
+// 导入路径中可以省略的扩展名，按模块解析的顺序排列
+const RESOLVE_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.mts',
+  '.cts',
+  '.vue',
+  '.svelte',
+  '.json',
+];
+
+// import x from './a'、import './a'、import('./a')、export * from './a'、require('./a')
+const IMPORT_PATTERN =
+  /(\bfrom\s*|\bimport\s*\(?\s*|\brequire\s*\(\s*)(['"])(\.\.?\/[^'"\r\n]*)\2/g;
+
+function getExtension(path: string): string {
+  const filename = path.slice(path.lastIndexOf('/') + 1);
+  const index = filename.lastIndexOf('.');
+
+  return index > 0 ? filename.slice(index) : '';
+}
+
+export function isScriptFile(path: string): boolean {
+  return SCRIPT_EXTENSIONS.includes(getExtension(path));
+}
+
+// 节点是否可能被导入：可以省略扩展名导入的文件，或包含这类文件（含 index 文件）的目录
+export function isImportTarget(entry: DirectoryInterface): boolean {
+  if (entry.kind === 'file') return RESOLVE_EXTENSIONS.includes(getExtension(entry.path));
+
+  return (entry.children ?? []).some(isImportTarget);
+}
+
+function replacePrefix(path: string, from: string, to: string): string | null {
+  if (path === from) return to;
+
+  return isSubPath(from, path) ? joinPath(to, path.slice(from.length)) : null;
+}
+
+// 从 fromDir 目录指向 to 的相对导入路径，同目录下以 ./ 开头
+export function relativeSpecifier(fromDir: string, to: string): string {
+  const fromSegments = normalizePath(fromDir).split('/').filter(Boolean);
+  const toSegments = normalizePath(to).split('/').filter(Boolean);
+  let common = 0;
+
+  while (
+    common < fromSegments.length &&
+    common < toSegments.length &&
+    fromSegments[common] === toSegments[common]
+  ) {
+    common++;
+  }
+
+  const ups = fromSegments.slice(common).map(() => '..');
+  const rest = toSegments.slice(common);
+
+  return ups.length > 0 ? [...ups, ...rest].join('/') : `./${rest.join('/')}`;
+}
+
+// 按照模块解析规则找到导入路径实际指向的文件，返回文件路径和导入路径中省略的部分
+export function resolveImport(
+  base: string,
+  paths: Set<string>,
+): { path: string; omitted: string } | null {
+  if (paths.has(base)) return { path: base, omitted: '' };
+
+  for (const extension of RESOLVE_EXTENSIONS) {
+    const file = `${base}${extension}`;
+
+    if (paths.has(file)) return { path: file, omitted: 'extension' };
+  }
+
+  for (const extension of RESOLVE_EXTENSIONS) {
+    const index = joinPath(base, `index${extension}`);
+
+    if (paths.has(index)) return { path: index, omitted: 'index' };
+  }
+
+  return null;
+}
+
+// 按原导入路径的写法省略新路径的扩展名或 /index
+function omitResolvedPart(path: string, omitted: string): string {
+  const extension = getExtension(path);
+
+  if (omitted === 'extension' && RESOLVE_EXTENSIONS.includes(extension)) {
+    return path.slice(0, -extension.length);
+  }
+
+  if (omitted === 'index' && path.slice(path.lastIndexOf('/') + 1).startsWith('index.')) {
+    return dirname(path);
+  }
+
+  return path;
+}
+
+/**
+ * 计算需要修改导入路径的文件及修改后的内容
+ * @param files 移动后的所有文件，内容需要已经读取
+ * @param changes 本次移动的文件或目录的原路径与新路径
+ */
+export function updateImportPaths(
+  files: DirectoryInterface[],
+  changes: PathChange[],
+): ImportPathEdit[] {
+  const toPrevious = (path: string) =>
+    changes.reduce<string | null>(
+      (found, { from, to }) => found ?? replacePrefix(path, to, from),
+      null,
+    ) ?? path;
+  const toCurrent = (path: string) =>
+    changes.reduce<string | null>(
+      (found, { from, to }) => found ?? replacePrefix(path, from, to),
+      null,
+    ) ?? path;
+  const previousPaths = new Set(files.map((file) => toPrevious(file.path)));
+  const edits: ImportPathEdit[] = [];
+
+  files.forEach((file) => {
+    if (!isScriptFile(file.path) || !file.value) return;
+
+    const previousPath = toPrevious(file.path);
+    const value = file.value.replace(IMPORT_PATTERN, (match, prefix, quote, specifier: string) => {
+      const [, pathPart, suffix] = specifier.match(/^([^?#]*)(.*)$/) ?? [];
+      const target = resolveImport(joinPath(dirname(previousPath), pathPart), previousPaths);
+
+      if (!target) return match;
+
+      const currentTarget = toCurrent(target.path);
+
+      if (currentTarget === target.path && file.path === previousPath) return match;
+
+      const updated = relativeSpecifier(
+        dirname(file.path),
+        omitResolvedPart(currentTarget, target.omitted),
+      );
+
+      return `${prefix}${quote}${updated}${suffix}${quote}`;
+    });
+
+    value !== file.value && edits.push({ id: file.id, path: file.path, value });
+  });
+
+  return edits;
+}
@@ -2,6 +2,7 @@ export * from './cn';
 export * from './constants';
 export * from './editor';
 export * from './getLocalDirectory';
+export * from './vfs';
 export * from './route';
 export * from './webcontainer';
 export * from './file';
@@ -14,3 +15,22 @@ export * from './matchHelper';
 export * from './hexToRgba';
 export * from './throttle';
 export * from './createColorFromId';
+export * from './path';
+export * from './fileWatcher';
+export * from './journal';
+export * from './bootConfig';
+export * from './problemMatcher';
+export * from './previewBridge';
+export * from './localFolder';
+export * from './binary';
+export * from './fileContents';
+export * from './projectStorage';
+export * from './trash';
+export * from './importPaths';
+export * from './snapshots';
+export * from './prettier';
+export * from './prettierConfig';
+export * from './typescript';
+export * from './languages';
+export * from './highlighter';
+export * from './eslint';
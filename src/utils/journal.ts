@@ -0,0 +1,47 @@
+import localforage from 'localforage';
+
+/**
+ * 自动保存的预写日志
+ * 每次编辑先以“单个文件”为粒度写入日志，再合并进项目记录；
+ * 合并前页面崩溃或被关闭时，下次打开项目会从日志中恢复未保存的修改
+ */
+export interface JournalEntry {
+  id: string;
+  path: string;
+  value: string;
+  updatedAt: number;
+}
+
+const journalStore = localforage.createInstance({
+  name: 'online-edit',
+  storeName: 'autosave_journal',
+});
+
+const journalKey = (projectId: string, id: string) => `${projectId}:${id}`;
+
+export async function writeJournalEntries(projectId: string, entries: JournalEntry[]) {
+  await Promise.all(
+    entries.map((entry) => journalStore.setItem(journalKey(projectId, entry.id), entry)),
+  );
+}
+
+export async function readJournalEntries(projectId: string): Promise<JournalEntry[]> {
+  const keys = (await journalStore.keys()).filter((key) => key.startsWith(`${projectId}:`));
+  const entries = await Promise.all(keys.map((key) => journalStore.getItem<JournalEntry>(key)));
+
+  return entries.filter((entry): entry is JournalEntry => entry !== null);
+}
+
+// 只删除已经合并的版本，合并期间产生的新日志保留到下一次
+export async function removeJournalEntries(projectId: string, entries: JournalEntry[]) {
+  await Promise.all(
+    entries.map(async (entry) => {
+      const key = journalKey(projectId, entry.id);
+      const current = await journalStore.getItem<JournalEntry>(key);
+
+      if (current && current.updatedAt <= entry.updatedAt) {
+        await journalStore.removeItem(key);
+      }
+    }),
+  );
+}
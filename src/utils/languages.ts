@@ -0,0 +1,124 @@
+import type { BundledLanguage } from 'shiki';
+
+/**
+ * 文件类型注册表：文件名/扩展名对应的 Monaco 语言 id、Shiki 语法和文件图标
+ * 编辑器、语法高亮和资源管理器的图标都从这里查找，新增文件类型只需要在这里添加
+ */
+export interface LanguageEntry {
+  // Monaco 中的语言 id，TypeScript/JavaScript 语言服务只处理 typescript 和 javascript
+  id: string;
+  // 扩展名，包含开头的点，不区分大小写
+  extensions?: string[];
+  // 完整匹配的文件名，优先于扩展名
+  filenames?: string[];
+  filenamePattern?: RegExp;
+  // Shiki 语法，名称或别名需要与语言 id 相同，在第一次打开该语言的文件时加载；
+  // 没有时使用 Monaco 自带的高亮
+  grammar?: BundledLanguage;
+  // public/images/fileIcon 下的图标名
+  icon: string;
+}
+
+// 没有匹配到任何文件类型时使用
+export const PLAINTEXT_LANGUAGE: LanguageEntry = { id: 'plaintext', icon: 'json' };
+
+export const LANGUAGE_REGISTRY: LanguageEntry[] = [
+  { id: 'typescript', extensions: ['.ts', '.mts', '.cts'], grammar: 'typescript', icon: 'ts' },
+  // tsx/jsx 也使用 typescript/javascript 语言 id 才能获得语言服务
+  { id: 'typescript', extensions: ['.tsx'], grammar: 'typescript', icon: 'jsx' },
+  {
+    id: 'javascript',
+    extensions: ['.js', '.mjs', '.cjs'],
+    grammar: 'javascript',
+    icon: 'JavaScript',
+  },
+  { id: 'javascript', extensions: ['.jsx'], grammar: 'javascript', icon: 'jsx' },
+  { id: 'vue', extensions: ['.vue'], grammar: 'vue', icon: 'vue' },
+  { id: 'svelte', extensions: ['.svelte'], grammar: 'svelte', icon: 'html' },
+  { id: 'html', extensions: ['.html', '.htm'], grammar: 'html', icon: 'html' },
+  { id: 'css', extensions: ['.css'], grammar: 'css', icon: 'css' },
+  { id: 'scss', extensions: ['.scss', '.sass'], grammar: 'scss', icon: 'scss' },
+  { id: 'less', extensions: ['.less'], grammar: 'less', icon: 'less' },
+  {
+    id: 'json',
+    extensions: ['.json', '.jsonc', '.json5', '.map'],
+    filenames: ['.babelrc', '.eslintrc', '.swcrc'],
+    grammar: 'json',
+    icon: 'json',
+  },
+  {
+    id: 'markdown',
+    extensions: ['.md', '.markdown', '.mdx'],
+    grammar: 'markdown',
+    icon: 'markdown',
+  },
+  // Prettier 把 .prettierrc 当作 YAML 解析，格式化时同样使用 YAML
+  {
+    id: 'yaml',
+    extensions: ['.yml', '.yaml'],
+    filenames: ['.prettierrc'],
+    grammar: 'yaml',
+    icon: 'yaml',
+  },
+  { id: 'toml', extensions: ['.toml'], grammar: 'toml', icon: 'json' },
+  {
+    id: 'ini',
+    extensions: ['.ini', '.properties'],
+    filenames: ['.editorconfig', '.npmrc', '.env'],
+    filenamePattern: /^\.env\./,
+    grammar: 'ini',
+    icon: 'json',
+  },
+  { id: 'xml', extensions: ['.xml'], grammar: 'xml', icon: 'html' },
+  // svg 可以作为文本编辑，图标仍然显示为图片
+  { id: 'xml', extensions: ['.svg'], grammar: 'xml', icon: 'image' },
+  { id: 'python', extensions: ['.py'], grammar: 'python', icon: 'json' },
+  {
+    id: 'shell',
+    extensions: ['.sh', '.bash', '.zsh'],
+    filenames: ['.bashrc', '.zshrc', '.profile'],
+    grammar: 'shellscript',
+    icon: 'json',
+  },
+  {
+    id: 'dockerfile',
+    extensions: ['.dockerfile'],
+    filenames: ['Dockerfile'],
+    filenamePattern: /^Dockerfile\./,
+    grammar: 'docker',
+    icon: 'json',
+  },
+  { id: 'graphql', extensions: ['.graphql', '.gql'], grammar: 'graphql', icon: 'json' },
+  { id: 'sql', extensions: ['.sql'], grammar: 'sql', icon: 'json' },
+  { id: 'plaintext', extensions: ['.txt', '.log'], icon: 'json' },
+  // 图片按二进制预览，只需要图标
+  {
+    id: 'plaintext',
+    extensions: ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.ico'],
+    icon: 'image',
+  },
+];
+
+function getExtension(filename: string): string {
+  const index = filename.lastIndexOf('.');
+
+  return index > 0 ? filename.slice(index).toLowerCase() : '';
+}
+
+export function getLanguageEntry(filename: string): LanguageEntry {
+  const name = filename.slice(filename.lastIndexOf('/') + 1);
+  const extension = getExtension(name);
+
+  return (
+    LANGUAGE_REGISTRY.find(
+      (entry) => entry.filenames?.includes(name) || entry.filenamePattern?.test(name),
+    ) ??
+    LANGUAGE_REGISTRY.find((entry) => entry.extensions?.includes(extension)) ??
+    PLAINTEXT_LANGUAGE
+  );
+}
+
+// 语言 id 对应的 Shiki 语法，同一个语言 id 的各个文件类型使用相同的语法
+export function getLanguageGrammar(id: string): BundledLanguage | undefined {
+  return LANGUAGE_REGISTRY.find((entry) => entry.id === id && entry.grammar)?.grammar;
+}
@@ -0,0 +1,182 @@
+import localforage from 'localforage';
+
+import { STORAGE_KEY_LOCAL_FOLDER } from './constants';
+import { normalizePath } from './path';
+
+/**
+ * 关联本地文件夹
+ * 项目的顶层目录（如 /react）对应关联的本地文件夹，其下的路径按相对路径映射到本地
+ * 文件夹句柄保存在 IndexedDB 中，页面刷新后需要用户重新授权才能继续写入
+ */
+
+const getStorageKey = (projectId: string) => `${STORAGE_KEY_LOCAL_FOLDER}_${projectId}`;
+
+export function saveFolderHandle(projectId: string, handle: FileSystemDirectoryHandle) {
+  return localforage.setItem(getStorageKey(projectId), handle);
+}
+
+export function loadFolderHandle(projectId: string) {
+  return localforage.getItem<FileSystemDirectoryHandle>(getStorageKey(projectId));
+}
+
+export function removeFolderHandle(projectId: string) {
+  return localforage.removeItem(getStorageKey(projectId));
+}
+
+/**
+ * 查询或申请文件夹的读写权限，申请权限必须在用户操作（如点击）中调用
+ */
+export function getFolderPermission(handle: FileSystemDirectoryHandle, request = false) {
+  return request
+    ? handle.requestPermission({ mode: 'readwrite' })
+    : handle.queryPermission({ mode: 'readwrite' });
+}
+
+// 项目路径相对于顶层目录的各级名称，顶层目录本身返回空数组
+export function getLocalSegments(path: string): string[] {
+  return normalizePath(path).split('/').slice(2);
+}
+
+function isNotFoundError(error: unknown) {
+  return error instanceof DOMException && error.name === 'NotFoundError';
+}
+
+async function getDirectoryHandle(
+  root: FileSystemDirectoryHandle,
+  segments: string[],
+  create = false,
+): Promise<FileSystemDirectoryHandle> {
+  let handle = root;
+
+  for (const segment of segments) {
+    handle = await handle.getDirectoryHandle(segment, { create });
+  }
+
+  return handle;
+}
+
+async function getLocalFile(root: FileSystemDirectoryHandle, path: string): Promise<File | null> {
+  const segments = getLocalSegments(path);
+
+  if (segments.length === 0) return null;
+
+  try {
+    const directory = await getDirectoryHandle(root, segments.slice(0, -1));
+    const fileHandle = await directory.getFileHandle(segments[segments.length - 1]);
+
+    return await fileHandle.getFile();
+  } catch (error) {
+    if (isNotFoundError(error)) return null;
+
+    throw error;
+  }
+}
+
+/**
+ * 读取本地文件的文本内容，文件不存在时返回 null
+ */
+export async function readLocalFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+): Promise<string | null> {
+  const file = await getLocalFile(root, path);
+
+  return file && file.text();
+}
+
+export async function writeLocalFile(
+  root: FileSystemDirectoryHandle,
+  path: string,
+  content: string | Uint8Array,
+) {
+  const segments = getLocalSegments(path);
+
+  if (segments.length === 0) return;
+
+  const directory = await getDirectoryHandle(root, segments.slice(0, -1), true);
+  const fileHandle = await directory.getFileHandle(segments[segments.length - 1], {
+    create: true,
+  });
+  const writable = await fileHandle.createWritable();
+
+  await writable.write(content);
+  await writable.close();
+}
+
+export async function createLocalDirectory(root: FileSystemDirectoryHandle, path: string) {
+  await getDirectoryHandle(root, getLocalSegments(path), true);
+}
+
+/**
+ * 删除本地文件或目录，已经不存在时忽略
+ */
+export async function removeLocalEntry(root: FileSystemDirectoryHandle, path: string) {
+  const segments = getLocalSegments(path);
+
+  if (segments.length === 0) return;
+
+  try {
+    const directory = await getDirectoryHandle(root, segments.slice(0, -1));
+    await directory.removeEntry(segments[segments.length - 1], { recursive: true });
+  } catch (error) {
+    if (!isNotFoundError(error)) throw error;
+  }
+}
+
+async function copyDirectoryContent(
+  source: FileSystemDirectoryHandle,
+  target: FileSystemDirectoryHandle,
+) {
+  for await (const handle of source.values()) {
+    if (handle.kind === 'directory') {
+      await copyDirectoryContent(
+        handle,
+        await target.getDirectoryHandle(handle.name, { create: true }),
+      );
+    } else {
+      const file = await handle.getFile();
+      const fileHandle = await target.getFileHandle(handle.name, { create: true });
+      const writable = await fileHandle.createWritable();
+
+      await writable.write(new Uint8Array(await file.arrayBuffer()));
+      await writable.close();
+    }
+  }
+}
+
+/**
+ * 移动（重命名）本地文件或目录
+ * 目录的移动 API 支持有限，统一以复制后删除实现，目录下的内容以本地磁盘上的为准
+ */
+export async function moveLocalEntry(
+  root: FileSystemDirectoryHandle,
+  from: string,
+  to: string,
+  kind: 'directory' | 'file',
+) {
+  const fromSegments = getLocalSegments(from);
+
+  if (fromSegments.length === 0 || getLocalSegments(to).length === 0) return;
+
+  if (kind === 'file') {
+    const file = await getLocalFile(root, from);
+
+    if (!file) return;
+
+    await writeLocalFile(root, to, new Uint8Array(await file.arrayBuffer()));
+  } else {
+    let source: FileSystemDirectoryHandle;
+
+    try {
+      source = await getDirectoryHandle(root, fromSegments);
+    } catch (error) {
+      if (isNotFoundError(error)) return;
+
+      throw error;
+    }
+
+    await copyDirectoryContent(source, await getDirectoryHandle(root, getLocalSegments(to), true));
+  }
+
+  await removeLocalEntry(root, from);
+}
@@ -1,6 +1,7 @@
 import { TreeViewElement } from '@/components/extension/tree-view-api';
 import { SearchOptions, ViewMode } from '@/store/fileSearchStore';
 import { combinePatterns, getBeforeAfter } from '@/utils/matchHelper';
+import { isBinaryFile } from '@/utils/binary';
 
 //列表模式类型
 export type MatchDetail = {
@@ -17,7 +18,7 @@ export type MatchResult = {
   filename: string;
   fileId: string;
   rawValue: string;
-  kind: string;
+  kind: TreeViewElement['kind'];
   matches: MatchDetail[]; // 包含所有匹配项的细节
 };
 
@@ -25,7 +26,6 @@ export type MatchResult = {
 export interface TreeMatchResult extends TreeViewElement {
   children?: TreeMatchResult[];
   matches?: MatchDetail[];
-  path?: string;
 }
 
 export interface FilterFiles {
@@ -139,7 +139,14 @@ function searchElements(
 
     const isOpenTarget = openFilesId === null ? true : openFilesId.has(element.id);
 
-    if (element.kind === 'file' && element.value && isIncluded && !isExcluded && isOpenTarget) {
+    if (
+      element.kind === 'file' &&
+      element.value &&
+      !isBinaryFile(element) &&
+      isIncluded &&
+      !isExcluded &&
+      isOpenTarget
+    ) {
       const lines = element.value.split('\n');
 
       const matchesInFile = searchLines(lines, key, isCaseSensitive, isWholeWord, isRegex, element);
@@ -226,7 +233,14 @@ function searchElementsToTree(
 
     const isOpenTarget = openFilesId === null ? true : openFilesId.has(element.id);
 
-    if (element.kind === 'file' && element.value && isIncluded && !isExcluded && isOpenTarget) {
+    if (
+      element.kind === 'file' &&
+      element.value &&
+      !isBinaryFile(element) &&
+      isIncluded &&
+      !isExcluded &&
+      isOpenTarget
+    ) {
       matchesInFile = searchLines(
         element.value.split('\n'),
         key,
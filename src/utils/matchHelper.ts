@@ -4,11 +4,11 @@ import { TreeViewElement } from '@/components/extension/tree-view-api';
 import { modelsType } from '@/store/editorStore';
 import { FilterFiles, MatchDetail, MatchResult, TreeMatchResult } from '@/utils/match';
 
-export interface RenderedListItem extends Partial<MatchResult & MatchDetail> {
+export interface RenderedListItem extends Partial<Omit<MatchResult, 'kind'> & MatchDetail> {
   kind: TreeViewElement['kind'] | 'match';
 }
 
-export interface RenderedTreeItem extends Partial<TreeMatchResult & MatchDetail> {
+export interface RenderedTreeItem extends Partial<Omit<TreeMatchResult, 'kind'> & MatchDetail> {
   level: number;
   kind: TreeViewElement['kind'] | 'match';
 }
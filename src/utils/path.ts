@@ -0,0 +1,53 @@
+/**
+ * WebContainer 与文件树统一使用以 / 开头的绝对路径，如 /react/src/App.tsx
+ */
+export function normalizePath(path: string): string {
+  const segments: string[] = [];
+
+  path.split('/').forEach((segment) => {
+    if (!segment || segment === '.') return;
+
+    segment === '..' ? segments.pop() : segments.push(segment);
+  });
+
+  return `/${segments.join('/')}`;
+}
+
+export function dirname(path: string): string {
+  const normalized = normalizePath(path);
+  const index = normalized.lastIndexOf('/');
+
+  return index <= 0 ? '/' : normalized.slice(0, index);
+}
+
+export function basename(path: string): string {
+  const normalized = normalizePath(path);
+
+  return normalized.slice(normalized.lastIndexOf('/') + 1);
+}
+
+export function joinPath(...paths: string[]): string {
+  return normalizePath(paths.join('/'));
+}
+
+// child 是否位于 parent 目录之下（不包含 parent 自身）
+export function isSubPath(parent: string, child: string): boolean {
+  const normalizedParent = normalizePath(parent);
+  const normalizedChild = normalizePath(child);
+
+  if (normalizedParent === normalizedChild) return false;
+
+  return normalizedChild.startsWith(normalizedParent === '/' ? '/' : `${normalizedParent}/`);
+}
+
+// to 相对于 from 目录的路径，to 不在 from 之下时返回规范化后的 to
+export function relativePath(from: string, to: string): string {
+  const normalizedFrom = normalizePath(from);
+  const normalizedTo = normalizePath(to);
+
+  if (normalizedFrom === normalizedTo) return '';
+
+  if (!isSubPath(normalizedFrom, normalizedTo)) return normalizedTo;
+
+  return normalizedTo.slice(normalizedFrom === '/' ? 1 : normalizedFrom.length + 1);
+}
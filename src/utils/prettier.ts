@@ -0,0 +1,155 @@
+import type { Plugin } from 'prettier';
+import type { editor } from 'monaco-editor';
+
+/**
+ * 按文件类型选择 Prettier 解析器，插件在第一次格式化对应类型的文件时才加载
+ */
+type PrettierPluginName =
+  | 'babel'
+  | 'estree'
+  | 'typescript'
+  | 'postcss'
+  | 'html'
+  | 'markdown'
+  | 'yaml';
+
+interface PrettierParser {
+  parser: string;
+  plugins: PrettierPluginName[];
+}
+
+const pluginLoaders: Record<PrettierPluginName, () => Promise<unknown>> = {
+  babel: () => import('prettier/plugins/babel'),
+  estree: () => import('prettier/plugins/estree'),
+  typescript: () => import('prettier/plugins/typescript'),
+  postcss: () => import('prettier/plugins/postcss'),
+  html: () => import('prettier/plugins/html'),
+  markdown: () => import('prettier/plugins/markdown'),
+  yaml: () => import('prettier/plugins/yaml'),
+};
+
+const javascriptParser: PrettierParser = { parser: 'babel', plugins: ['babel', 'estree'] };
+const typescriptParser: PrettierParser = {
+  parser: 'typescript',
+  plugins: ['typescript', 'estree'],
+};
+const jsonParser: PrettierParser = { parser: 'json', plugins: ['babel', 'estree'] };
+// html 和 vue 文件中内嵌的脚本和样式同样需要格式化
+const htmlPlugins: PrettierPluginName[] = ['html', 'babel', 'estree', 'typescript', 'postcss'];
+
+const parserMap: Record<string, PrettierParser> = {
+  js: javascriptParser,
+  jsx: javascriptParser,
+  mjs: javascriptParser,
+  cjs: javascriptParser,
+  ts: typescriptParser,
+  tsx: typescriptParser,
+  mts: typescriptParser,
+  cts: typescriptParser,
+  json: jsonParser,
+  babelrc: jsonParser,
+  css: { parser: 'css', plugins: ['postcss'] },
+  scss: { parser: 'scss', plugins: ['postcss'] },
+  less: { parser: 'less', plugins: ['postcss'] },
+  html: { parser: 'html', plugins: htmlPlugins },
+  htm: { parser: 'html', plugins: htmlPlugins },
+  vue: { parser: 'vue', plugins: htmlPlugins },
+  md: { parser: 'markdown', plugins: ['markdown'] },
+  markdown: { parser: 'markdown', plugins: ['markdown'] },
+  yaml: { parser: 'yaml', plugins: ['yaml'] },
+  yml: { parser: 'yaml', plugins: ['yaml'] },
+  // 与 Prettier 一样把 .prettierrc 当作 YAML，JSON 写法也是合法的 YAML
+  prettierrc: { parser: 'yaml', plugins: ['yaml'] },
+};
+
+const loadedPlugins = new Map<PrettierPluginName, Promise<Plugin>>();
+
+function loadPlugin(name: PrettierPluginName): Promise<Plugin> {
+  if (!loadedPlugins.has(name)) {
+    loadedPlugins.set(name, pluginLoaders[name]() as Promise<Plugin>);
+  }
+
+  return loadedPlugins.get(name)!;
+}
+
+// 不支持格式化的文件返回 null
+export function getPrettierParser(filePath: string): PrettierParser | null {
+  const filename = filePath.slice(filePath.lastIndexOf('/') + 1);
+  const extension = filename.slice(filename.lastIndexOf('.') + 1).toLowerCase();
+
+  return parserMap[extension] ?? null;
+}
+
+/**
+ * 格式化代码并换算光标位置，传入 range 时只格式化该范围（字符偏移）
+ * 配置中的 parser 和 plugins 不生效，始终按文件类型选择
+ */
+export async function formatCode(
+  code: string,
+  filePath: string,
+  config: Record<string, any>,
+  cursorOffset: number,
+  range?: { start: number; end: number },
+): Promise<{ formatted: string; cursorOffset: number } | null> {
+  const parser = getPrettierParser(filePath);
+
+  if (!parser) return null;
+
+  const [prettier, plugins] = await Promise.all([
+    import('prettier/standalone'),
+    Promise.all(parser.plugins.map(loadPlugin)),
+  ]);
+
+  return prettier.formatWithCursor(code, {
+    ...config,
+    parser: parser.parser,
+    plugins,
+    cursorOffset,
+    filepath: filePath,
+    ...(range ? { rangeStart: range.start, rangeEnd: range.end } : {}),
+  });
+}
+
+/**
+ * 格式化编辑器中的文件，selectionOnly 为 true 时只格式化选中的内容
+ * 以一次编辑操作替换内容，可以整体撤销；代码有语法错误时抛出 Prettier 的错误
+ */
+export async function formatEditor(
+  codeEditor: editor.IStandaloneCodeEditor,
+  filePath: string,
+  config: Record<string, any>,
+  selectionOnly: boolean = false,
+) {
+  const model = codeEditor.getModel();
+  const selection = codeEditor.getSelection();
+
+  if (!model || !filePath) return;
+
+  const range =
+    selectionOnly && selection && !selection.isEmpty()
+      ? {
+          start: model.getOffsetAt(selection.getStartPosition()),
+          end: model.getOffsetAt(selection.getEndPosition()),
+        }
+      : undefined;
+  const position = codeEditor.getPosition();
+  const code = model.getValue();
+
+  const result = await formatCode(
+    code,
+    filePath,
+    config,
+    position ? model.getOffsetAt(position) : 0,
+    range,
+  );
+
+  // 格式化期间内容发生了变化时放弃这次结果
+  if (!result || result.formatted === code || model.getValue() !== code) return;
+
+  codeEditor.pushUndoStop();
+  codeEditor.executeEdits('prettier', [
+    { range: model.getFullModelRange(), text: result.formatted },
+  ]);
+  codeEditor.pushUndoStop();
+  codeEditor.setPosition(model.getPositionAt(result.cursorOffset));
+}
@@ -0,0 +1,317 @@
+import JSON5 from 'json5';
+import ignore from 'ignore';
+import * as minimatch from 'minimatch';
+import { parse as parseYAML } from 'yaml';
+import { parse as parseTOML } from 'smol-toml';
+
+import { readNodeContent } from './fileContents';
+import { dirname, joinPath, relativePath } from './path';
+
+import { DirectoryInterface } from '@/types';
+
+/**
+ * 按 Prettier 的规则解析某个文件使用的格式化配置：
+ * 从文件所在目录向上查找第一个配置文件（包括 package.json 中的 prettier 字段），
+ * 合并 .editorconfig 中的缩进、行宽和换行符设置，并检查项目根目录的 .prettierignore
+ */
+export interface PrettierConfigError {
+  // 出错的配置文件路径
+  path: string;
+  message: string;
+}
+
+export interface ResolvedPrettierConfig {
+  config: Record<string, any>;
+  // 被 .prettierignore 忽略的文件不格式化
+  ignored: boolean;
+  errors: PrettierConfigError[];
+}
+
+interface PrettierOverride {
+  files: string | string[];
+  excludeFiles?: string | string[];
+  options?: Record<string, any>;
+}
+
+type ConfigParser = (content: string) => unknown;
+
+// 没有找到 Prettier 配置文件时使用
+export const basePrettierConfig = {
+  tabWidth: 4,
+  useTabs: false,
+  semi: true,
+  singleQuote: false,
+  printWidth: 100,
+  trailingComma: 'es5' as const,
+  arrowParens: 'always' as const,
+};
+
+// 只支持导出对象字面量的 JS 配置，不执行配置文件中的代码
+const parseJSConfig: ConfigParser = (content) => {
+  const match = content.match(/(?:module\.exports\s*=|export\s+default)\s*(\{[\s\S]*\})/);
+
+  if (!match) throw new Error('只支持 module.exports 或 export default 导出的对象字面量');
+
+  return JSON5.parse(match[1]);
+};
+
+// 按 Prettier 查找配置文件的顺序排列
+const configParsers: [string, ConfigParser][] = [
+  ['package.json', (content) => JSON.parse(content).prettier],
+  ['package.yaml', (content) => parseYAML(content)?.prettier],
+  ['.prettierrc', parseYAML],
+  ['.prettierrc.json', JSON.parse],
+  ['.prettierrc.yaml', parseYAML],
+  ['.prettierrc.yml', parseYAML],
+  ['.prettierrc.json5', JSON5.parse],
+  ['.prettierrc.js', parseJSConfig],
+  ['prettier.config.js', parseJSConfig],
+  ['.prettierrc.mjs', parseJSConfig],
+  ['prettier.config.mjs', parseJSConfig],
+  ['.prettierrc.cjs', parseJSConfig],
+  ['prettier.config.cjs', parseJSConfig],
+  ['.prettierrc.toml', parseTOML],
+];
+
+function findNode(nodes: DirectoryInterface[], path: string): DirectoryInterface | undefined {
+  for (const node of nodes) {
+    if (node.path === path) return node;
+
+    if (node.kind === 'directory' && path.startsWith(`${node.path}/`)) {
+      return findNode(node.children ?? [], path);
+    }
+  }
+}
+
+function findChild(directory: DirectoryInterface | undefined, filename: string) {
+  return directory?.children?.find((item) => item.kind === 'file' && item.filename === filename);
+}
+
+// 从文件所在目录到项目根目录的所有目录，由近到远排列
+function ancestorDirectories(nodes: DirectoryInterface[], filePath: string): DirectoryInterface[] {
+  const directories: DirectoryInterface[] = [];
+  let path = dirname(filePath);
+
+  while (true) {
+    const directory = findNode(nodes, path);
+
+    if (!directory) break;
+
+    directories.push(directory);
+
+    if (path === '/') break;
+
+    path = dirname(path);
+  }
+
+  return directories;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// 没有 / 的模式匹配任意目录下的文件名
+function matchGlob(path: string, patterns: string | string[]): boolean {
+  return ([] as string[]).concat(patterns).some((pattern) =>
+    minimatch.minimatch(path, pattern.replace(/^\//, ''), {
+      dot: true,
+      matchBase: !pattern.includes('/'),
+    }),
+  );
+}
+
+function applyOverrides(
+  config: Record<string, any>,
+  configDir: string,
+  filePath: string,
+): Record<string, any> {
+  const { overrides, ...options } = config;
+  const path = relativePath(configDir, filePath);
+
+  return ((overrides ?? []) as PrettierOverride[]).reduce(
+    (result, override) =>
+      matchGlob(path, override.files) &&
+      !(override.excludeFiles && matchGlob(path, override.excludeFiles))
+        ? { ...result, ...override.options }
+        : result,
+    options,
+  );
+}
+
+interface EditorConfigSection {
+  pattern: string;
+  properties: Record<string, string>;
+}
+
+function parseEditorConfig(content: string): { root: boolean; sections: EditorConfigSection[] } {
+  const sections: EditorConfigSection[] = [];
+  const preamble: Record<string, string> = {};
+
+  content.split(/\r?\n/).forEach((raw) => {
+    const line = raw.trim();
+
+    if (!line || line.startsWith('#') || line.startsWith(';')) return;
+
+    const section = line.match(/^\[(.+)\]$/);
+
+    if (section) {
+      sections.push({ pattern: section[1], properties: {} });
+
+      return;
+    }
+
+    const index = line.search(/[=:]/);
+
+    if (index <= 0) return;
+
+    const properties = sections.length > 0 ? sections[sections.length - 1].properties : preamble;
+    properties[line.slice(0, index).trim().toLowerCase()] = line
+      .slice(index + 1)
+      .trim()
+      .toLowerCase();
+  });
+
+  return { root: preamble.root === 'true', sections };
+}
+
+// .editorconfig 中 Prettier 会使用的设置
+function editorConfigToPrettier(properties: Record<string, string>): Record<string, any> {
+  const config: Record<string, any> = {};
+  const indentSize = Number(properties.indent_size);
+  const tabWidth = Number(properties.tab_width);
+  const printWidth = Number(properties.max_line_length);
+
+  if (properties.indent_style === 'tab' || properties.indent_style === 'space') {
+    config.useTabs = properties.indent_style === 'tab';
+  }
+
+  if (indentSize > 0) {
+    config.tabWidth = indentSize;
+  } else if (tabWidth > 0) {
+    config.tabWidth = tabWidth;
+  }
+
+  printWidth > 0 && (config.printWidth = printWidth);
+
+  if (['lf', 'crlf', 'cr'].includes(properties.end_of_line)) {
+    config.endOfLine = properties.end_of_line;
+  }
+
+  return config;
+}
+
+// 由远到近应用各级 .editorconfig，遇到 root = true 时不再向上查找
+async function resolveEditorConfig(
+  projectId: string,
+  directories: DirectoryInterface[],
+  filePath: string,
+): Promise<Record<string, string>> {
+  const files: { directory: string; content: string }[] = [];
+
+  for (const directory of directories) {
+    const node = findChild(directory, '.editorconfig');
+
+    if (!node) continue;
+
+    const { value } = await readNodeContent(projectId, node);
+    files.unshift({ directory: directory.path, content: value });
+
+    if (parseEditorConfig(value).root) break;
+  }
+
+  return files.reduce<Record<string, string>>((properties, { directory, content }) => {
+    const path = relativePath(directory, filePath);
+
+    parseEditorConfig(content).sections.forEach(({ pattern, properties: section }) => {
+      matchGlob(path, pattern) && Object.assign(properties, section);
+    });
+
+    return properties;
+  }, {});
+}
+
+interface FoundPrettierConfig {
+  path: string;
+  directory: string;
+  config: unknown;
+  // 配置文件解析失败时的错误信息
+  error?: string;
+}
+
+// 距离文件最近的配置文件，package.json 中没有 prettier 字段时继续查找
+async function findPrettierConfig(
+  projectId: string,
+  directories: DirectoryInterface[],
+): Promise<FoundPrettierConfig | null> {
+  for (const directory of directories) {
+    for (const [filename, parse] of configParsers) {
+      const node = findChild(directory, filename);
+
+      if (!node) continue;
+
+      const { value } = await readNodeContent(projectId, node);
+      const found = { path: joinPath(directory.path, filename), directory: directory.path };
+
+      try {
+        const config = parse(value);
+
+        if (config === undefined && filename.startsWith('package.')) continue;
+
+        return { ...found, config };
+      } catch (error) {
+        return { ...found, config: undefined, error: getErrorMessage(error) };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 解析文件的 Prettier 配置，配置文件有错误时忽略该配置并在 errors 中返回错误
+ * @param nodes 项目的文件树
+ * @param filePath 要格式化的文件路径
+ */
+export async function resolvePrettierConfig(
+  projectId: string,
+  nodes: DirectoryInterface[],
+  filePath: string,
+): Promise<ResolvedPrettierConfig> {
+  const directories = ancestorDirectories(nodes, filePath);
+  const root = directories[directories.length - 1];
+  const ignoreFile = findChild(root, '.prettierignore');
+  const found = await findPrettierConfig(projectId, directories);
+  const editorConfig = editorConfigToPrettier(
+    await resolveEditorConfig(projectId, directories, filePath),
+  );
+  const errors: PrettierConfigError[] = [];
+  // 找到配置文件时与 Prettier 一样，没有设置的选项使用 Prettier 的默认值
+  let config: Record<string, any> = { ...basePrettierConfig, ...editorConfig };
+  let ignored = false;
+
+  if (ignoreFile) {
+    const { value } = await readNodeContent(projectId, ignoreFile);
+    ignored = ignore().add(value).ignores(relativePath(root.path, filePath));
+  }
+
+  if (found?.error) {
+    errors.push({ path: found.path, message: found.error });
+  } else if (found && (typeof found.config !== 'object' || found.config === null)) {
+    // package.json 中的 prettier 字段可以是共享配置的包名，这里无法加载
+    errors.push({
+      path: found.path,
+      message:
+        typeof found.config === 'string'
+          ? `不支持引用共享配置 ${found.config}`
+          : '配置内容需要是一个对象',
+    });
+  } else if (found) {
+    config = {
+      ...editorConfig,
+      ...applyOverrides(found.config as Record<string, any>, found.directory, filePath),
+    };
+  }
+
+  return { config, ignored, errors };
+}
@@ -0,0 +1,103 @@
+/**
+ * 预览桥接脚本
+ * 通过 WebContainer 的 setPreviewScript 注入到预览页面中，运行在预览页面内（与编辑器跨域），通过 postMessage 与编辑器通信：
+ * - 转发 console.* 调用和未捕获的错误
+ * - 上报页面地址变化（包括 pushState / replaceState / hashchange）
+ * 页面运行在 iframe 中时发给 parent，运行在独立的预览窗口中时发给 opener
+ * 只在预览服务返回的 HTML 中注入，不会写入项目文件，也不会进入构建产物
+ */
+
+export const PREVIEW_BRIDGE_SOURCE = 'online-edit-preview-bridge';
+
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export type PreviewBridgeMessage =
+  | {
+      source: typeof PREVIEW_BRIDGE_SOURCE;
+      type: 'console';
+      level: PreviewConsoleLevel;
+      args: string[];
+    }
+  | { source: typeof PREVIEW_BRIDGE_SOURCE; type: 'location'; url: string };
+
+export const PREVIEW_BRIDGE_SCRIPT = `(function () {
+  var target = window.parent !== window ? window.parent : window.opener;
+  if (window.__previewBridge || !target) return;
+  window.__previewBridge = true;
+
+  var SOURCE = '${PREVIEW_BRIDGE_SOURCE}';
+  var MAX_LENGTH = 10000;
+
+  function post(message) {
+    message.source = SOURCE;
+    try {
+      target.postMessage(message, '*');
+    } catch (e) {}
+  }
+
+  function serialize(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.stack || value.name + ': ' + value.message;
+    if (typeof value === 'function') return 'ƒ ' + (value.name || 'anonymous') + '()';
+    if (typeof value !== 'object' || value === null) return String(value);
+    if (typeof Element !== 'undefined' && value instanceof Element) return '<' + value.tagName.toLowerCase() + '>';
+
+    var seen = new WeakSet();
+    try {
+      var text = JSON.stringify(value, function (key, item) {
+        if (typeof item === 'bigint') return item.toString() + 'n';
+        if (typeof item === 'function') return 'ƒ ' + (item.name || 'anonymous') + '()';
+        if (typeof item === 'object' && item !== null) {
+          if (seen.has(item)) return '[Circular]';
+          seen.add(item);
+        }
+        return item;
+      }, 2);
+      return text.length > MAX_LENGTH ? text.slice(0, MAX_LENGTH) + '…' : text;
+    } catch (e) {
+      return Object.prototype.toString.call(value);
+    }
+  }
+
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      post({ type: 'console', level: level, args: Array.prototype.map.call(arguments, serialize) });
+      return original.apply(console, arguments);
+    };
+  });
+
+  window.addEventListener('error', function (event) {
+    var detail = event.error ? serialize(event.error) : event.message + ' (' + event.filename + ':' + event.lineno + ':' + event.colno + ')';
+    post({ type: 'console', level: 'error', args: ['Uncaught ' + detail] });
+  });
+
+  window.addEventListener('unhandledrejection', function (event) {
+    post({ type: 'console', level: 'error', args: ['Uncaught (in promise) ' + serialize(event.reason)] });
+  });
+
+  function reportLocation() {
+    post({ type: 'location', url: location.href });
+  }
+
+  ['pushState', 'replaceState'].forEach(function (name) {
+    var original = history[name];
+    history[name] = function () {
+      var result = original.apply(this, arguments);
+      reportLocation();
+      return result;
+    };
+  });
+
+  window.addEventListener('popstate', reportLocation);
+  window.addEventListener('hashchange', reportLocation);
+  reportLocation();
+})();`;
+
+export function isPreviewBridgeMessage(data: unknown): data is PreviewBridgeMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { source?: string }).source === PREVIEW_BRIDGE_SOURCE
+  );
+}
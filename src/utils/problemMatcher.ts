@@ -0,0 +1,286 @@
+import { joinPath, normalizePath } from '@/utils/path';
+
+export type ProblemSource = 'tsc' | 'vite' | 'eslint';
+export type ProblemSeverity = 'error' | 'warning' | 'info';
+
+export const PROBLEM_SOURCES: ProblemSource[] = ['tsc', 'vite', 'eslint'];
+
+export interface ProblemMatch {
+  source: ProblemSource;
+  severity: ProblemSeverity;
+  // 输出中打印的文件路径，可能是相对路径或 WebContainer 中的绝对路径
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+  code?: string;
+}
+
+interface ProblemMatcher {
+  source: ProblemSource;
+  // 该行是否表示新一轮检查开始，上一轮的问题需要清空
+  isRunStart: (line: string) => boolean;
+  // 处理一行输出，返回该行产生的问题
+  matchLine: (line: string) => ProblemMatch[];
+}
+
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]|\x1b\][^\x07]*\x07/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+function toSeverity(text: string): ProblemSeverity {
+  const lower = text.toLowerCase();
+
+  if (lower === 'error') return 'error';
+
+  return lower === 'warning' ? 'warning' : 'info';
+}
+
+/**
+ * tsc 输出
+ * src/App.tsx(10,5): error TS2322: ...
+ * src/App.tsx:10:5 - error TS2322: ...（--pretty）
+ */
+function createTscMatcher(): ProblemMatcher {
+  const patterns = [
+    /^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/,
+    /^(.+?):(\d+):(\d+) - (error|warning|message) (TS\d+): (.*)$/,
+  ];
+
+  return {
+    source: 'tsc',
+    isRunStart: (line) =>
+      /Starting compilation in watch mode|File change detected\. Starting incremental compilation/.test(
+        line,
+      ),
+    matchLine: (line) => {
+      for (const pattern of patterns) {
+        const match = pattern.exec(line);
+
+        if (match) {
+          const [, file, row, column, severity, code, message] = match;
+
+          return [
+            {
+              source: 'tsc',
+              severity: toSeverity(severity),
+              file,
+              line: Number(row),
+              column: Number(column),
+              message,
+              code,
+            },
+          ];
+        }
+      }
+
+      return [];
+    },
+  };
+}
+
+/**
+ * vite 输出
+ * [plugin:vite:react-babel] /home/project/react/src/App.tsx: Unexpected token (10:5)
+ * [vite] Internal server error: Transform failed ... 之后跟随 File: /path/App.tsx:10:5
+ * ✘ [ERROR] Expected ";" but found "x" 之后跟随 src/App.tsx:10:5:（esbuild）
+ */
+function createViteMatcher(): ProblemMatcher {
+  // 等待位置信息的错误消息
+  let pending: { message: string; code?: string } | null = null;
+
+  return {
+    source: 'vite',
+    isRunStart: (line) => /\[vite\] (hmr update|page reload)|ready in \d+/.test(line),
+    matchLine: (line) => {
+      const inline =
+        /^\[plugin:([^\]]+)\] (.+?): (.*) \((\d+):(\d+)\)$/.exec(line) ??
+        /(?:Internal server error|Pre-transform error): (\/.+?): (.*) \((\d+):(\d+)\)$/.exec(line);
+
+      if (inline) {
+        pending = null;
+
+        const [file, message, row, column] =
+          inline.length === 6 ? inline.slice(2) : inline.slice(1);
+
+        return [
+          {
+            source: 'vite',
+            severity: 'error',
+            file,
+            line: Number(row),
+            column: Number(column),
+            message,
+            code: inline.length === 6 ? inline[1] : undefined,
+          },
+        ];
+      }
+
+      const header =
+        /(?:Internal server error|Pre-transform error): (.*)$/.exec(line) ??
+        /^✘ \[ERROR\] (.*?)(?: \[plugin ([^\]]+)\])?$/.exec(line);
+
+      if (header) {
+        pending = { message: header[1], code: header[2] };
+
+        return [];
+      }
+
+      const location =
+        /^\s*File: (.+?):(\d+):(\d+)/.exec(line) ?? /^\s+(\S+):(\d+):(\d+):\s*$/.exec(line);
+
+      if (location && pending) {
+        const { message, code } = pending;
+        pending = null;
+
+        return [
+          {
+            source: 'vite',
+            severity: 'error',
+            file: location[1],
+            line: Number(location[2]),
+            column: Number(location[3]) + (line.includes('File:') ? 0 : 1),
+            message,
+            code,
+          },
+        ];
+      }
+
+      return [];
+    },
+  };
+}
+
+/**
+ * eslint 输出
+ * stylish（默认）：文件路径单独一行，后续每行为 "  10:5  error  message  rule-id"，空行结束
+ * compact：/path/App.tsx: line 10, col 5, Error - message (rule-id)
+ */
+function createEslintMatcher(): ProblemMatcher {
+  let currentFile: string | null = null;
+
+  return {
+    source: 'eslint',
+    isRunStart: () => false,
+    matchLine: (line) => {
+      const compact =
+        /^(.+?): line (\d+), col (\d+), (Error|Warning|Info) - (.*?)(?: \((\S+)\))?$/.exec(line);
+
+      if (compact) {
+        const [, file, row, column, severity, message, code] = compact;
+
+        return [
+          {
+            source: 'eslint',
+            severity: toSeverity(severity),
+            file,
+            line: Number(row),
+            column: Number(column),
+            message,
+            code,
+          },
+        ];
+      }
+
+      if (!line.trim()) {
+        currentFile = null;
+
+        return [];
+      }
+
+      if (/^\/?[^\s:()]+\.\w+$/.test(line)) {
+        currentFile = line;
+
+        return [];
+      }
+
+      const item =
+        currentFile && /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/.exec(line);
+
+      if (currentFile && item) {
+        const [, row, column, severity, message, code] = item;
+
+        return [
+          {
+            source: 'eslint',
+            severity: toSeverity(severity),
+            file: currentFile,
+            line: Number(row),
+            column: Number(column),
+            message,
+            code,
+          },
+        ];
+      }
+
+      return [];
+    },
+  };
+}
+
+/**
+ * 创建进程输出的问题匹配器
+ * 按行解析输出，每种来源的问题列表发生变化时通过 onChange 回调通知
+ *
+ * @param onChange - 回调，参数为来源和该来源当前的全部问题
+ */
+export function createOutputMatcher(
+  onChange: (source: ProblemSource, problems: ProblemMatch[]) => void,
+) {
+  const matchers = [createTscMatcher(), createViteMatcher(), createEslintMatcher()];
+  const problems: Record<ProblemSource, ProblemMatch[]> = { tsc: [], vite: [], eslint: [] };
+  // 上一个输出块中不完整的最后一行
+  let rest = '';
+
+  const update = (source: ProblemSource, next: ProblemMatch[]) => {
+    if (problems[source].length === 0 && next.length === 0) return;
+
+    problems[source] = next;
+    onChange(source, next);
+  };
+
+  const processLine = (line: string) => {
+    matchers.forEach((matcher) => {
+      if (matcher.isRunStart(line)) update(matcher.source, []);
+
+      const matches = matcher.matchLine(line);
+
+      if (matches.length) update(matcher.source, [...problems[matcher.source], ...matches]);
+    });
+  };
+
+  return {
+    write(chunk: string) {
+      const lines = (rest + stripAnsi(chunk)).split(/\r?\n/);
+      rest = lines.pop() ?? '';
+
+      // 回车符会把光标移回行首，只保留最后一次覆盖的内容
+      lines.forEach((line) => processLine(line.split('\r').pop() ?? ''));
+    },
+
+    // 新命令开始执行时清空所有来源的问题
+    reset() {
+      rest = '';
+      PROBLEM_SOURCES.forEach((source) => update(source, []));
+    },
+  };
+}
+
+/**
+ * 将输出中的文件路径转换为项目路径（/react/src/App.tsx 形式）
+ *
+ * @param file - 输出中的路径
+ * @param cwd - 进程的工作目录（项目路径）
+ * @param workdir - WebContainer 的工作目录，绝对路径需要去掉该前缀
+ */
+export function resolveProblemPath(file: string, cwd: string, workdir = ''): string {
+  const path = file.replace(/^file:\/\//, '');
+
+  if (workdir && path.startsWith(`${workdir}/`)) {
+    return normalizePath(path.slice(workdir.length));
+  }
+
+  return path.startsWith('/') ? normalizePath(path) : joinPath(cwd, path);
+}
@@ -0,0 +1,32 @@
+import { DirectoryInterface } from '@/types';
+
+/**
+ * 按项目保存在 IndexedDB 中的数据（回收站、快照）共用的方法
+ * 每一项以 `${projectId}:${id}` 为 key，同一个存储中保存所有项目的数据
+ */
+export const projectItemKey = (projectId: string, id: string) => `${projectId}:${id}`;
+
+// 本地文件句柄和编辑状态不随节点保存
+export function toStoredNode(node: DirectoryInterface): DirectoryInterface {
+  return {
+    ...node,
+    status: undefined,
+    handler: undefined,
+    children: node.children?.map(toStoredNode),
+  };
+}
+
+/**
+ * 读取项目的全部数据，按时间由近到远排列
+ * @param getTime 每一项的时间，用于排序
+ */
+export async function readProjectItems<T>(
+  store: LocalForage,
+  projectId: string,
+  getTime: (item: T) => number,
+): Promise<T[]> {
+  const keys = (await store.keys()).filter((key) => key.startsWith(`${projectId}:`));
+  const items: (T | null)[] = await Promise.all(keys.map((key) => store.getItem<T>(key)));
+
+  return items.filter((item): item is T => item !== null).sort((a, b) => getTime(b) - getTime(a));
+}
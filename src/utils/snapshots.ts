@@ -0,0 +1,113 @@
+import localforage from 'localforage';
+import { v4 as uuidv4 } from 'uuid';
+
+import { projectItemKey, readProjectItems, toStoredNode } from './projectStorage';
+import { collectFiles } from './vfs';
+
+import { DirectoryInterface } from '@/types';
+
+/**
+ * 项目快照
+ * 快照信息和完整的文件树（包含文件内容）分开保存，列出快照时不需要读取文件内容
+ */
+export interface SnapshotMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  // 替换、恢复等操作前自动创建的快照
+  auto: boolean;
+  fileCount: number;
+}
+
+export type SnapshotChangeStatus = 'added' | 'removed' | 'modified';
+
+// 当前项目相对快照的变化
+export interface SnapshotChange {
+  path: string;
+  status: SnapshotChangeStatus;
+}
+
+// 每个项目最多保留的自动快照数量，超出时删除最早的
+const MAX_AUTO_SNAPSHOTS = 10;
+
+const snapshotStore = localforage.createInstance({
+  name: 'online-edit',
+  storeName: 'snapshots',
+});
+
+const snapshotTreeStore = localforage.createInstance({
+  name: 'online-edit',
+  storeName: 'snapshot_trees',
+});
+
+// 最近创建的排在前面
+export function readSnapshots(projectId: string): Promise<SnapshotMeta[]> {
+  return readProjectItems<SnapshotMeta>(snapshotStore, projectId, (snapshot) => snapshot.createdAt);
+}
+
+export async function readSnapshotTree(
+  projectId: string,
+  id: string,
+): Promise<DirectoryInterface[] | null> {
+  return snapshotTreeStore.getItem<DirectoryInterface[]>(projectItemKey(projectId, id));
+}
+
+export async function removeSnapshot(projectId: string, id: string) {
+  await snapshotTreeStore.removeItem(projectItemKey(projectId, id));
+  await snapshotStore.removeItem(projectItemKey(projectId, id));
+}
+
+/**
+ * 保存快照，nodes 中的文件内容需要已经读取
+ * 先保存文件树再保存快照信息，列表中出现的快照一定能恢复
+ */
+export async function writeSnapshot(
+  projectId: string,
+  name: string,
+  nodes: DirectoryInterface[],
+  auto: boolean = false,
+): Promise<SnapshotMeta> {
+  const snapshot: SnapshotMeta = {
+    id: uuidv4(),
+    name,
+    createdAt: Date.now(),
+    auto,
+    fileCount: collectFiles(nodes).length,
+  };
+
+  await snapshotTreeStore.setItem(projectItemKey(projectId, snapshot.id), nodes.map(toStoredNode));
+  await snapshotStore.setItem(projectItemKey(projectId, snapshot.id), snapshot);
+
+  if (auto) {
+    const outdated = (await readSnapshots(projectId))
+      .filter((item) => item.auto)
+      .slice(MAX_AUTO_SNAPSHOTS);
+
+    await Promise.all(outdated.map((item) => removeSnapshot(projectId, item.id)));
+  }
+
+  return snapshot;
+}
+
+// 按路径比较文件，两边的文件内容都需要已经读取
+export function diffSnapshot(
+  snapshot: DirectoryInterface[],
+  current: DirectoryInterface[],
+): SnapshotChange[] {
+  const before = new Map(collectFiles(snapshot).map((file) => [file.path, file.value ?? '']));
+  const after = new Map(collectFiles(current).map((file) => [file.path, file.value ?? '']));
+  const changes: SnapshotChange[] = [];
+
+  after.forEach((value, path) => {
+    if (!before.has(path)) {
+      changes.push({ path, status: 'added' });
+    } else if (before.get(path) !== value) {
+      changes.push({ path, status: 'modified' });
+    }
+  });
+  before.forEach((_, path) => {
+    !after.has(path) && changes.push({ path, status: 'removed' });
+  });
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -1,4 +1,6 @@
-const REACT_TEMPLATE = [
+import { DirectoryInterface } from '@/types';
+
+const REACT_TEMPLATE: DirectoryInterface[] = [
   {
     filename: 'react',
     kind: 'directory',
@@ -160,7 +162,7 @@ const REACT_TEMPLATE = [
   },
 ];
 
-const VUE_TEMPLATE = [
+const VUE_TEMPLATE: DirectoryInterface[] = [
   {
     filename: 'vue',
     kind: 'directory',
@@ -322,7 +324,7 @@ const VUE_TEMPLATE = [
   },
 ];
 
-const VANILLA_TEMPLATE = [
+const VANILLA_TEMPLATE: DirectoryInterface[] = [
   {
     filename: 'vanilla',
     kind: 'directory',
@@ -428,7 +430,10 @@ const VANILLA_TEMPLATE = [
   },
 ];
 
-export const templateList: Record<string, { template: any; icon: string; desc: string }> = {
+export const templateList: Record<
+  string,
+  { template: DirectoryInterface[]; icon: string; desc: string }
+> = {
   react: { template: REACT_TEMPLATE, icon: '/react.svg', desc: '基于vite的react基础模板' },
   vue: { template: VUE_TEMPLATE, icon: '/vue.svg', desc: '基于vite的vue基础模板' },
   vanilla: { template: VANILLA_TEMPLATE, icon: '/node.svg', desc: '基于vite的vanilla基础模板' },
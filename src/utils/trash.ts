@@ -0,0 +1,36 @@
+import localforage from 'localforage';
+
+import { projectItemKey, readProjectItems, toStoredNode } from './projectStorage';
+
+import { DirectoryInterface } from '@/types';
+
+/**
+ * 项目回收站
+ * 删除的文件和目录连同内容一起保存，可以恢复到文件树和 WebContainer 中
+ */
+export interface TrashEntry {
+  id: string;
+  entry: DirectoryInterface;
+  deletedAt: number;
+}
+
+const trashStore = localforage.createInstance({
+  name: 'online-edit',
+  storeName: 'trash',
+});
+
+export async function writeTrashEntry(projectId: string, entry: TrashEntry) {
+  await trashStore.setItem(projectItemKey(projectId, entry.id), {
+    ...entry,
+    entry: toStoredNode(entry.entry),
+  });
+}
+
+// 最近删除的排在前面
+export function readTrashEntries(projectId: string): Promise<TrashEntry[]> {
+  return readProjectItems<TrashEntry>(trashStore, projectId, (entry) => entry.deletedAt);
+}
+
+export async function removeTrashEntries(projectId: string, ids: string[]) {
+  await Promise.all(ids.map((id) => trashStore.removeItem(projectItemKey(projectId, id))));
+}
@@ -0,0 +1,315 @@
+import JSON5 from 'json5';
+import monacoForType, { IDisposable } from 'monaco-editor';
+import { WebContainer } from '@webcontainer/api';
+
+import { dirname, joinPath } from './path';
+
+/**
+ * 为 Monaco 的 TypeScript 语言服务提供项目上下文：
+ * 项目中的源文件和 WebContainer 中 node_modules 的类型声明以 extra lib 的形式注册，
+ * 路径与 model 的 uri 一致（file:///react/src/App.tsx），导入可以跨文件解析和跳转
+ */
+export interface TypeScriptSource {
+  path: string;
+  value: string;
+}
+
+type CompilerOptions = monacoForType.languages.typescript.CompilerOptions;
+
+// 交给语言服务的项目文件
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+// node_modules 中读取的类型声明
+const DECLARATION_EXTENSIONS = ['.d.ts', '.d.mts', '.d.cts'];
+// 读取类型声明的上限，避免依赖过多时占用过多内存
+const MAX_TYPE_PACKAGES = 300;
+const MAX_TYPE_FILES = 5000;
+const MAX_TYPE_FILE_SIZE = 1024 * 1024;
+// 编辑器自带 TypeScript 的标准库声明，不需要从 node_modules 中读取
+const SKIPPED_PACKAGES = ['typescript'];
+
+// 未找到 tsconfig.json 时使用的编译选项
+export const DEFAULT_COMPILER_OPTIONS: CompilerOptions = {
+  module: 99,
+  moduleResolution: 2,
+  isolatedModules: true,
+  allowJs: true,
+  strict: true,
+  skipLibCheck: true,
+  jsx: 1,
+  target: 7,
+  esModuleInterop: true,
+};
+
+// tsconfig.json 中以字符串填写、语言服务中为枚举值的选项
+const ENUM_OPTIONS: Record<string, Record<string, number>> = {
+  target: {
+    es3: 0,
+    es5: 1,
+    es6: 2,
+    es2015: 2,
+    es2016: 3,
+    es2017: 4,
+    es2018: 5,
+    es2019: 6,
+    es2020: 7,
+    es2021: 8,
+    es2022: 9,
+    es2023: 10,
+    esnext: 99,
+  },
+  module: {
+    none: 0,
+    commonjs: 1,
+    amd: 2,
+    umd: 3,
+    system: 4,
+    es6: 5,
+    es2015: 5,
+    es2020: 6,
+    es2022: 7,
+    esnext: 99,
+    node16: 100,
+    nodenext: 199,
+    preserve: 200,
+  },
+  moduleResolution: { classic: 1, node: 2, node10: 2, node16: 3, nodenext: 99, bundler: 100 },
+  moduleDetection: { legacy: 1, auto: 2, force: 3 },
+  jsx: { preserve: 1, react: 2, 'react-native': 3, 'react-jsx': 4, 'react-jsxdev': 5 },
+};
+// 以字符串形式传给语言服务的选项，其余字符串选项与编辑器无关
+const STRING_OPTIONS = ['jsxFactory', 'jsxFragmentFactory', 'jsxImportSource', 'reactNamespace'];
+
+const projectLibs = new Map<string, { value: string; disposables: IDisposable[] }>();
+
+export function isTypeScriptSource(path: string): boolean {
+  return SOURCE_EXTENSIONS.some((extension) => path.endsWith(extension));
+}
+
+function toLibPath(monaco: typeof monacoForType, path: string): string {
+  return monaco.Uri.file(path).toString();
+}
+
+// TypeScript 和 JavaScript 使用各自的语言服务，两边都需要能看到项目中的文件
+function addLib(monaco: typeof monacoForType, value: string, path: string): IDisposable[] {
+  const { typescriptDefaults, javascriptDefaults } = monaco.languages.typescript;
+  const libPath = toLibPath(monaco, path);
+
+  return [
+    typescriptDefaults.addExtraLib(value, libPath),
+    javascriptDefaults.addExtraLib(value, libPath),
+  ];
+}
+
+/**
+ * 同步项目文件，只重新注册内容有变化的文件，并移除已经不存在的文件
+ */
+export function syncProjectLibs(monaco: typeof monacoForType, sources: TypeScriptSource[]) {
+  const paths = new Set(sources.map(({ path }) => path));
+
+  projectLibs.forEach(({ disposables }, path) => {
+    if (paths.has(path)) return;
+
+    disposables.forEach((disposable) => disposable.dispose());
+    projectLibs.delete(path);
+  });
+
+  sources.forEach(({ path, value }) => {
+    if (projectLibs.get(path)?.value === value) return;
+
+    projectLibs.set(path, { value, disposables: addLib(monaco, value, path) });
+  });
+}
+
+export function getProjectLib(path: string): string | undefined {
+  return projectLibs.get(path)?.value;
+}
+
+/**
+ * 替换全部 node_modules 类型声明
+ * 类型声明可能有几千个文件，通过 setExtraLibs 一次注册；setExtraLibs 会清空所有的 extraLib，
+ * 之后重新注册项目文件，使项目文件仍然可以单独更新和移除
+ */
+export function setTypeLibs(monaco: typeof monacoForType, sources: TypeScriptSource[]) {
+  const { typescriptDefaults, javascriptDefaults } = monaco.languages.typescript;
+  const libs = sources.map(({ path, value }) => ({
+    content: value,
+    filePath: toLibPath(monaco, path),
+  }));
+
+  typescriptDefaults.setExtraLibs(libs);
+  javascriptDefaults.setExtraLibs(libs);
+
+  projectLibs.forEach((lib, path) => {
+    lib.disposables = addLib(monaco, lib.value, path);
+  });
+}
+
+function toLibFileName(lib: string): string {
+  const name = lib.toLowerCase();
+
+  return name.startsWith('lib.') ? name : `lib.${name}.d.ts`;
+}
+
+/**
+ * 将 tsconfig.json 中的 compilerOptions 转换为语言服务使用的格式
+ * 枚举选项转换为数值，路径相关的选项转换为与 model uri 一致的绝对路径
+ * @param configDir tsconfig.json 所在目录
+ */
+export function toCompilerOptions(
+  monaco: typeof monacoForType,
+  options: Record<string, unknown>,
+  configDir: string,
+): CompilerOptions {
+  const result: CompilerOptions = {};
+
+  Object.entries(options).forEach(([key, value]) => {
+    const enumValues = ENUM_OPTIONS[key];
+
+    if (enumValues) {
+      const converted = typeof value === 'string' ? enumValues[value.toLowerCase()] : undefined;
+      converted !== undefined && (result[key] = converted);
+    } else if (key === 'lib' && Array.isArray(value)) {
+      result.lib = value.map(String).map(toLibFileName);
+    } else if (key === 'types' && Array.isArray(value)) {
+      result.types = value.map(String);
+    } else if (key === 'paths' && typeof value === 'object' && value !== null) {
+      result.paths = value as Record<string, string[]>;
+    } else if (key === 'baseUrl' && typeof value === 'string') {
+      result.baseUrl = toLibPath(monaco, joinPath(configDir, value));
+    } else if (typeof value === 'boolean' || typeof value === 'number') {
+      result[key] = value;
+    } else if (STRING_OPTIONS.includes(key) && typeof value === 'string') {
+      result[key] = value;
+    }
+  });
+
+  // 没有 baseUrl 时 paths 相对 tsconfig.json 所在目录
+  if (result.paths && !result.baseUrl) result.baseUrl = toLibPath(monaco, configDir);
+
+  return result;
+}
+
+/**
+ * 解析 tsconfig.json，合并通过相对路径 extends 的配置
+ * 只包含 references 的配置（如 Vite 模板）使用第一个引用的配置
+ * @param readConfig 按路径读取项目中的文件，不存在时返回 undefined
+ */
+export async function readTsConfig(
+  path: string,
+  readConfig: (path: string) => Promise<string | undefined>,
+  visited: Set<string> = new Set(),
+): Promise<Record<string, unknown> | null> {
+  const content = visited.has(path) ? undefined : await readConfig(path);
+
+  if (content === undefined) return null;
+
+  visited.add(path);
+
+  const config = JSON5.parse(content);
+  const configDir = dirname(path);
+  const extendsList: string[] = [].concat(config.extends ?? []);
+  let compilerOptions: Record<string, unknown> = {};
+
+  for (const item of extendsList) {
+    // 从 npm 包中继承的配置无法读取，忽略
+    if (!item.startsWith('.')) continue;
+
+    const extendsPath = joinPath(configDir, item.endsWith('.json') ? item : `${item}.json`);
+    const base = await readTsConfig(extendsPath, readConfig, visited);
+    compilerOptions = { ...compilerOptions, ...base };
+  }
+
+  compilerOptions = { ...compilerOptions, ...config.compilerOptions };
+
+  if (!config.compilerOptions && config.references?.length > 0) {
+    const reference: string = config.references[0].path;
+    const referencePath = joinPath(
+      configDir,
+      reference.endsWith('.json') ? reference : joinPath(reference, 'tsconfig.json'),
+    );
+
+    return (await readTsConfig(referencePath, readConfig, visited)) ?? compilerOptions;
+  }
+
+  return compilerOptions;
+}
+
+// @scope/name 对应的 @types 包名为 @types/scope__name
+function getTypesPackageName(name: string): string {
+  return `@types/${name.startsWith('@') ? name.slice(1).replace('/', '__') : name}`;
+}
+
+async function readDeclarations(
+  webcontainer: WebContainer,
+  directory: string,
+  files: TypeScriptSource[],
+) {
+  const entries = await webcontainer.fs.readdir(directory, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (files.length >= MAX_TYPE_FILES) return;
+
+    const path = joinPath(directory, entry.name);
+
+    if (entry.isDirectory() && entry.name !== 'node_modules') {
+      await readDeclarations(webcontainer, path, files);
+    } else if (entry.isFile() && DECLARATION_EXTENSIONS.some((item) => path.endsWith(item))) {
+      const value = await webcontainer.fs.readFile(path, 'utf-8');
+      value.length <= MAX_TYPE_FILE_SIZE && files.push({ path, value });
+    }
+  }
+}
+
+/**
+ * 读取项目依赖在 node_modules 中的类型声明和 package.json
+ * 依赖自身没有类型声明时读取对应的 @types 包，依赖的 dependencies 也会继续读取
+ * @param root package.json 所在目录
+ * @param dependencies 项目 package.json 中的依赖名
+ */
+export async function readNodeModulesTypes(
+  webcontainer: WebContainer,
+  root: string,
+  dependencies: string[],
+): Promise<TypeScriptSource[]> {
+  const files: TypeScriptSource[] = [];
+  const queue = dependencies.filter((name) => !SKIPPED_PACKAGES.includes(name));
+  const visited = new Set(queue);
+
+  const enqueue = (name: string) => {
+    if (visited.has(name) || SKIPPED_PACKAGES.includes(name)) return;
+
+    visited.add(name);
+    queue.push(name);
+  };
+
+  while (queue.length > 0 && visited.size <= MAX_TYPE_PACKAGES && files.length < MAX_TYPE_FILES) {
+    const name = queue.shift()!;
+    const directory = joinPath(root, 'node_modules', name);
+    let packageJson: string;
+
+    try {
+      packageJson = await webcontainer.fs.readFile(joinPath(directory, 'package.json'), 'utf-8');
+    } catch {
+      // 没有安装的包跳过
+      continue;
+    }
+
+    const count = files.length;
+
+    files.push({ path: joinPath(directory, 'package.json'), value: packageJson });
+    await readDeclarations(webcontainer, directory, files);
+
+    if (files.length - count === 1) {
+      name.startsWith('@types/') || enqueue(getTypesPackageName(name));
+      continue;
+    }
+
+    try {
+      Object.keys(JSON.parse(packageJson).dependencies ?? {}).forEach(enqueue);
+    } catch {
+      // package.json 格式不正确时不读取它的依赖
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,402 @@
+import { FileSystemTree } from '@webcontainer/api';
+import jszip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+
+import { basename, dirname, joinPath, normalizePath } from './path';
+import { isIgnoredPath } from './fileWatcher';
+import { decodeFileContent, getFileNodeContent, isBinaryPath } from './binary';
+import { MAX_EDITOR_FILE_SIZE, MAX_IMPORT_FILE_SIZE } from './constants';
+
+import { DirectoryInterface, DirectoryNode, FileEncoding, FileNode, isDirectory } from '@/types';
+
+/**
+ * 文件树节点与其他文件格式之间的转换
+ * 文件树、项目记录、WebContainer、zip 和本地文件夹都以 DirectoryInterface 为准
+ */
+
+export function createFileNode(
+  path: string,
+  value: string = '',
+  encoding?: FileEncoding,
+): FileNode {
+  const node: FileNode = {
+    id: uuidv4(),
+    filename: basename(path),
+    path: normalizePath(path),
+    kind: 'file',
+    value,
+  };
+
+  return encoding ? { ...node, encoding } : node;
+}
+
+// 内容还没有读取的文件节点，打开、搜索或挂载时再按需读取
+export function createLazyFileNode(path: string, size: number): FileNode {
+  return {
+    id: uuidv4(),
+    filename: basename(path),
+    path: normalizePath(path),
+    kind: 'file',
+    size,
+  };
+}
+
+export function createDirectoryNode(
+  path: string,
+  children: DirectoryInterface[] = [],
+): DirectoryNode {
+  return {
+    id: uuidv4(),
+    filename: basename(path),
+    path: normalizePath(path),
+    kind: 'directory',
+    children,
+  };
+}
+
+// 节点及其子目录中的所有文件
+export function collectFiles(nodes: DirectoryInterface[]): DirectoryInterface[] {
+  return nodes.flatMap((node) =>
+    node.kind === 'file' ? [node] : collectFiles(node.children ?? []),
+  );
+}
+
+/**
+ * 写入项目记录前去掉本地文件句柄和文件树中的临时状态
+ * 项目记录只保存文件树结构，文件内容单独保存（见 fileContents），这里只保留文件大小
+ */
+export function toProjectFileData(nodes: DirectoryInterface[]): DirectoryInterface[] {
+  return nodes.map((item) => {
+    const node: DirectoryInterface = { ...item };
+    delete node.handler;
+    delete node.status;
+
+    if (node.kind === 'file') {
+      node.size = getFileSize(item);
+      delete node.value;
+    }
+
+    return node.children ? { ...node, children: toProjectFileData(node.children) } : node;
+  });
+}
+
+// 文件大小（字节），已读取内容时按内容计算
+export function getFileSize(node: DirectoryInterface): number {
+  if (node.value === undefined) return node.size ?? 0;
+
+  return node.encoding === 'base64' ? Math.floor((node.value.length * 3) / 4) : node.value.length;
+}
+
+export function formatFileSize(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// 过大的文本文件不在编辑器中打开，二进制文件只读预览不受限制
+export function isLargeFile(node: DirectoryInterface | undefined | null): boolean {
+  return (
+    node?.kind === 'file' &&
+    node.encoding !== 'base64' &&
+    !isBinaryPath(node.path) &&
+    getFileSize(node) > MAX_EDITOR_FILE_SIZE
+  );
+}
+
+/**
+ * 去掉超过导入大小限制的文件，返回剩余的节点和被跳过的文件路径
+ */
+export function removeOversizedFiles(nodes: DirectoryInterface[]): {
+  nodes: DirectoryInterface[];
+  skipped: string[];
+} {
+  const skipped: string[] = [];
+
+  const filter = (items: DirectoryInterface[]): DirectoryInterface[] =>
+    items.reduce<DirectoryInterface[]>((acc, item) => {
+      if (item.kind === 'file' && getFileSize(item) > MAX_IMPORT_FILE_SIZE) {
+        skipped.push(item.path);
+      } else {
+        acc.push(item.children ? { ...item, children: filter(item.children) } : item);
+      }
+
+      return acc;
+    }, []);
+
+  return { nodes: filter(nodes), skipped };
+}
+
+/**
+ * 转换为 WebContainer mount 使用的 FileSystemTree
+ */
+export function toFileSystemTree(nodes: DirectoryInterface[]): FileSystemTree {
+  return nodes.reduce<FileSystemTree>((tree, node) => {
+    tree[node.filename] = isDirectory(node)
+      ? { directory: toFileSystemTree(node.children ?? []) }
+      : { file: { contents: getFileNodeContent(node) } };
+
+    return tree;
+  }, {});
+}
+
+/**
+ * 从 FileSystemTree 生成文件树节点，符号链接会被忽略
+ *
+ * @param parentPath - tree 所在目录的项目路径
+ */
+export function fromFileSystemTree(
+  tree: FileSystemTree,
+  parentPath: string = '/',
+): DirectoryInterface[] {
+  const nodes: DirectoryInterface[] = [];
+
+  Object.entries(tree).forEach(([name, entry]) => {
+    const path = joinPath(parentPath, name);
+
+    if ('directory' in entry) {
+      nodes.push(createDirectoryNode(path, fromFileSystemTree(entry.directory, path)));
+    } else if ('file' in entry && 'contents' in entry.file) {
+      const { contents } = entry.file;
+
+      if (typeof contents === 'string') {
+        nodes.push(createFileNode(path, contents));
+      } else {
+        const { value, encoding } = decodeFileContent(contents, path);
+        nodes.push(createFileNode(path, value, encoding));
+      }
+    }
+  });
+
+  return nodes;
+}
+
+/**
+ * 将文件树节点写入 zip，路径去掉开头的 /，二进制文件写入原始字节
+ */
+export function addToZip(zip: jszip, nodes: DirectoryInterface[]): jszip {
+  nodes.forEach((node) => {
+    if (isDirectory(node)) {
+      zip.folder(node.path.slice(1));
+      addToZip(zip, node.children ?? []);
+    } else {
+      zip.file(node.path.slice(1), node.value ?? '', { base64: node.encoding === 'base64' });
+    }
+  });
+
+  return zip;
+}
+
+/**
+ * 按路径逐个添加文件构建文件树，没有单独添加的中间目录会被补齐
+ * zip、拖入的文件夹和 <input webkitdirectory> 都只提供扁平的路径列表
+ */
+function createTreeBuilder() {
+  const root = createDirectoryNode('/');
+  const directories = new Map<string, DirectoryInterface>([['/', root]]);
+
+  const addDirectory = (path: string): DirectoryInterface => {
+    const existing = directories.get(path);
+
+    if (existing) return existing;
+
+    const directory = createDirectoryNode(path);
+    addDirectory(dirname(path)).children!.push(directory);
+    directories.set(path, directory);
+
+    return directory;
+  };
+
+  return {
+    addDirectory,
+    addFile: (node: FileNode) => {
+      addDirectory(dirname(node.path)).children!.push(node);
+    },
+    nodes: () => root.children ?? [],
+  };
+}
+
+/**
+ * 读取 zip 生成文件树节点
+ */
+export async function fromZip(
+  data: Blob | ArrayBuffer | Uint8Array,
+): Promise<DirectoryInterface[]> {
+  const zip = await jszip.loadAsync(data);
+  const builder = createTreeBuilder();
+
+  for (const entry of Object.values(zip.files)) {
+    const path = normalizePath(entry.name);
+
+    if (path === '/' || isIgnoredPath(path)) continue;
+
+    if (entry.dir) {
+      builder.addDirectory(path);
+    } else {
+      const bytes = await entry.async('uint8array');
+
+      if (bytes.length > MAX_IMPORT_FILE_SIZE) {
+        builder.addFile(createLazyFileNode(path, bytes.length));
+      } else {
+        const { value, encoding } = decodeFileContent(bytes, path);
+        builder.addFile(createFileNode(path, value, encoding));
+      }
+    }
+  }
+
+  return builder.nodes();
+}
+
+/**
+ * 读取 <input webkitdirectory> 选择的文件生成文件树节点，路径取自 webkitRelativePath
+ * 空目录不会出现在 FileList 中
+ */
+export async function fromFileList(files: FileList | File[]): Promise<DirectoryInterface[]> {
+  const builder = createTreeBuilder();
+
+  for (const file of Array.from(files)) {
+    const path = normalizePath(file.webkitRelativePath || file.name);
+
+    if (isIgnoredPath(path)) continue;
+
+    builder.addFile(await readFileNode(path, file));
+  }
+
+  return builder.nodes();
+}
+
+// readEntries 每次只返回一部分，需要反复调用直到返回空数组
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    );
+
+    if (batch.length === 0) return entries;
+
+    entries.push(...batch);
+  }
+}
+
+/**
+ * 读取拖入的文件或文件夹（DataTransferItem.webkitGetAsEntry）生成文件树节点
+ *
+ * @param parentPath - 该条目所在目录的项目路径
+ */
+export async function fromFileSystemEntry(
+  entry: FileSystemEntry,
+  parentPath: string = '/',
+): Promise<DirectoryInterface | null> {
+  const path = joinPath(parentPath, entry.name);
+
+  if (isIgnoredPath(path)) return null;
+
+  if (entry.isDirectory) {
+    const children: DirectoryInterface[] = [];
+
+    for (const child of await readAllEntries(entry as FileSystemDirectoryEntry)) {
+      const node = await fromFileSystemEntry(child, path);
+      node && children.push(node);
+    }
+
+    return createDirectoryNode(path, children);
+  }
+
+  const file = await new Promise<File>((resolve, reject) =>
+    (entry as FileSystemFileEntry).file(resolve, reject),
+  );
+
+  return readFileNode(path, file);
+}
+
+/**
+ * 导入的内容不在同一个顶层目录下时（如 zip 根目录直接是文件），放入以 name 命名的目录
+ */
+export function wrapInDirectory(nodes: DirectoryInterface[], name: string): DirectoryInterface[] {
+  if (nodes.length === 1 && isDirectory(nodes[0])) return nodes;
+
+  const prefix = joinPath('/', name);
+
+  const movePaths = (items: DirectoryInterface[]): DirectoryInterface[] =>
+    items.map((item) => ({
+      ...item,
+      path: joinPath(prefix, item.path),
+      children: item.children && movePaths(item.children),
+    }));
+
+  return [createDirectoryNode(prefix, movePaths(nodes))];
+}
+
+// 读取文件内容，二进制文件转换为 base64
+export const getFileContent = async (file: File) => {
+  return decodeFileContent(new Uint8Array(await file.arrayBuffer()), file.name);
+};
+
+// 超过导入大小限制的文件不读取内容，由 removeOversizedFiles 统一跳过
+async function readFileNode(path: string, file: File): Promise<FileNode> {
+  if (file.size > MAX_IMPORT_FILE_SIZE) return createLazyFileNode(path, file.size);
+
+  const { value, encoding } = await getFileContent(file);
+
+  return createFileNode(path, value, encoding);
+}
+
+/**
+ * 读取本地文件夹（File System Access API）生成文件树节点，节点上保留对应的句柄
+ * 只读取目录结构和文件大小，文件内容在需要时通过句柄读取；node_modules、.git 等目录不会读取
+ *
+ * @param parentPath - 该文件夹所在目录的项目路径
+ */
+export async function fromDirectoryHandle(
+  directoryHandler: FileSystemDirectoryHandle,
+  parentPath: string = '/',
+): Promise<DirectoryNode> {
+  const path = joinPath(parentPath, directoryHandler.name);
+  const children: DirectoryInterface[] = [];
+
+  for await (const handle of directoryHandler.values()) {
+    const childPath = joinPath(path, handle.name);
+
+    if (isIgnoredPath(childPath)) continue;
+
+    if (handle.kind === 'directory') {
+      children.push(await fromDirectoryHandle(handle, path));
+    } else {
+      const { size } = await handle.getFile();
+
+      children.push({ ...createLazyFileNode(childPath, size), handler: handle });
+    }
+  }
+
+  return { ...createDirectoryNode(path, children), handler: directoryHandler };
+}
+
+/**
+ * 将文件树节点写入本地文件夹，已存在的同名文件会被覆盖
+ *
+ * @param directoryHandler - 写入的目标文件夹
+ * @param nodes - 该文件夹下的节点
+ */
+export async function writeToDirectoryHandle(
+  directoryHandler: FileSystemDirectoryHandle,
+  nodes: DirectoryInterface[],
+) {
+  for (const node of nodes) {
+    if (isDirectory(node)) {
+      const childHandler = await directoryHandler.getDirectoryHandle(node.filename, {
+        create: true,
+      });
+
+      await writeToDirectoryHandle(childHandler, node.children ?? []);
+    } else {
+      const fileHandler = await directoryHandler.getFileHandle(node.filename, { create: true });
+      const writable = await fileHandler.createWritable();
+
+      await writable.write(getFileNodeContent(node));
+      await writable.close();
+    }
+  }
+}
@@ -1,11 +1,16 @@
-import { FileSystemTree, WebContainer } from '@webcontainer/api';
+import { WebContainer } from '@webcontainer/api';
 import { v4 as uuid } from 'uuid';
 
 import { PRETTIER_FORMAT_PATH } from './constants';
+import { dirname, joinPath } from './path';
+import { createDirectoryNode, createFileNode } from './vfs';
+import { decodeFileContent, getFileNodeContent } from './binary';
+import { FileContent } from './fileContents';
 
-import { DirectoryInterface, FileInterface, DataNode } from '@/types';
+import { DirectoryInterface, DataNode } from '@/types';
 
-export const WebContainerFileSystemTreeSavePoint = 'Web_Container_File_System_Tree_Save_Point';
+// 最近一次写入或读取到的磁盘内容（按路径），用于区分 fs.watch 事件来自编辑器自身还是外部进程
+export const diskContentCache = new Map<string, string>();
 
 const routerFormat = (path: string): string => {
   const pathArray = path.split('/');
@@ -25,6 +30,14 @@ export function writeFile(
   content: string | Uint8Array,
   webcontainerInstance: WebContainer,
 ) {
+  if (typeof content !== 'string') {
+    diskContentCache.set(path, decodeFileContent(content, path).value);
+
+    return webcontainerInstance?.fs.writeFile(path, content);
+  }
+
+  diskContentCache.set(path, content);
+
   return webcontainerInstance?.fs.writeFile(path, content, {
     encoding: 'utf-8',
   });
@@ -34,27 +47,37 @@ export function createFile(path: string, webcontainerInstance: WebContainer) {
   return writeFile(path, '', webcontainerInstance);
 }
 
-export async function writeDirByLocal(dir: any, webcontainerInstance: WebContainer) {
+/**
+ * 将文件树写入 WebContainer
+ * @param loadContent 读取内容还没有读取的文件，逐个读取写入，不会把整个项目的内容同时放进内存
+ */
+export async function writeDirByLocal(
+  dir: DirectoryInterface | DirectoryInterface[] | null,
+  webcontainerInstance: WebContainer,
+  loadContent?: (file: DirectoryInterface) => Promise<FileContent>,
+) {
   if (!dir) return;
 
   if (Array.isArray(dir)) {
-    dir.forEach((item) => {
-      writeDirByLocal(item, webcontainerInstance);
-    });
+    for (const item of dir) {
+      await writeDirByLocal(item, webcontainerInstance, loadContent);
+    }
 
     return;
   }
 
-  if (dir?.kind === 'file') {
-    await writeFile(dir.path, dir.value ?? '', webcontainerInstance);
+  if (dir.kind === 'file') {
+    const content = dir.value === undefined && loadContent ? await loadContent(dir) : dir;
+
+    await writeFile(dir.path, getFileNodeContent(content), webcontainerInstance);
 
     return;
   }
 
-  await createDir(dir?.path, webcontainerInstance);
+  await createDir(dir.path, webcontainerInstance);
 
-  for (const file of dir.children) {
-    await writeDirByLocal(file, webcontainerInstance);
+  for (const file of dir.children ?? []) {
+    await writeDirByLocal(file, webcontainerInstance, loadContent);
   }
 }
 
@@ -72,30 +95,30 @@ export function rm(path: string, webcontainerInstance: WebContainer) {
 }
 
 export async function readFile(path: string, webcontainerInstance: WebContainer) {
-  const u8 = await webcontainerInstance?.fs.readFile(path, 'utf-8');
+  return webcontainerInstance?.fs.readFile(path, 'utf-8');
+}
 
-  return u8;
+/**
+ * 读取文件并转换为节点的 value，二进制文件为 base64
+ */
+export async function readFileContent(path: string, webcontainerInstance: WebContainer) {
+  const bytes = await webcontainerInstance?.fs.readFile(path);
+
+  return decodeFileContent(bytes, path);
 }
 
 export async function readLocalTypeFile(
   webcontainerInstance: WebContainer,
   path: string,
-): Promise<FileInterface> {
-  return {
-    name: path.split('/').splice(-1, 1)?.[0] || '',
-    path,
-    content: await webcontainerInstance?.fs.readFile(path, 'utf-8'),
-    kind: 'file',
-  };
+): Promise<DirectoryInterface> {
+  const { value, encoding } = await readFileContent(path, webcontainerInstance);
+
+  return createFileNode(path, value, encoding);
 }
 
+// 在原目录中重命名，使用 fs.rename 避免重写内容时出错导致文件丢失
 export async function renameFile(path: string, name: string, webcontainerInstance: WebContainer) {
-  const content = await readFile(path, webcontainerInstance);
-  await rm(path, webcontainerInstance);
-
-  const newPath = [...path.split('/').slice(0, -1), name].join('/');
-
-  await writeFile(newPath, content, webcontainerInstance);
+  await webcontainerInstance.fs.rename(path, joinPath(dirname(path), name));
 }
 
 export async function readFileSystem(
@@ -118,43 +141,6 @@ export async function readFileSystem(
   );
 }
 
-async function readAsFileSystemTree(
-  webcontainerInstance: WebContainer,
-  path = '/',
-): Promise<FileSystemTree> {
-  const dirs = await webcontainerInstance?.fs.readdir(path, {
-    withFileTypes: true,
-  });
-
-  const arrayTree = await Promise.all(
-    dirs
-      .filter((item) => !(item.isDirectory() && item.name === 'node_modules'))
-      .map(async (item) => ({
-        name: item.name,
-        contents: item.isFile()
-          ? await readFile(`${path}/${item.name}`, webcontainerInstance)
-          : undefined,
-        directory: item.isDirectory()
-          ? await readAsFileSystemTree(webcontainerInstance, `${path}/${item.name}`)
-          : undefined,
-      })),
-  );
-
-  return arrayTree.reduce(
-    (tree, { name, contents, directory }) => ({
-      ...tree,
-      [name]: directory
-        ? {
-            directory,
-          }
-        : {
-            file: { contents },
-          },
-    }),
-    {},
-  );
-}
-
 export async function readLocalTypeFileTree(
   webcontainerInstance: WebContainer,
   path: string = '/',
@@ -163,36 +149,17 @@ export async function readLocalTypeFileTree(
     withFileTypes: true,
   });
 
-  const children: (FileInterface | DirectoryInterface)[] = [];
+  const children: DirectoryInterface[] = [];
 
   for (const item of dirs) {
     if (item.isFile()) {
-      children.push(
-        await readLocalTypeFile(
-          webcontainerInstance,
-          `${path === '/' ? '/' : `${path}/`}${item.name}`,
-        ),
-      );
+      children.push(await readLocalTypeFile(webcontainerInstance, joinPath(path, item.name)));
     } else if (item.isDirectory()) {
-      children.push(
-        await readLocalTypeFileTree(
-          webcontainerInstance,
-          `${path === '/' ? '/' : `${path}/`}${item.name}`,
-        ),
-      );
+      children.push(await readLocalTypeFileTree(webcontainerInstance, joinPath(path, item.name)));
     }
   }
 
-  return {
-    name: path.split('/').splice(-1, 1)?.[0] || 'project',
-    path: `${path}`,
-    kind: 'directory',
-    children,
-  };
-}
-
-export async function saveFileSystemTree(webcontainerInstance: WebContainer) {
-  const tree = webcontainerInstance && (await readAsFileSystemTree(webcontainerInstance));
+  const directory = createDirectoryNode(path, children);
 
-  localStorage.setItem(WebContainerFileSystemTreeSavePoint, JSON.stringify(tree));
+  return path === '/' ? { ...directory, filename: 'project' } : directory;
 }
@@ -1,24 +1,16 @@
 import jszip from 'jszip';
 
-import {
-  DirectoryInterface,
-  EmptyFileInterface,
-  FilerInterface,
-  isDirectory,
-  isFiler,
-} from '@/types';
+import { addToZip } from './vfs';
+
+import { DirectoryInterface } from '@/types';
 
 class Zip {
   zip: jszip;
   constructor() {
     this.zip = new jszip();
   }
-  public addFile(file: EmptyFileInterface | FilerInterface) {
-    if ('value' in file) {
-      this.zip.file(file.path.slice(1), (file as any).value);
-    } else {
-      this.zip.file(file.path.slice(1), '');
-    }
+  public addFile(file: DirectoryInterface) {
+    addToZip(this.zip, [file]);
 
     return this;
   }
@@ -32,21 +24,7 @@ class Zip {
   public addDirectory(directory: DirectoryInterface | null) {
     if (!directory) return;
 
-    const { path, children } = directory;
-    this.zip.folder(path.slice(1));
-
-    const stack = [...children];
-
-    while (stack.length) {
-      const cur = stack.shift()!;
-
-      if (isFiler(cur)) {
-        this.addFile(cur);
-      } else if (isDirectory(cur)) {
-        this.addFolder(cur.path.slice(1));
-        stack.push(...cur.children);
-      }
-    }
+    addToZip(this.zip, [directory]);
 
     return this;
   }